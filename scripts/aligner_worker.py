@@ -0,0 +1,101 @@
+"""
+stable-whisper 정렬 워커 (JSON-lines 프로토콜)
+
+모델을 한 번만 로드하고 stdin으로 들어오는 요청을 한 줄씩 처리합니다.
+모든 메시지는 한 줄짜리 JSON이며 "v"에 프로토콜 버전을 담습니다.
+
+  → {"v": 1, "type": "ready", "model": "small"}
+  ← {"v": 1, "id": "...", "type": "align", "audioPath": "...", "text": "...", "language": "en"}
+  → {"v": 1, "id": "...", "type": "progress", "progress": 0.42}
+  → {"v": 1, "id": "...", "type": "result", "words": [{"word": "...", "start": 0.0, "end": 0.1}]}
+  → {"v": 1, "id": "...", "type": "error", "message": "..."}
+  ← {"v": 1, "type": "shutdown"}
+
+라이브러리 로그가 프로토콜 출력에 섞이지 않도록 sys.stdout은 stderr로 돌립니다.
+"""
+
+import json
+import os
+import sys
+
+PROTOCOL_VERSION = 1
+PROGRESS_STEP = 0.05
+
+protocol_out = sys.stdout
+sys.stdout = sys.stderr
+
+
+def send(message):
+    protocol_out.write(
+        json.dumps({"v": PROTOCOL_VERSION, **message}, ensure_ascii=False) + "\n"
+    )
+    protocol_out.flush()
+
+
+def align(model, job_id, request):
+    last_progress = [0.0]
+
+    def on_progress(seek, total):
+        if not total:
+            return
+        progress = min(1.0, seek / total)
+        if progress - last_progress[0] >= PROGRESS_STEP:
+            last_progress[0] = progress
+            send({"id": job_id, "type": "progress", "progress": round(progress, 3)})
+
+    result = model.align(
+        request["audioPath"],
+        request["text"],
+        language=request.get("language", "en"),
+        regroup=False,
+        verbose=None,
+        progress_callback=on_progress,
+    )
+    words = []
+    for segment in result.segments:
+        for word in segment.words:
+            words.append(
+                {"word": word.word.strip(), "start": word.start, "end": word.end}
+            )
+    return words
+
+
+def main():
+    import stable_whisper
+
+    model_name = os.environ.get("ALIGNER_MODEL", "small")  # large-v3
+    model = stable_whisper.load_model(model_name)
+    send({"type": "ready", "model": model_name})
+
+    for raw in sys.stdin:
+        raw = raw.strip()
+        if not raw:
+            continue
+
+        job_id = None
+        try:
+            request = json.loads(raw)
+            job_id = request.get("id")
+            if request.get("v") != PROTOCOL_VERSION:
+                raise ValueError(
+                    f"Unsupported protocol version: {request.get('v')} (expected {PROTOCOL_VERSION})"
+                )
+
+            if request.get("type") == "shutdown":
+                break
+            if request.get("type") != "align":
+                raise ValueError(f"Unknown request type: {request.get('type')}")
+
+            words = align(model, job_id, request)
+            send({"id": job_id, "type": "result", "words": words})
+        except Exception as e:
+            send({"id": job_id, "type": "error", "message": str(e)})
+
+
+if __name__ == "__main__":
+    try:
+        main()
+    except Exception as e:
+        # 모델 로드 실패 등 요청과 무관한 에러
+        send({"type": "fatal", "message": str(e)})
+        sys.exit(1)
@@ -1,9 +1,66 @@
 import { z } from "zod";
+import { TTS_PROVIDER_NAMES } from "../service/tts/provider/types";
+import {
+  TRANSLATION_TARGET_LANGS,
+  DEFAULT_TARGET_LANG,
+} from "../service/processor/translation";
+import {
+  ROMANIZATION_SYSTEMS,
+  DEFAULT_ROMANIZATION_SYSTEM,
+} from "../service/processor/romanize";
+import {
+  NORMALIZATION_RULES,
+  NormalizationRule,
+  DEFAULT_NORMALIZATION_RULES,
+} from "../service/processor/normalize";
+
+export const lyricsSourceSchema = z.discriminatedUnion("type", [
+  // trackId로 Spotify 싱크 가사를 가져옴
+  z.object({ type: z.literal("spotify") }),
+  // LRC 파일 내용 (enhanced LRC의 단어 단위 타임스탬프 포함)
+  z.object({
+    type: z.literal("lrc"),
+    content: z.string().min(1, "LRC 내용은 필수입니다."),
+  }),
+  // 줄바꿈으로 구분된 가사, 각 줄 앞에 선택적으로 [mm:ss.xx] 타임스탬프
+  z.object({
+    type: z.literal("text"),
+    content: z.string().min(1, "가사 내용은 필수입니다."),
+  }),
+]);
 
 export const contentCreationRequestSchema = z.object({
   songId: z.number().int().positive("songId는 양의 정수여야 합니다."),
   trackId: z.string().min(1, "trackId는 필수입니다."),
   title: z.string().min(1, "title은 필수입니다."),
+  // resume: 이전 실행의 체크포인트부터 이어서 처리, restart: 체크포인트를 지우고 처음부터 처리
+  mode: z.enum(["resume", "restart"]).default("resume"),
+  // 지정하지 않으면 오디오는 PENDING_TTS_URL로 남고 TTS 크론 작업이 생성
+  ttsProvider: z.enum(TTS_PROVIDER_NAMES).optional(),
+  lyrics: lyricsSourceSchema.default({ type: "spotify" }),
+  // 번역 대상 언어 목록, 첫 번째 언어가 titleTranslated / translated에 사용됨
+  targetLangs: z
+    .array(z.enum(TRANSLATION_TARGET_LANGS))
+    .min(1, "targetLangs에는 최소 한 개의 언어가 필요합니다.")
+    .transform((langs) => [...new Set(langs)])
+    .default([DEFAULT_TARGET_LANG]),
+  // 로마자 표기법 목록, 첫 번째 표기법이 romanized에 사용됨
+  romanizationSystems: z
+    .array(z.enum(ROMANIZATION_SYSTEMS))
+    .min(1, "romanizationSystems에는 최소 한 개의 표기법이 필요합니다.")
+    .transform((systems) => [...new Set(systems)])
+    .default([DEFAULT_ROMANIZATION_SYSTEM]),
+  // 가사 처리 전에 순서대로 적용할 정규화 규칙 (빈 배열이면 원문 그대로 사용)
+  normalizationRules: z
+    .array(
+      z.enum(
+        Object.keys(NORMALIZATION_RULES) as [
+          NormalizationRule,
+          ...NormalizationRule[],
+        ]
+      )
+    )
+    .default(DEFAULT_NORMALIZATION_RULES),
 });
 
 export type ContentCreationRequest = z.infer<
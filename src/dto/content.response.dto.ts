@@ -1,17 +1,112 @@
 import { z } from "zod";
+import {
+  PHONOLOGY_RULES,
+  PhonologyRuleName,
+} from "../service/processor/phonology";
+import { SECTION_LABELS } from "../service/processor/structure";
+import { TTS_AUDIO_FORMATS } from "../service/tts/tts-audio-processor";
+import { GRAMMAR_TAGS, GrammarTag } from "../service/vocabulary/grammar";
+import { VOCABULARY_POS } from "../service/vocabulary/vocabulary";
+
+// 후처리(무음 제거, 음량 정규화)한 TTS 음성의 형식별 파일
+export const nativeAudioFormatSchema = z.object({
+  format: z.enum(TTS_AUDIO_FORMATS),
+  url: z.url(),
+  contentType: z.string(),
+  // 후처리 전에 만든 음성은 null
+  durationSeconds: z.number().nonnegative().nullable(),
+});
 
 export const processedLyricSyllableSchema = z.object({
   textKor: z.string(),
   romanized: z.string(),
+  // 요청한 표기법별 로마자 표기 (romanized는 첫 번째 표기법)
+  romanizations: z.record(z.string(), z.string()),
+  // 소절 문맥에서의 실제 발음 (예: "같이"의 "같" → "가")
+  pronounced: z.string(),
   nativeAudio: z.url(),
+  // 형식별 음성 (nativeAudio는 기본 형식, TTS를 건너뛰었거나 대기 중이면 빈 배열)
+  nativeAudioFormats: z.array(nativeAudioFormatSchema),
+});
+
+export const phonologyAnnotationSchema = z.object({
+  rule: z.enum(
+    Object.keys(PHONOLOGY_RULES) as [PhonologyRuleName, ...PhonologyRuleName[]]
+  ),
+  label: z.string(),
+  // syllables 배열 기준 인덱스
+  syllableIndexes: z.array(z.number().int().nonnegative()),
+  written: z.string(),
+  spoken: z.string(),
+});
+
+export const vocabularyMorphemeSchema = z.object({
+  // 용언은 기본형, 조사·어미는 대표 형태 (예: "-아/어요")
+  form: z.string(),
+  pos: z.enum(VOCABULARY_POS),
+  tag: z
+    .enum(Object.keys(GRAMMAR_TAGS) as [GrammarTag, ...GrammarTag[]])
+    .optional(),
+  label: z.string().optional(),
+});
+
+export const vocabularyWordSchema = z.object({
+  surface: z.string(),
+  // 소절 원문(words) 내 시작 위치
+  charIndex: z.number().int().nonnegative(),
+  // 사전형 (번들 사전에 없는 어절은 null)
+  lemma: z.string().nullable(),
+  pos: z.enum(VOCABULARY_POS),
+  // 대상 언어 코드별 뜻
+  glosses: z.record(z.string(), z.string()),
+  morphemes: z.array(vocabularyMorphemeSchema),
+});
+
+export const songSectionSchema = z.object({
+  sectionIndex: z.number().int().nonnegative(),
+  label: z.enum(SECTION_LABELS),
+  // 같은 label 내 순번 (verse 1, verse 2)
+  labelNumber: z.number().int().positive(),
+  // 같은 가사가 반복되는 섹션끼리 같은 값
+  groupIndex: z.number().int().nonnegative(),
+  occurrence: z.number().int().positive(),
+  // 첫 등장 섹션의 sectionIndex (첫 등장이면 null)
+  repeatOf: z.number().int().nonnegative().nullable(),
+  // lines 배열 기준 인덱스 (endLineIndex 포함)
+  startLineIndex: z.number().int().nonnegative(),
+  endLineIndex: z.number().int().nonnegative(),
+  startTime: z.string(),
+});
+
+// enhanced LRC의 단어 단위 시작 시간
+export const lyricWordTimingSchema = z.object({
+  // 가사 소스의 원문 단어 (정규화 전)
+  word: z.string(),
+  startTime: z.string(),
 });
 
 export const processedLyricLineSchema = z.object({
   startTime: z.string(),
+  // sections 배열 기준 인덱스
+  sectionIndex: z.number().int().nonnegative(),
+  // 정규화된 소절 텍스트 (로마자, 번역, TTS, 분석은 모두 이 텍스트 기준)
   words: z.string(),
+  // 가사 소스의 원문과, words의 각 위치에 대응하는 원문 위치
+  originalWords: z.string(),
+  originalOffsets: z.array(z.number().int().nonnegative()),
+  // 단어 단위 타이밍을 제공하는 가사 소스(enhanced LRC)만 포함
+  wordTimings: z.array(lyricWordTimingSchema).optional(),
   romanized: z.string(),
+  romanizations: z.record(z.string(), z.string()),
+  pronounced: z.string(),
+  phonology: z.array(phonologyAnnotationSchema),
+  // 어절 단위 어휘 분석 (words는 소절 원문 문자열이므로 별도 필드로 제공)
+  vocabulary: z.array(vocabularyWordSchema),
   translated: z.string(),
+  // 대상 언어 코드별 번역 (translated는 첫 번째 대상 언어의 번역)
+  translations: z.record(z.string(), z.string()),
   nativeAudio: z.url(),
+  nativeAudioFormats: z.array(nativeAudioFormatSchema),
   syllables: z.array(processedLyricSyllableSchema),
 });
 
@@ -19,6 +114,8 @@ export const contentSuccessResultSchema = z.object({
   songId: z.number().int().positive(),
   title: z.string().min(1),
   titleTranslated: z.string().min(1),
+  titleTranslations: z.record(z.string(), z.string()),
+  sections: z.array(songSectionSchema),
   lines: z.array(processedLyricLineSchema),
 });
 
@@ -27,9 +124,16 @@ export const contentFailResultSchema = z.object({
   error: z.string().min(1, "에러 메시지는 필수입니다."),
 });
 
+export type NativeAudioFormat = z.infer<typeof nativeAudioFormatSchema>;
 export type ProcessedLyricSyllable = z.infer<
   typeof processedLyricSyllableSchema
 >;
+export type PhonologyAnnotationResult = z.infer<
+  typeof phonologyAnnotationSchema
+>;
+export type LyricWordTimingResult = z.infer<typeof lyricWordTimingSchema>;
+export type VocabularyWordResult = z.infer<typeof vocabularyWordSchema>;
+export type SongSectionResult = z.infer<typeof songSectionSchema>;
 export type ProcessedLyricLine = z.infer<typeof processedLyricLineSchema>;
 export type ContentSuccessResult = z.infer<typeof contentSuccessResultSchema>;
 export type ContentFailResult = z.infer<typeof contentFailResultSchema>;
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { TRANSLATION_TARGET_LANGS } from "../service/processor/translation";
+
+// DeepL 용어집은 탭/줄바꿈이 포함된 항목을 허용하지 않음
+const glossaryTermText = z
+  .string()
+  .trim()
+  .min(1)
+  .max(255)
+  .regex(/^[^\t\r\n]+$/, "용어에는 탭이나 줄바꿈을 사용할 수 없습니다.");
+
+export const glossaryTermRequestSchema = z
+  .object({
+    sourceTerm: glossaryTermText,
+    targetTerm: glossaryTermText.nullable().optional(),
+    // 생략하면 모든 대상 언어에 적용 (보호 용어만 가능)
+    targetLang: z.enum(TRANSLATION_TARGET_LANGS).nullable().optional(),
+    // 생략하면 모든 노래에 적용
+    songId: z
+      .number()
+      .int()
+      .positive("songId는 양의 정수여야 합니다.")
+      .nullable()
+      .optional(),
+    // true이면 원문 그대로 유지 (아티스트명, 의도된 영어 표현 등)
+    isProtected: z.boolean().default(false),
+    note: z.string().max(255).nullable().optional(),
+  })
+  .refine((term) => term.isProtected || !!term.targetTerm, {
+    message: "보호 용어가 아니면 targetTerm은 필수입니다.",
+    path: ["targetTerm"],
+  })
+  .refine((term) => term.isProtected || !!term.targetLang, {
+    message: "보호 용어가 아니면 targetLang은 필수입니다.",
+    path: ["targetLang"],
+  });
+
+export const glossaryTermQuerySchema = z.object({
+  targetLang: z.enum(TRANSLATION_TARGET_LANGS).optional(),
+  songId: z.coerce.number().int().positive().optional(),
+});
+
+export const glossaryTermIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const glossarySyncRequestSchema = z.object({
+  targetLang: z.enum(TRANSLATION_TARGET_LANGS),
+  songId: z.number().int().positive().optional(),
+});
+
+export type GlossaryTermRequest = z.infer<typeof glossaryTermRequestSchema>;
+export type GlossaryTermQueryRequest = z.infer<typeof glossaryTermQuerySchema>;
+export type GlossarySyncRequest = z.infer<typeof glossarySyncRequestSchema>;
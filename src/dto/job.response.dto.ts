@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  contentSuccessResultSchema,
+  contentFailResultSchema,
+} from "./content.response.dto";
+
+export const jobStateSchema = z.enum([
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const jobProgressSchema = z.object({
+  stage: z.string(),
+  processedLines: z.number().int().nonnegative(),
+  totalLines: z.number().int().nonnegative(),
+});
+
+export const jobAcceptedResponseSchema = z.object({
+  jobId: z.uuid(),
+  state: jobStateSchema,
+  statusUrl: z.string(),
+});
+
+export const contentJobStatusResponseSchema = z.object({
+  jobId: z.uuid(),
+  state: jobStateSchema,
+  songId: z.number().int().positive(),
+  trackId: z.string(),
+  queuePosition: z.number().int().optional(),
+  progress: jobProgressSchema,
+  result: z
+    .union([contentSuccessResultSchema, contentFailResultSchema])
+    .optional(),
+  error: z.string().optional(),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+});
+
+export type JobAcceptedResponse = z.infer<typeof jobAcceptedResponseSchema>;
+export type ContentJobStatusResponse = z.infer<
+  typeof contentJobStatusResponseSchema
+>;
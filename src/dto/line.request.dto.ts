@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { TTS_PROVIDER_NAMES } from "../service/tts/provider/types";
 
 export const lineTTSCreationRequestSchema = z.object({
   lyricLineId: z.number().int().positive("lyricLineId는 양의 정수여야 합니다."),
   lyricText: z.string(),
+  provider: z.enum(TTS_PROVIDER_NAMES).default("elevenlabs"),
 });
 
 export type LineTTSCreationRequest = z.infer<
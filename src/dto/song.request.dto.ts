@@ -1,9 +1,91 @@
 import { z } from "zod";
 
-export const songTimingCreationRequestSchema = z.object({
-  songId: z.number().int().positive("songId는 양의 정수여야 합니다."),
+// fake 엔진은 고정 타이밍으로 실제 정렬 결과를 덮어쓸 수 있으므로 API로는 선택할 수 없음 (코드에서 createAligner로만 생성)
+export const alignerConfigSchema = z.discriminatedUnion("engine", [
+  z.object({
+    engine: z.literal("stable-whisper"),
+    // syllable: 음절마다 띄운 가사를 정렬, word: 원문 가사를 단어 단위로 정렬한 뒤 음절에 균등 분배
+    mode: z.enum(["syllable", "word"]).default("syllable"),
+  }),
+  z.object({
+    engine: z.literal("uniform"),
+    maxLineDurationMs: z.number().int().positive().default(8000),
+    lastLineDurationMs: z.number().int().positive().default(4000),
+  }),
+]);
+
+// 정렬 전 오디오 전처리 (ffmpeg, 오디오를 쓰는 엔진에만 적용)
+export const audioPreprocessSchema = z.object({
+  enabled: z.boolean().default(true),
+  // 모노로 변환하며 이 샘플레이트로 리샘플링
+  sampleRate: z.number().int().min(8000).max(48000).default(16000),
+  loudnorm: z.boolean().default(true),
+  // 앞뒤 무음 제거 (잘라낸 길이만큼 결과 시간을 되돌림)
+  trimSilence: z.boolean().default(true),
+  silenceThresholdDb: z.number().max(0).default(-40),
+  minSilenceMs: z.number().int().positive().default(500),
+  // 지정하면 보컬 대역만 남김
+  bandPass: z
+    .object({
+      lowHz: z.number().positive().default(80),
+      highHz: z.number().positive().default(5000),
+    })
+    .refine((band) => band.lowHz < band.highHz, {
+      message: "lowHz는 highHz보다 작아야 합니다.",
+      path: ["highHz"],
+    })
+    .nullable()
+    .default(null),
+});
+
+export const DEFAULT_AUDIO_PREPROCESS: z.infer<typeof audioPreprocessSchema> = {
+  enabled: true,
+  sampleRate: 16000,
+  loudnorm: true,
+  trimSilence: true,
+  silenceThresholdDb: -40,
+  minSilenceMs: 500,
+  bandPass: null,
+};
+
+// Spotify 라인 시작 시간으로 오디오를 잘라 구간별로 정렬 (오디오를 쓰는 엔진에만 적용, trackId 필요)
+export const alignmentWindowSchema = z.object({
+  // none: 노래 전체를 한 번에, line: 라인마다, section: 섹션(verse/chorus 등)마다
+  mode: z.enum(["none", "line", "section"]).default("section"),
+  // 구간 앞뒤로 더 포함할 길이
+  overlapMs: z.number().int().min(0).max(10000).default(1000),
+  // 동시에 정렬할 구간 수
+  concurrency: z.number().int().min(1).max(8).default(2),
 });
 
+export const DEFAULT_ALIGNMENT_WINDOW: z.infer<typeof alignmentWindowSchema> = {
+  mode: "section",
+  overlapMs: 1000,
+  concurrency: 2,
+};
+
+export const songTimingCreationRequestSchema = z
+  .object({
+    songId: z.number().int().positive("songId는 양의 정수여야 합니다."),
+    // Spotify 라인 시작 시간을 가져올 트랙 (uniform 엔진은 필수)
+    trackId: z.string().min(1).optional(),
+    aligner: alignerConfigSchema.default({
+      engine: "stable-whisper",
+      mode: "syllable",
+    }),
+    preprocess: audioPreprocessSchema.default(DEFAULT_AUDIO_PREPROCESS),
+    windowing: alignmentWindowSchema.default(DEFAULT_ALIGNMENT_WINDOW),
+    // 기존 타이밍보다 신뢰도가 낮아도 덮어씀
+    force: z.boolean().default(false),
+  })
+  .refine(
+    (request) => request.aligner.engine !== "uniform" || !!request.trackId,
+    {
+      message: "uniform 정렬 엔진은 trackId가 필요합니다.",
+      path: ["trackId"],
+    }
+  );
+
 export type SongTimingCreationRequest = z.infer<
   typeof songTimingCreationRequestSchema
 >;
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+  alignerConfigSchema,
+  alignmentWindowSchema,
+  audioPreprocessSchema,
+  DEFAULT_ALIGNMENT_WINDOW,
+  DEFAULT_AUDIO_PREPROCESS,
+} from "./song.request.dto";
+
+const lineIndex = z.number().int().min(0);
+const seconds = z.number().min(0);
+
+const editAuthorFields = {
+  // 수정한 사람 (이력에 기록)
+  author: z.string().trim().min(1).max(128),
+  reason: z.string().trim().max(512).optional(),
+  // 수정 기준 버전, 그 사이 다른 수정이 저장되었으면 409
+  baseVersion: z.number().int().min(0).optional(),
+};
+
+const syllableInputSchema = z
+  .object({
+    text: z.string().min(1),
+    startSeconds: seconds,
+    endSeconds: seconds,
+  })
+  .refine((syllable) => syllable.endSeconds >= syllable.startSeconds, {
+    message: "endSeconds는 startSeconds보다 작을 수 없습니다.",
+    path: ["endSeconds"],
+  });
+
+export const timingEditOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set-syllable"),
+    lineIndex,
+    syllableIndex: z.number().int().min(0),
+    text: z.string().min(1).optional(),
+    startSeconds: seconds.optional(),
+    endSeconds: seconds.optional(),
+  }),
+  z.object({
+    type: z.literal("set-line"),
+    lineIndex,
+    syllables: z.array(syllableInputSchema),
+  }),
+  z
+    .object({
+      type: z.literal("shift-lines"),
+      lineIndex,
+      toLineIndex: lineIndex.optional(),
+      offsetMs: z.number().int(),
+    })
+    .refine(
+      (operation) =>
+        operation.toLineIndex === undefined ||
+        operation.toLineIndex >= operation.lineIndex,
+      {
+        message: "toLineIndex는 lineIndex보다 작을 수 없습니다.",
+        path: ["toLineIndex"],
+      }
+    ),
+]);
+
+export const timingEditRequestSchema = z.object({
+  ...editAuthorFields,
+  operations: z.array(timingEditOperationSchema).min(1).max(500),
+});
+
+export const timingRealignRequestSchema = z
+  .object({
+    ...editAuthorFields,
+    fromLine: lineIndex,
+    toLine: lineIndex,
+    trackId: z.string().min(1).optional(),
+    aligner: alignerConfigSchema.default({
+      engine: "stable-whisper",
+      mode: "syllable",
+    }),
+    preprocess: audioPreprocessSchema.default(DEFAULT_AUDIO_PREPROCESS),
+    windowing: alignmentWindowSchema.default(DEFAULT_ALIGNMENT_WINDOW),
+  })
+  .refine((request) => request.fromLine <= request.toLine, {
+    message: "fromLine은 toLine보다 클 수 없습니다.",
+    path: ["toLine"],
+  })
+  .refine(
+    (request) => request.aligner.engine !== "uniform" || !!request.trackId,
+    {
+      message: "uniform 정렬 엔진은 trackId가 필요합니다.",
+      path: ["trackId"],
+    }
+  );
+
+export const timingRollbackRequestSchema = z.object({
+  ...editAuthorFields,
+  version: z.number().int().positive(),
+});
+
+export const timingVersionParamSchema = z.object({
+  id: z.coerce.number().int().positive("songId는 양의 정수여야 합니다."),
+  version: z.coerce.number().int().positive(),
+});
+
+export type TimingEditRequest = z.infer<typeof timingEditRequestSchema>;
+export type TimingRealignRequest = z.infer<typeof timingRealignRequestSchema>;
+export type TimingRollbackRequest = z.infer<typeof timingRollbackRequestSchema>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import {
+  TRANSLATION_TARGET_LANGS,
+  DEFAULT_TARGET_LANG,
+} from "../service/processor/translation";
+import {
+  ROMANIZATION_SYSTEMS,
+  DEFAULT_ROMANIZATION_SYSTEM,
+} from "../service/processor/romanize";
+
+export const songIdParamSchema = z.object({
+  id: z.coerce.number().int().positive("songId는 양의 정수여야 합니다."),
+});
+
+export const timingExportQuerySchema = z.object({
+  format: z.enum(["lrc", "elrc", "srt", "vtt", "ttml", "json"]).default("json"),
+  // syllable: SRT는 음절별 cue, WebVTT는 cue 내부 타임스탬프, TTML은 음절별 <span>
+  level: z.enum(["line", "syllable"]).default("line"),
+  // 쉼표로 구분된 추가 트랙 (예: "romanized,translated")
+  tracks: z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value || "")
+        .split(",")
+        .map((track) => track.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(["romanized", "translated"]))),
+  // translated 트랙의 번역 대상 언어
+  lang: z.enum(TRANSLATION_TARGET_LANGS).default(DEFAULT_TARGET_LANG),
+  // romanized 트랙의 로마자 표기법
+  romanization: z
+    .enum(ROMANIZATION_SYSTEMS)
+    .default(DEFAULT_ROMANIZATION_SYSTEM),
+});
+
+export type SongIdParam = z.infer<typeof songIdParamSchema>;
+export type TimingExportQuery = z.infer<typeof timingExportQuerySchema>;
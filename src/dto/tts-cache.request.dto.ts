@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { TTS_PROVIDER_NAMES } from "../service/tts/provider/types";
+
+export const ttsCacheQuerySchema = z.object({
+  provider: z.enum(TTS_PROVIDER_NAMES).optional(),
+  text: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+});
+
+export const ttsCacheInvalidateQuerySchema = z.object({
+  // true이면 스토리지의 오디오 파일도 삭제
+  purge: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export type TTSCacheQuery = z.infer<typeof ttsCacheQuerySchema>;
+export type TTSCacheInvalidateQuery = z.infer<
+  typeof ttsCacheInvalidateQuerySchema
+>;
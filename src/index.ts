@@ -1,8 +1,11 @@
 import * as dotenv from "dotenv";
 dotenv.config();
 
-import express, { Request, Response } from "express";
-import { pipelineService } from "./service/pipeline.service";
+import express, { NextFunction, Request, Response } from "express";
+import fs from "fs";
+import path from "path";
+import multer from "multer";
+import { contentJobQueue } from "./service/queue/content-queue";
 import {
   contentCreationRequestSchema,
   ContentCreationRequest,
@@ -12,15 +15,54 @@ import {
   songTimingCreationRequestSchema,
 } from "./dto/song.request.dto";
 import {
-  ContentSuccessResult,
-  ContentFailResult,
-} from "./dto/content.response.dto";
+  JobAcceptedResponse,
+  ContentJobStatusResponse,
+} from "./dto/job.response.dto";
 import {
   LineTTSCreationRequest,
   lineTTSCreationRequestSchema,
 } from "./dto/line.request.dto";
 import { elevenlabsTTSService } from "./service/tts/elevenlabs-line-tts";
 import { songTimingService } from "./service/timing/song-timing";
+import {
+  timingExportService,
+  TimingExportTracks,
+} from "./service/timing/timing-export";
+import { romanizeService } from "./service/processor/romanize";
+import { translationService } from "./service/processor/translation";
+import {
+  songIdParamSchema,
+  timingExportQuerySchema,
+} from "./dto/timing-export.request.dto";
+import { audioStorage } from "./service/storage/audio-storage";
+import { ttsAssetCache } from "./service/tts/tts-asset-cache";
+import {
+  ttsCacheQuerySchema,
+  ttsCacheInvalidateQuerySchema,
+} from "./dto/tts-cache.request.dto";
+import { LocalAudioStorage } from "./service/storage/local-storage";
+import { glossaryService } from "./service/glossary/glossary";
+import {
+  glossaryTermRequestSchema,
+  glossaryTermQuerySchema,
+  glossaryTermIdParamSchema,
+  glossarySyncRequestSchema,
+} from "./dto/glossary.request.dto";
+import { timingHistoryService } from "./service/timing/timing-history";
+import { timingEditorService } from "./service/timing/timing-editor";
+import {
+  AudioFetchError,
+  TimingEditError,
+  TimingGenerationError,
+} from "./service/timing/errors";
+import { audioFetcherService } from "./service/timing/audio-fetcher";
+import { resilienceService } from "./service/resilience/resilience";
+import {
+  timingEditRequestSchema,
+  timingRealignRequestSchema,
+  timingRollbackRequestSchema,
+  timingVersionParamSchema,
+} from "./dto/timing-edit.request.dto";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -28,6 +70,35 @@ const PORT = process.env.PORT || 3001;
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// 로컬 스토리지 사용 시 저장된 오디오를 직접 서빙
+if (audioStorage instanceof LocalAudioStorage) {
+  app.use("/storage", express.static(audioStorage.rootDir));
+}
+
+// 노래 오디오 업로드 (multipart의 audio 파일, 요청 본문은 request 필드에 JSON으로)
+const audioUpload = multer({
+  storage: multer.diskStorage({
+    destination: audioFetcherService.tempDir,
+    filename: (req, file, callback) =>
+      callback(
+        null,
+        `${Date.now()}_upload${path.extname(file.originalname).toLowerCase()}`
+      ),
+  }),
+  limits: { fileSize: audioFetcherService.maxBytes, files: 1 },
+}).single("audio");
+
+function receiveAudioUpload(req: Request, res: Response, next: NextFunction) {
+  audioUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res
+        .status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400)
+        .json({ message: `Invalid audio upload: ${error.message}` });
+    }
+    next(error);
+  });
+}
+
 app.post("/create-content", async (req: Request, res: Response) => {
   try {
     const validationResult = contentCreationRequestSchema.safeParse(req.body);
@@ -40,20 +111,15 @@ app.post("/create-content", async (req: Request, res: Response) => {
     }
 
     const creationRequest: ContentCreationRequest = validationResult.data;
-    console.log("[Worker] Job accepted:", creationRequest);
-
-    const result: ContentSuccessResult | ContentFailResult =
-      await pipelineService.run(creationRequest);
-
-    if ("error" in result) {
-      console.warn(
-        `[Worker] Job failed for ${creationRequest.trackId}: ${result.error}`
-      );
-      return res.status(422).json(result); // 422: Unprocessable Entity
-    }
+    const job = contentJobQueue.enqueue(creationRequest);
+    console.log(`[Worker] Job accepted (${job.id}):`, creationRequest);
 
-    console.log(`[Worker] Job completed for ${creationRequest.trackId}`);
-    return res.status(200).json(result);
+    const accepted: JobAcceptedResponse = {
+      jobId: job.id,
+      state: job.state,
+      statusUrl: `/jobs/${job.id}`,
+    };
+    return res.status(202).json(accepted); // 202: Accepted
   } catch (error) {
     console.error("Failed to accept job:", error);
     if (!res.headersSent) {
@@ -62,6 +128,37 @@ app.post("/create-content", async (req: Request, res: Response) => {
   }
 });
 
+// 외부 API(provider)별 circuit 상태 (호출한 적 없는 provider는 포함되지 않음)
+app.get("/health", (req: Request, res: Response) => {
+  return res.status(200).json({
+    status: "ok",
+    circuits: resilienceService.getCircuitStates(),
+  });
+});
+
+app.get("/jobs/:id", (req: Request, res: Response) => {
+  const job = contentJobQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ message: "Job not found." });
+  }
+
+  const position = contentJobQueue.getPosition(job.id);
+  const status: ContentJobStatusResponse = {
+    jobId: job.id,
+    state: job.state,
+    songId: job.payload.songId,
+    trackId: job.payload.trackId,
+    queuePosition: position >= 0 ? position : undefined,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+  return res.status(200).json(status);
+});
+
 app.post("/tts", async (req: Request, res: Response) => {
   try {
     const validationResult = lineTTSCreationRequestSchema.safeParse(req.body);
@@ -76,7 +173,8 @@ app.post("/tts", async (req: Request, res: Response) => {
     console.log("[Worker] Job accepted:", creationRequest);
     await elevenlabsTTSService.retryOne(
       creationRequest.lyricLineId,
-      creationRequest.lyricText
+      creationRequest.lyricText,
+      creationRequest.provider
     );
     return res.status(201).end();
   } catch (error) {
@@ -87,30 +185,259 @@ app.post("/tts", async (req: Request, res: Response) => {
   }
 });
 
-app.post("/song-timing", async (req: Request, res: Response) => {
+app.get("/tts-cache", async (req: Request, res: Response) => {
   try {
-    const validationResult = songTimingCreationRequestSchema.safeParse(
-      req.body
+    const validationResult = ttsCacheQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid TTS cache query.",
+        errors: validationResult.error,
+      });
+    }
+
+    const assets = await ttsAssetCache.list(validationResult.data);
+    return res.status(200).json(assets);
+  } catch (error) {
+    console.error("Failed to list TTS cache:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get("/tts-cache/:key", async (req: Request, res: Response) => {
+  try {
+    const asset = await ttsAssetCache.get(req.params.key);
+    if (!asset) {
+      return res.status(404).json({ message: "Cache entry not found." });
+    }
+    return res.status(200).json(asset);
+  } catch (error) {
+    console.error("Failed to read TTS cache:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.delete("/tts-cache/:key", async (req: Request, res: Response) => {
+  try {
+    const validationResult = ttsCacheInvalidateQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid TTS cache query.",
+        errors: validationResult.error,
+      });
+    }
+
+    const deleted = await ttsAssetCache.invalidate(
+      req.params.key,
+      validationResult.data.purge
     );
+    if (!deleted) {
+      return res.status(404).json({ message: "Cache entry not found." });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Failed to invalidate TTS cache:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get("/glossary", async (req: Request, res: Response) => {
+  try {
+    const validationResult = glossaryTermQuerySchema.safeParse(req.query);
     if (!validationResult.success) {
       return res.status(400).json({
-        message: "Invalid content creation request data.",
+        message: "Invalid glossary query.",
         errors: validationResult.error,
       });
     }
 
-    const creationRequest: SongTimingCreationRequest = validationResult.data;
-    console.log("[Worker] Job accepted:", creationRequest);
-    await songTimingService.generate(creationRequest.songId);
-    return res.status(201).end();
+    const terms = await glossaryService.list(validationResult.data);
+    return res.status(200).json(terms);
   } catch (error) {
-    console.error("Failed to accept job:", error);
+    console.error("Failed to list glossary:", error);
     if (!res.headersSent) {
-      res.status(400).json({ message: "Bad request." }).end();
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.post("/glossary", async (req: Request, res: Response) => {
+  try {
+    const validationResult = glossaryTermRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid glossary term.",
+        errors: validationResult.error,
+      });
+    }
+
+    const term = await glossaryService.create(validationResult.data);
+    return res.status(201).json(term);
+  } catch (error) {
+    console.error("Failed to create glossary term:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.post("/glossary/sync", async (req: Request, res: Response) => {
+  try {
+    const validationResult = glossarySyncRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid glossary sync request.",
+        errors: validationResult.error,
+      });
+    }
+
+    const { targetLang, songId } = validationResult.data;
+    const glossaryId = await glossaryService.sync(targetLang, songId);
+    return res.status(200).json({ targetLang, songId, glossaryId });
+  } catch (error) {
+    console.error("Failed to sync glossary:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
     }
   }
 });
 
+app.get("/glossary/:id", async (req: Request, res: Response) => {
+  try {
+    const paramResult = glossaryTermIdParamSchema.safeParse(req.params);
+    if (!paramResult.success) {
+      return res.status(400).json({
+        message: "Invalid glossary term id.",
+        errors: paramResult.error,
+      });
+    }
+
+    const term = await glossaryService.get(paramResult.data.id);
+    if (!term) {
+      return res.status(404).json({ message: "Glossary term not found." });
+    }
+    return res.status(200).json(term);
+  } catch (error) {
+    console.error("Failed to read glossary term:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.put("/glossary/:id", async (req: Request, res: Response) => {
+  try {
+    const paramResult = glossaryTermIdParamSchema.safeParse(req.params);
+    const validationResult = glossaryTermRequestSchema.safeParse(req.body);
+    if (!paramResult.success || !validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid glossary term.",
+        errors: paramResult.error || validationResult.error,
+      });
+    }
+
+    const term = await glossaryService.update(
+      paramResult.data.id,
+      validationResult.data
+    );
+    if (!term) {
+      return res.status(404).json({ message: "Glossary term not found." });
+    }
+    return res.status(200).json(term);
+  } catch (error) {
+    console.error("Failed to update glossary term:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.delete("/glossary/:id", async (req: Request, res: Response) => {
+  try {
+    const paramResult = glossaryTermIdParamSchema.safeParse(req.params);
+    if (!paramResult.success) {
+      return res.status(400).json({
+        message: "Invalid glossary term id.",
+        errors: paramResult.error,
+      });
+    }
+
+    const deleted = await glossaryService.delete(paramResult.data.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Glossary term not found." });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Failed to delete glossary term:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.post(
+  "/song-timing",
+  receiveAudioUpload,
+  async (req: Request, res: Response) => {
+    try {
+      let body: unknown = req.body;
+      if (req.is("multipart/form-data")) {
+        try {
+          body = JSON.parse(req.body.request ?? "{}");
+        } catch {
+          return res.status(400).json({
+            message: "Invalid content creation request data.",
+          });
+        }
+      }
+      const validationResult = songTimingCreationRequestSchema.safeParse(body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid content creation request data.",
+          errors: validationResult.error,
+        });
+      }
+
+      const creationRequest: SongTimingCreationRequest = validationResult.data;
+      if (req.file) {
+        await audioFetcherService.verify(req.file.path);
+      }
+      console.log("[Worker] Job accepted:", creationRequest);
+      await songTimingService.generate(creationRequest.songId, {
+        aligner: creationRequest.aligner,
+        trackId: creationRequest.trackId,
+        audioPath: req.file?.path,
+        preprocess: creationRequest.preprocess,
+        windowing: creationRequest.windowing,
+        force: creationRequest.force,
+      });
+      return res.status(201).end();
+    } catch (error) {
+      if (error instanceof AudioFetchError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof TimingGenerationError) {
+        return res
+          .status(error.status)
+          .json({ message: error.message, issues: error.issues });
+      }
+      console.error("Failed to accept job:", error);
+      if (!res.headersSent) {
+        res.status(400).json({ message: "Bad request." }).end();
+      }
+    } finally {
+      if (req.file) {
+        await fs.promises.unlink(req.file.path).catch(() => undefined);
+      }
+    }
+  }
+);
+
 app.post("/song-timing-fallback", async (req: Request, res: Response) => {
   try {
     const validationResult = songTimingCreationRequestSchema.safeParse(
@@ -125,9 +452,24 @@ app.post("/song-timing-fallback", async (req: Request, res: Response) => {
 
     const creationRequest: SongTimingCreationRequest = validationResult.data;
     console.log("[Worker] Job accepted:", creationRequest);
-    await songTimingService.generateFallback(creationRequest.songId);
+    // 원문 가사를 단어 단위로 정렬한 뒤 음절에 균등 분배 (요청의 aligner는 무시)
+    await songTimingService.generate(creationRequest.songId, {
+      aligner: { engine: "stable-whisper", mode: "word" },
+      trackId: creationRequest.trackId,
+      preprocess: creationRequest.preprocess,
+      windowing: creationRequest.windowing,
+      force: creationRequest.force,
+    });
     return res.status(201).end();
   } catch (error) {
+    if (error instanceof AudioFetchError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof TimingGenerationError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, issues: error.issues });
+    }
     console.error("Failed to accept job:", error);
     if (!res.headersSent) {
       res.status(400).json({ message: "Bad request." }).end();
@@ -135,6 +477,259 @@ app.post("/song-timing-fallback", async (req: Request, res: Response) => {
   }
 });
 
+app.post("/song-timing/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    if (!paramResult.success) {
+      return res.status(400).json({
+        message: "Invalid song id.",
+        errors: paramResult.error,
+      });
+    }
+
+    const cancelled = songTimingService.cancel(paramResult.data.id);
+    if (!cancelled) {
+      return res.status(404).json({ message: "No running timing job." });
+    }
+    return res.status(202).end();
+  } catch (error) {
+    console.error("Failed to cancel timing job:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get("/songs/:id/timings", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    const queryResult = timingExportQuerySchema.safeParse(req.query);
+    if (!paramResult.success || !queryResult.success) {
+      return res.status(400).json({
+        message: "Invalid timing export request.",
+        errors: paramResult.error || queryResult.error,
+      });
+    }
+
+    const songId = paramResult.data.id;
+    const { format, level, tracks, lang, romanization } = queryResult.data;
+    const lines = await songTimingService.getTimings(songId);
+    if (lines === null) {
+      return res.status(404).json({ message: "Song not found." });
+    }
+    if (lines.length === 0) {
+      return res.status(404).json({ message: "Timings not generated yet." });
+    }
+
+    const exportTracks: TimingExportTracks = {};
+    if (tracks.includes("romanized")) {
+      exportTracks.romanized = lines.map((line) =>
+        romanizeService.convert(line.originalText, romanization)
+      );
+    }
+    if (tracks.includes("translated")) {
+      exportTracks.translated = await translationService.translateBatch(
+        lines.map((line) => line.originalText),
+        lang,
+        { songId }
+      );
+      exportTracks.translatedLang = lang;
+    }
+
+    const result = timingExportService.export(lines, format, {
+      level,
+      tracks: exportTracks,
+    });
+    res.setHeader("Content-Type", result.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename="song-${songId}.${result.fileExtension}"`
+    );
+    return res.status(200).send(result.body);
+  } catch (error) {
+    console.error("Failed to export timings:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get("/songs/:id/timings/current", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    if (!paramResult.success) {
+      return res.status(400).json({
+        message: "Invalid song id.",
+        errors: paramResult.error,
+      });
+    }
+
+    const current = await timingHistoryService.getCurrent(paramResult.data.id);
+    if (!current) {
+      return res.status(404).json({ message: "Song not found." });
+    }
+    return res.status(200).json(current);
+  } catch (error) {
+    console.error("Failed to read timings:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.patch("/songs/:id/timings", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    const validationResult = timingEditRequestSchema.safeParse(req.body);
+    if (!paramResult.success || !validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid timing edit request.",
+        errors: paramResult.error || validationResult.error,
+      });
+    }
+
+    const entry = await timingEditorService.edit(
+      paramResult.data.id,
+      validationResult.data
+    );
+    if (!entry) {
+      return res.status(404).json({ message: "Song not found." });
+    }
+    return res.status(200).json(entry);
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, issues: error.issues });
+    }
+    console.error("Failed to edit timings:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.post("/songs/:id/timings/realign", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    const validationResult = timingRealignRequestSchema.safeParse(req.body);
+    if (!paramResult.success || !validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid timing realign request.",
+        errors: paramResult.error || validationResult.error,
+      });
+    }
+
+    const entry = await timingEditorService.realign(
+      paramResult.data.id,
+      validationResult.data
+    );
+    if (!entry) {
+      return res.status(404).json({ message: "Song not found." });
+    }
+    return res.status(200).json(entry);
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, issues: error.issues });
+    }
+    if (error instanceof AudioFetchError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Failed to realign timings:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.post("/songs/:id/timings/rollback", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    const validationResult = timingRollbackRequestSchema.safeParse(req.body);
+    if (!paramResult.success || !validationResult.success) {
+      return res.status(400).json({
+        message: "Invalid timing rollback request.",
+        errors: paramResult.error || validationResult.error,
+      });
+    }
+
+    const entry = await timingEditorService.rollback(
+      paramResult.data.id,
+      validationResult.data
+    );
+    if (!entry) {
+      return res.status(404).json({ message: "Song not found." });
+    }
+    return res.status(200).json(entry);
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, issues: error.issues });
+    }
+    console.error("Failed to roll back timings:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get("/songs/:id/timings/history", async (req: Request, res: Response) => {
+  try {
+    const paramResult = songIdParamSchema.safeParse(req.params);
+    if (!paramResult.success) {
+      return res.status(400).json({
+        message: "Invalid song id.",
+        errors: paramResult.error,
+      });
+    }
+
+    const entries = await timingHistoryService.list(paramResult.data.id);
+    return res.status(200).json(entries);
+  } catch (error) {
+    console.error("Failed to list timing history:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Internal server error." });
+    }
+  }
+});
+
+app.get(
+  "/songs/:id/timings/history/:version",
+  async (req: Request, res: Response) => {
+    try {
+      const paramResult = timingVersionParamSchema.safeParse(req.params);
+      if (!paramResult.success) {
+        return res.status(400).json({
+          message: "Invalid timing version.",
+          errors: paramResult.error,
+        });
+      }
+
+      const entry = await timingHistoryService.get(
+        paramResult.data.id,
+        paramResult.data.version
+      );
+      if (!entry) {
+        return res.status(404).json({ message: "Timing version not found." });
+      }
+      return res.status(200).json(entry);
+    } catch (error) {
+      if (error instanceof TimingEditError) {
+        return res
+          .status(error.status)
+          .json({ message: error.message, issues: error.issues });
+      }
+      console.error("Failed to read timing version:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Internal server error." });
+      }
+    }
+  }
+);
+
 app.listen(PORT, () => {
   console.log(`Content Creation Pipeline server listening on port ${PORT}`);
 
@@ -0,0 +1,180 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import mysql from "mysql2/promise";
+import { timingSchemaService } from "../service/timing/timing-schema";
+import { TimingSource } from "../service/timing/types";
+
+/**
+ * song.timings, lyric_line.syllable_timings, tts_asset_cache.timings에 남아 있는 v1 타이밍을 v2로 변환합니다.
+ * 이미 v2인 행은 건드리지 않으므로 여러 번 실행해도 됩니다.
+ *
+ * 사용법: npm run migrate:timings-v2 [-- --dry-run]
+ */
+
+const BATCH_SIZE = 500;
+
+interface MigrationStats {
+  scanned: number;
+  upgraded: number;
+  skipped: number; // 타이밍이 아닌 값 (예: TTS 실패 시 저장한 { error }, 깨진 JSON)
+}
+
+const dryRun = process.argv.includes("--dry-run");
+
+const dbPool = mysql.createPool({
+  host: process.env.DB_HOST || "localhost",
+  user: process.env.DB_USERNAME,
+  password: process.env.DB_PASSWORD,
+  database: process.env.DB_NAME,
+  port: parseInt(process.env.DB_PORT || "3306"),
+  waitForConnections: true,
+  connectionLimit: 2,
+  queueLimit: 0,
+});
+
+// lyric_line의 TTS 오디오 경로(tts/{provider}-lyrics/...)로 타이밍 출처를 추정
+function lineTimingSource(nativeAudioUrl: string | null): TimingSource {
+  if (nativeAudioUrl?.includes("elevenlabs")) return "elevenlabs-tts";
+  if (nativeAudioUrl?.includes("google")) return "google-tts";
+  return "legacy";
+}
+
+async function migrateSongs(): Promise<MigrationStats> {
+  const stats: MigrationStats = { scanned: 0, upgraded: 0, skipped: 0 };
+  let lastId = 0;
+  while (true) {
+    const [rows] = await dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT song_id, timings FROM song
+        WHERE song_id > ? AND timings IS NOT NULL
+        ORDER BY song_id
+        LIMIT ?`,
+      [lastId, BATCH_SIZE]
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      stats.scanned++;
+      const result = timingSchemaService.upgradeSongTimings(row.timings);
+      if (!result) {
+        stats.skipped++;
+      } else if (result.upgraded) {
+        stats.upgraded++;
+        if (!dryRun) {
+          await dbPool.execute(
+            `UPDATE song SET timings = ? WHERE song_id = ?`,
+            [JSON.stringify(result.timings), row.song_id]
+          );
+        }
+      }
+    }
+    lastId = rows[rows.length - 1].song_id;
+  }
+  return stats;
+}
+
+async function migrateLyricLines(): Promise<MigrationStats> {
+  const stats: MigrationStats = { scanned: 0, upgraded: 0, skipped: 0 };
+  let lastId = 0;
+  while (true) {
+    const [rows] = await dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT lyric_line_id, original_text, native_audio_url, syllable_timings FROM lyric_line
+        WHERE lyric_line_id > ? AND syllable_timings IS NOT NULL
+        ORDER BY lyric_line_id
+        LIMIT ?`,
+      [lastId, BATCH_SIZE]
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      stats.scanned++;
+      const result = timingSchemaService.upgradeLineTimings(
+        row.syllable_timings,
+        row.original_text,
+        lineTimingSource(row.native_audio_url)
+      );
+      if (!result) {
+        stats.skipped++;
+      } else if (result.upgraded) {
+        stats.upgraded++;
+        if (!dryRun) {
+          await dbPool.execute(
+            `UPDATE lyric_line SET syllable_timings = ? WHERE lyric_line_id = ?`,
+            [JSON.stringify(result.timings), row.lyric_line_id]
+          );
+        }
+      }
+    }
+    lastId = rows[rows.length - 1].lyric_line_id;
+  }
+  return stats;
+}
+
+async function migrateTTSAssetCache(): Promise<MigrationStats> {
+  const stats: MigrationStats = { scanned: 0, upgraded: 0, skipped: 0 };
+  let lastKey = "";
+  while (true) {
+    let rows: mysql.RowDataPacket[];
+    try {
+      [rows] = await dbPool.query<mysql.RowDataPacket[]>(
+        `SELECT cache_key, provider, text, timings FROM tts_asset_cache
+          WHERE cache_key > ?
+          ORDER BY cache_key
+          LIMIT ?`,
+        [lastKey, BATCH_SIZE]
+      );
+    } catch (error) {
+      // 캐시 테이블은 첫 TTS 요청 때 만들어지므로 없을 수 있음
+      if ((error as { code?: string }).code === "ER_NO_SUCH_TABLE") {
+        console.log(`[Migration] tts_asset_cache does not exist. Skipping.`);
+        return stats;
+      }
+      throw error;
+    }
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      stats.scanned++;
+      const result = timingSchemaService.upgradeSyllables(
+        row.timings,
+        row.provider === "elevenlabs" ? "elevenlabs-tts" : "google-tts",
+        row.text
+      );
+      if (result.upgraded) {
+        stats.upgraded++;
+        if (!dryRun) {
+          await dbPool.execute(
+            `UPDATE tts_asset_cache SET timings = ? WHERE cache_key = ?`,
+            [JSON.stringify(result.timings), row.cache_key]
+          );
+        }
+      }
+    }
+    lastKey = rows[rows.length - 1].cache_key;
+  }
+  return stats;
+}
+
+async function main() {
+  console.log(
+    `[Migration] Upgrading timings to v2${dryRun ? " (dry run)" : ""}...`
+  );
+  const tables: [string, () => Promise<MigrationStats>][] = [
+    ["song.timings", migrateSongs],
+    ["lyric_line.syllable_timings", migrateLyricLines],
+    ["tts_asset_cache.timings", migrateTTSAssetCache],
+  ];
+  for (const [name, migrate] of tables) {
+    const stats = await migrate();
+    console.log(
+      `[Migration] ${name}: scanned ${stats.scanned}, upgraded ${stats.upgraded}, skipped ${stats.skipped}`
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("[Migration] Failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => dbPool.end());
@@ -0,0 +1,216 @@
+import mysql from "mysql2/promise";
+import * as crypto from "crypto";
+import { ProcessedLyricLine } from "../../dto/content.response.dto";
+import { TTSProviderName } from "../tts/provider/types";
+
+interface CheckpointRow {
+  entry_key: string;
+  payload: string | unknown;
+}
+
+export interface CheckpointedTitle {
+  sourceHash: string | null; // 번역한 원문 제목의 해시 (해시 도입 전 체크포인트는 null)
+  translated: string;
+}
+
+export interface CheckpointedTranslations {
+  sourceHash: string | null; // 번역한 원문 소절들의 해시 (해시 도입 전 체크포인트는 null)
+  lines: string[];
+}
+
+export interface CheckpointedLine {
+  // 음성을 만든 provider (null이면 크론 작업이 채울 대기 상태, provider 기록 전 체크포인트는 undefined)
+  ttsProvider?: TTSProviderName | null;
+  line: ProcessedLyricLine;
+}
+
+export interface PipelineCheckpoint {
+  // 대상 언어별 번역 결과
+  titleTranslations: Map<string, CheckpointedTitle>;
+  lineTranslations: Map<string, CheckpointedTranslations>;
+  lines: Map<number, CheckpointedLine>;
+}
+
+const TITLE_KEY_PREFIX = "title:";
+const TRANSLATIONS_KEY_PREFIX = "translations:";
+const LINE_KEY_PREFIX = "line:";
+
+class PipelineCheckpointService {
+  private dbPool: mysql.Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor() {
+    this.dbPool = mysql.createPool({
+      host: process.env.DB_HOST || "localhost",
+      user: process.env.DB_USERNAME,
+      password: process.env.DB_PASSWORD,
+      database: process.env.DB_NAME,
+      port: parseInt(process.env.DB_PORT || "3306"),
+      waitForConnections: true,
+      connectionLimit: 5,
+      queueLimit: 0,
+    });
+  }
+
+  public async load(
+    songId: number,
+    trackId: string
+  ): Promise<PipelineCheckpoint> {
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT entry_key, payload
+        FROM pipeline_checkpoint
+        WHERE song_id = ? AND track_id = ?`,
+      [songId, trackId]
+    );
+
+    const checkpoint = this.empty();
+    for (const row of rows as CheckpointRow[]) {
+      const payload = this.parsePayload(row.payload);
+      if (row.entry_key.startsWith(TITLE_KEY_PREFIX)) {
+        const lang = row.entry_key.slice(TITLE_KEY_PREFIX.length);
+        checkpoint.titleTranslations.set(
+          lang,
+          typeof payload === "string"
+            ? { sourceHash: null, translated: payload }
+            : (payload as CheckpointedTitle)
+        );
+      } else if (row.entry_key.startsWith(TRANSLATIONS_KEY_PREFIX)) {
+        const lang = row.entry_key.slice(TRANSLATIONS_KEY_PREFIX.length);
+        checkpoint.lineTranslations.set(
+          lang,
+          Array.isArray(payload)
+            ? { sourceHash: null, lines: payload as string[] }
+            : (payload as CheckpointedTranslations)
+        );
+      } else if (row.entry_key.startsWith(LINE_KEY_PREFIX)) {
+        const idx = parseInt(row.entry_key.slice(LINE_KEY_PREFIX.length));
+        checkpoint.lines.set(
+          idx,
+          "ttsProvider" in (payload as object)
+            ? (payload as CheckpointedLine)
+            : { line: payload as ProcessedLyricLine }
+        );
+      }
+    }
+    return checkpoint;
+  }
+
+  public empty(): PipelineCheckpoint {
+    return {
+      titleTranslations: new Map(),
+      lineTranslations: new Map(),
+      lines: new Map(),
+    };
+  }
+
+  public async saveTitle(
+    songId: number,
+    trackId: string,
+    lang: string,
+    sourceTitle: string,
+    translated: string
+  ) {
+    const entry: CheckpointedTitle = {
+      sourceHash: this.hashSources([sourceTitle]),
+      translated,
+    };
+    await this.saveEntry(songId, trackId, `${TITLE_KEY_PREFIX}${lang}`, entry);
+  }
+
+  public async saveTranslations(
+    songId: number,
+    trackId: string,
+    lang: string,
+    sourceTexts: string[],
+    translatedLines: string[]
+  ) {
+    const entry: CheckpointedTranslations = {
+      sourceHash: this.hashSources(sourceTexts),
+      lines: translatedLines,
+    };
+    await this.saveEntry(
+      songId,
+      trackId,
+      `${TRANSLATIONS_KEY_PREFIX}${lang}`,
+      entry
+    );
+  }
+
+  // 제목이나 가사, 정규화 규칙이 바뀌면 (소절 수가 같아도) 번역을 다시 하도록 원문 전체를 해시
+  public hashSources(sourceTexts: string[]): string {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(sourceTexts))
+      .digest("hex");
+  }
+
+  public async saveLine(
+    songId: number,
+    trackId: string,
+    lineIndex: number,
+    ttsProvider: TTSProviderName | null,
+    line: ProcessedLyricLine
+  ) {
+    const entry: CheckpointedLine = { ttsProvider, line };
+    await this.saveEntry(
+      songId,
+      trackId,
+      `${LINE_KEY_PREFIX}${lineIndex}`,
+      entry
+    );
+  }
+
+  public async clear(songId: number, trackId: string) {
+    await this.ensureSchema();
+    await this.dbPool.execute(
+      `DELETE FROM pipeline_checkpoint
+        WHERE song_id = ? AND track_id = ?`,
+      [songId, trackId]
+    );
+  }
+
+  private async saveEntry(
+    songId: number,
+    trackId: string,
+    entryKey: string,
+    payload: unknown
+  ) {
+    await this.ensureSchema();
+    await this.dbPool.execute(
+      `INSERT INTO pipeline_checkpoint (song_id, track_id, entry_key, payload)
+        VALUES (?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE payload = VALUES(payload), updated_at = CURRENT_TIMESTAMP`,
+      [songId, trackId, entryKey, JSON.stringify(payload)]
+    );
+  }
+
+  // mysql2는 JSON 컬럼을 객체로 돌려주므로 문자열인 경우에만 파싱
+  private parsePayload(payload: string | unknown): unknown {
+    return typeof payload === "string" ? JSON.parse(payload) : payload;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.dbPool
+        .execute(
+          `CREATE TABLE IF NOT EXISTS pipeline_checkpoint (
+            song_id BIGINT NOT NULL,
+            track_id VARCHAR(64) NOT NULL,
+            entry_key VARCHAR(32) NOT NULL,
+            payload JSON NOT NULL,
+            updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (song_id, track_id, entry_key)
+          )`
+        )
+        .then(() => undefined)
+        .catch((error) => {
+          this.schemaReady = null; // 다음 호출에서 재시도
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
+
+export const pipelineCheckpointService = new PipelineCheckpointService();
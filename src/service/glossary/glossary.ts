@@ -0,0 +1,397 @@
+import * as deepl from "deepl-node";
+import mysql from "mysql2/promise";
+import * as crypto from "crypto";
+import { resilienceService } from "../resilience/resilience";
+
+interface GlossaryTermRow {
+  term_id: number;
+  source_term: string;
+  target_term: string | null;
+  target_lang: string | null;
+  song_id: number | null;
+  is_protected: number;
+  note: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface GlossarySyncRow {
+  glossary_id: string;
+  entries_hash: string;
+}
+
+interface StaleGlossaryRow {
+  glossary_id: string;
+}
+
+export interface GlossaryTerm {
+  termId: number;
+  sourceTerm: string;
+  targetTerm: string | null;
+  targetLang: string | null; // null이면 모든 대상 언어 (보호 용어 전용)
+  songId: number | null; // null이면 모든 노래에 적용
+  isProtected: boolean;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryTermInput {
+  sourceTerm: string;
+  targetTerm?: string | null;
+  targetLang?: string | null;
+  songId?: number | null;
+  isProtected: boolean;
+  note?: string | null;
+}
+
+export interface GlossaryTermQuery {
+  targetLang?: string;
+  songId?: number | null; // null이면 공통 항목만, 생략하면 모든 노래의 항목
+}
+
+export interface ResolvedGlossary {
+  glossaryId?: string;
+  protectedTerms: string[];
+}
+
+const SOURCE_LANG = "ko";
+
+class GlossaryService {
+  private client: deepl.Translator;
+  private dbPool: mysql.Pool;
+  private schemaReady: Promise<void> | null = null;
+  // 교체된 용어집을 진행 중인 번역이 계속 쓸 수 있도록 DeepL에서 지우기 전까지 기다리는 시간
+  private readonly STALE_GRACE_SECONDS: number;
+  // 같은 scope의 동시 동기화로 DeepL 용어집이 중복 생성되지 않도록 진행 중인 작업을 공유
+  private inflightSyncs = new Map<string, Promise<string | undefined>>();
+
+  constructor() {
+    const authKey = process.env.DEEPL_AUTH_KEY;
+    if (!authKey) {
+      throw new Error(
+        "DEEPL_AUTH_KEY가 .env 파일에 설정되지 않았습니다. DeepL 인증 키를 확인해주세요."
+      );
+    }
+
+    // 재시도는 resilienceService가 담당하므로 SDK 자체 재시도는 끔
+    this.client = new deepl.Translator(authKey, { maxRetries: 0 });
+    this.STALE_GRACE_SECONDS = parseInt(
+      process.env.GLOSSARY_STALE_GRACE_SECONDS || "3600"
+    );
+    this.dbPool = mysql.createPool({
+      host: process.env.DB_HOST || "localhost",
+      user: process.env.DB_USERNAME,
+      password: process.env.DB_PASSWORD,
+      database: process.env.DB_NAME,
+      port: parseInt(process.env.DB_PORT || "3306"),
+      waitForConnections: true,
+      connectionLimit: 5,
+      queueLimit: 0,
+    });
+  }
+
+  public async list(query: GlossaryTermQuery): Promise<GlossaryTerm[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.targetLang) {
+      conditions.push("(target_lang = ? OR target_lang IS NULL)");
+      params.push(query.targetLang);
+    }
+    if (query.songId === null) {
+      conditions.push("song_id IS NULL");
+    } else if (query.songId !== undefined) {
+      conditions.push("(song_id = ? OR song_id IS NULL)");
+      params.push(query.songId);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT * FROM translation_glossary_term
+        ${where}
+        ORDER BY term_id`,
+      params
+    );
+    return (rows as GlossaryTermRow[]).map((row) => this.toTerm(row));
+  }
+
+  public async get(termId: number): Promise<GlossaryTerm | null> {
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT * FROM translation_glossary_term WHERE term_id = ?`,
+      [termId]
+    );
+    return rows.length > 0 ? this.toTerm(rows[0] as GlossaryTermRow) : null;
+  }
+
+  public async create(input: GlossaryTermInput): Promise<GlossaryTerm> {
+    await this.ensureSchema();
+    const [result] = await this.dbPool.execute<mysql.ResultSetHeader>(
+      `INSERT INTO translation_glossary_term
+        (source_term, target_term, target_lang, song_id, is_protected, note)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        input.sourceTerm,
+        input.isProtected ? null : input.targetTerm ?? null,
+        input.targetLang ?? null,
+        input.songId ?? null,
+        input.isProtected ? 1 : 0,
+        input.note ?? null,
+      ]
+    );
+    console.log(
+      `[Glossary] Added term #${result.insertId} "${input.sourceTerm}"`
+    );
+    return (await this.get(result.insertId))!;
+  }
+
+  public async update(
+    termId: number,
+    input: GlossaryTermInput
+  ): Promise<GlossaryTerm | null> {
+    await this.ensureSchema();
+    const [result] = await this.dbPool.execute<mysql.ResultSetHeader>(
+      `UPDATE translation_glossary_term
+        SET source_term = ?, target_term = ?, target_lang = ?, song_id = ?, is_protected = ?, note = ?
+        WHERE term_id = ?`,
+      [
+        input.sourceTerm,
+        input.isProtected ? null : input.targetTerm ?? null,
+        input.targetLang ?? null,
+        input.songId ?? null,
+        input.isProtected ? 1 : 0,
+        input.note ?? null,
+        termId,
+      ]
+    );
+    return result.affectedRows > 0 ? this.get(termId) : null;
+  }
+
+  public async delete(termId: number): Promise<boolean> {
+    await this.ensureSchema();
+    const [result] = await this.dbPool.execute<mysql.ResultSetHeader>(
+      `DELETE FROM translation_glossary_term WHERE term_id = ?`,
+      [termId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 번역 호출에 적용할 DeepL 용어집 ID와 보호 용어를 반환합니다.
+   * 용어집은 대상 언어별 공통 용어집을 쓰고, 노래 전용 번역 항목이 있는 노래만 (대상 언어, 노래) 단위로 따로 만듭니다.
+   * 항목이 바뀐 경우에만 DeepL 용어집을 새로 만듭니다.
+   */
+  public async resolve(
+    targetLang: string,
+    songId?: number
+  ): Promise<ResolvedGlossary> {
+    // 노래를 지정하지 않으면 다른 노래 전용 항목이 섞이지 않도록 공통 항목만 사용
+    const terms = await this.list({ targetLang, songId: songId ?? null });
+    const protectedTerms = terms
+      .filter((term) => term.isProtected)
+      .map((term) => term.sourceTerm);
+    const glossaryId = await this.sync(targetLang, songId, terms);
+    return { glossaryId, protectedTerms };
+  }
+
+  /**
+   * 노래에 적용할 용어집을 DeepL과 동기화하고 용어집 ID를 반환합니다. 적용할 항목이 없으면 undefined.
+   * 노래 전용 번역 항목이 없으면 공통 용어집을 사용합니다. (노래마다 만들면 DeepL 용어집 수 한도를 넘음)
+   */
+  public async sync(
+    targetLang: string,
+    songId?: number,
+    terms?: GlossaryTerm[]
+  ): Promise<string | undefined> {
+    const scopedTerms =
+      terms ?? (await this.list({ targetLang, songId: songId ?? null }));
+    const entries = this.buildEntries(scopedTerms);
+    const hasSongEntries =
+      songId !== undefined &&
+      scopedTerms.some(
+        (term) => term.songId === songId && !term.isProtected && term.targetTerm
+      );
+    const scopeKey = `${targetLang}:${hasSongEntries ? songId : "global"}`;
+    const inflight = this.inflightSyncs.get(scopeKey);
+    if (inflight) {
+      return inflight;
+    }
+
+    const job = this.syncScope(scopeKey, targetLang, entries).finally(() =>
+      this.inflightSyncs.delete(scopeKey)
+    );
+    this.inflightSyncs.set(scopeKey, job);
+    return job;
+  }
+
+  private async syncScope(
+    scopeKey: string,
+    targetLang: string,
+    entries: Record<string, string>
+  ): Promise<string | undefined> {
+    const entriesHash = crypto
+      .createHash("sha256")
+      .update(JSON.stringify(Object.entries(entries).sort()))
+      .digest("hex");
+
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT glossary_id, entries_hash FROM translation_glossary_sync WHERE scope_key = ?`,
+      [scopeKey]
+    );
+    const current = rows[0] as GlossarySyncRow | undefined;
+    const isEmpty = Object.keys(entries).length === 0;
+    if (current && current.entries_hash === entriesHash) {
+      return current.glossary_id;
+    }
+    if (!current && isEmpty) {
+      return undefined;
+    }
+
+    let glossaryId: string | undefined;
+    if (!isEmpty) {
+      const glossary = await resilienceService.execute(
+        "deepl",
+        "createGlossary",
+        () =>
+          this.client.createGlossary(
+            `sayjong-${scopeKey}`,
+            SOURCE_LANG,
+            this.toGlossaryLang(targetLang),
+            new deepl.GlossaryEntries({ entries })
+          )
+      );
+      glossaryId = glossary.glossaryId;
+      await this.dbPool.execute(
+        `INSERT INTO translation_glossary_sync (scope_key, glossary_id, entries_hash)
+          VALUES (?, ?, ?)
+          ON DUPLICATE KEY UPDATE
+            glossary_id = VALUES(glossary_id),
+            entries_hash = VALUES(entries_hash),
+            synced_at = CURRENT_TIMESTAMP`,
+        [scopeKey, glossaryId, entriesHash]
+      );
+    } else {
+      await this.dbPool.execute(
+        `DELETE FROM translation_glossary_sync WHERE scope_key = ?`,
+        [scopeKey]
+      );
+    }
+    console.log(
+      `[Glossary] Synced "${scopeKey}" (${Object.keys(entries).length} entries)`
+    );
+
+    // 이전 용어집은 진행 중인 번역이 쓰고 있을 수 있으므로 바로 지우지 않고 유예 시간이 지난 뒤 정리
+    if (current) {
+      await this.dbPool.execute(
+        `INSERT IGNORE INTO translation_glossary_stale (glossary_id) VALUES (?)`,
+        [current.glossary_id]
+      );
+    }
+    await this.deleteStale();
+    return glossaryId;
+  }
+
+  /**
+   * 교체된 지 STALE_GRACE_SECONDS가 지난 DeepL 용어집을 삭제합니다. (실패해도 다음 동기화 때 다시 시도)
+   */
+  private async deleteStale() {
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT glossary_id FROM translation_glossary_stale
+        WHERE replaced_at < NOW() - INTERVAL ? SECOND`,
+      [this.STALE_GRACE_SECONDS]
+    );
+    for (const { glossary_id: glossaryId } of rows as StaleGlossaryRow[]) {
+      try {
+        await this.client.deleteGlossary(glossaryId);
+      } catch (error) {
+        if (!(error instanceof deepl.GlossaryNotFoundError)) {
+          console.warn(
+            `[Glossary] Failed to delete stale glossary ${glossaryId}:`,
+            error
+          );
+          continue;
+        }
+      }
+      await this.dbPool.execute(
+        `DELETE FROM translation_glossary_stale WHERE glossary_id = ?`,
+        [glossaryId]
+      );
+      console.log(`[Glossary] Deleted stale glossary ${glossaryId}`);
+    }
+  }
+
+  // 노래 전용 항목이 공통 항목보다 우선
+  private buildEntries(terms: GlossaryTerm[]): Record<string, string> {
+    const entries: Record<string, string> = {};
+    const ordered = [...terms].sort(
+      (a, b) => Number(a.songId !== null) - Number(b.songId !== null)
+    );
+    for (const term of ordered) {
+      if (term.isProtected || !term.targetTerm) continue;
+      entries[term.sourceTerm] = term.targetTerm;
+    }
+    return entries;
+  }
+
+  // DeepL 용어집은 지역 구분 없는 언어 코드를 사용 ("en-US" → "en", "zh-HANS" → "zh")
+  private toGlossaryLang(targetLang: string): deepl.LanguageCode {
+    return targetLang.split("-")[0].toLowerCase() as deepl.LanguageCode;
+  }
+
+  private toTerm(row: GlossaryTermRow): GlossaryTerm {
+    return {
+      termId: row.term_id,
+      sourceTerm: row.source_term,
+      targetTerm: row.target_term,
+      targetLang: row.target_lang,
+      songId: row.song_id,
+      isProtected: Boolean(row.is_protected),
+      note: row.note,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = (async () => {
+        await this.dbPool.execute(
+          `CREATE TABLE IF NOT EXISTS translation_glossary_term (
+            term_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+            source_term VARCHAR(255) NOT NULL,
+            target_term VARCHAR(255) NULL,
+            target_lang VARCHAR(16) NULL,
+            song_id BIGINT NULL,
+            is_protected TINYINT(1) NOT NULL DEFAULT 0,
+            note VARCHAR(255) NULL,
+            created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            INDEX idx_glossary_scope (target_lang, song_id)
+          )`
+        );
+        await this.dbPool.execute(
+          `CREATE TABLE IF NOT EXISTS translation_glossary_sync (
+            scope_key VARCHAR(64) NOT NULL PRIMARY KEY,
+            glossary_id VARCHAR(64) NOT NULL,
+            entries_hash CHAR(64) NOT NULL,
+            synced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+          )`
+        );
+        await this.dbPool.execute(
+          `CREATE TABLE IF NOT EXISTS translation_glossary_stale (
+            glossary_id VARCHAR(64) NOT NULL PRIMARY KEY,
+            replaced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+          )`
+        );
+      })().catch((error) => {
+        this.schemaReady = null; // 다음 호출에서 재시도
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+}
+
+export const glossaryService = new GlossaryService();
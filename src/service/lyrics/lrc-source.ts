@@ -0,0 +1,125 @@
+import { LyricLine, LyricWordTiming, LyricsSource } from "./types";
+
+// [mm:ss], [mm:ss.xx], [mm:ss.xxx], [mm:ss:xx]
+const LINE_TIMESTAMP_REGEX = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+// enhanced LRC 단어 타임스탬프: <mm:ss.xx>
+const WORD_TIMESTAMP_REGEX = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const METADATA_REGEX = /^\[([a-zA-Z]+):(.*)\]$/;
+
+/**
+ * "mm", "ss", "xx" 조각을 밀리초로 변환합니다. 소수부는 자릿수에 맞춰 해석합니다. (".5" = 500ms, ".12" = 120ms)
+ */
+export function toMilliseconds(
+  minutes: string,
+  seconds: string,
+  fraction?: string
+): number {
+  const fractionMs = fraction ? parseInt(fraction.padEnd(3, "0")) : 0;
+  return parseInt(minutes) * 60000 + parseInt(seconds) * 1000 + fractionMs;
+}
+
+class LrcLyricsSource implements LyricsSource<{ type: "lrc"; content: string }> {
+  public readonly type = "lrc";
+
+  public async load({ content }: { content: string }): Promise<LyricLine[]> {
+    return this.parse(content);
+  }
+
+  public parse(content: string): LyricLine[] {
+    let offsetMs = 0;
+    const entries: { timeMs: number; line: LyricLine }[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const trimmedLine = rawLine.trim();
+      if (!trimmedLine) continue;
+
+      // [ar:...], [ti:...], [offset:+100] 등의 메타데이터
+      const metadata = trimmedLine.match(METADATA_REGEX);
+      if (metadata) {
+        if (metadata[1].toLowerCase() === "offset") {
+          offsetMs = parseInt(metadata[2].trim()) || 0;
+        }
+        continue;
+      }
+
+      // 한 줄에 여러 타임스탬프가 있으면 ([00:12.00][00:45.00]후렴) 각각의 라인으로 분리
+      const lineTimes: number[] = [];
+      LINE_TIMESTAMP_REGEX.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      let textStart = 0;
+      while ((match = LINE_TIMESTAMP_REGEX.exec(trimmedLine))) {
+        if (match.index !== textStart) break; // 가사 중간의 대괄호는 타임스탬프가 아님
+        lineTimes.push(toMilliseconds(match[1], match[2], match[3]));
+        textStart = match.index + match[0].length;
+      }
+      if (lineTimes.length === 0) continue;
+
+      const body = trimmedLine.slice(textStart);
+      const { words, wordTimings } = this.parseWords(body);
+
+      for (const timeMs of lineTimes) {
+        entries.push({
+          timeMs,
+          line: {
+            startTimeMs: "",
+            words,
+            wordTimings:
+              wordTimings.length > 0
+                ? wordTimings.map((timing) => ({ ...timing }))
+                : undefined,
+          },
+        });
+      }
+    }
+
+    // offset이 양수이면 가사가 더 일찍 표시되어야 함
+    return entries
+      .sort((a, b) => a.timeMs - b.timeMs)
+      .map(({ timeMs, line }) => {
+        line.startTimeMs = String(Math.max(0, timeMs - offsetMs));
+        line.wordTimings?.forEach((timing) => {
+          timing.startTimeMs = Math.max(0, timing.startTimeMs - offsetMs);
+        });
+        return line;
+      });
+  }
+
+  private parseWords(body: string): {
+    words: string;
+    wordTimings: LyricWordTiming[];
+  } {
+    const wordTimings: LyricWordTiming[] = [];
+    const markers: RegExpExecArray[] = [];
+    WORD_TIMESTAMP_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WORD_TIMESTAMP_REGEX.exec(body))) {
+      markers.push(match);
+    }
+
+    if (markers.length === 0) {
+      return { words: body.trim(), wordTimings };
+    }
+
+    markers.forEach((marker, idx) => {
+      const start = marker.index + marker[0].length;
+      const end =
+        idx + 1 < markers.length ? markers[idx + 1].index : body.length;
+      const word = body.slice(start, end).trim();
+      // 마지막 마커는 종료 시각만 나타내는 경우가 있으므로 빈 단어는 제외
+      if (word) {
+        wordTimings.push({
+          startTimeMs: toMilliseconds(marker[1], marker[2], marker[3]),
+          word,
+        });
+      }
+    });
+
+    const words = body
+      .replace(WORD_TIMESTAMP_REGEX, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    return { words, wordTimings };
+  }
+}
+
+export const lrcLyricsSource = new LrcLyricsSource();
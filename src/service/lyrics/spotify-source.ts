@@ -0,0 +1,85 @@
+import { resilienceService } from "../resilience/resilience";
+import { HttpStatusError, parseRetryAfter } from "../resilience/errors";
+import { LyricLine, LyricsSource } from "./types";
+
+interface RawSpotifyLine {
+  startTimeMs: string;
+  words: string;
+}
+
+interface RawSpotifyResponse {
+  lines: RawSpotifyLine[];
+}
+
+class SpotifyLyricsSource
+  implements LyricsSource<{ type: "spotify"; trackId: string }>
+{
+  public readonly type = "spotify";
+  private readonly REQUEST_TIMEOUT_MS = 15000;
+
+  public async load({ trackId }: { trackId: string }): Promise<LyricLine[]> {
+    const SPOTIFY_LYRIC_URL = process.env.SPOTIFY_LYRIC_URL;
+    if (!SPOTIFY_LYRIC_URL) {
+      console.error("[SpotifyLyrics] SPOTIFY_LYRIC_URL is not defined.");
+      throw new Error(
+        "SPOTIFY_LYRIC_URL is not defined in environment variables."
+      );
+    }
+
+    const url = new URL(SPOTIFY_LYRIC_URL);
+    url.pathname = "/";
+    url.searchParams.set("trackid", trackId);
+
+    try {
+      const response = await resilienceService.execute(
+        "spotify-lyrics",
+        "fetchLyrics",
+        async () => {
+          const res = await fetch(url.toString(), {
+            signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+          });
+
+          if (!res.ok) {
+            console.error(
+              `[SpotifyLyrics] API request failed with status: ${res.status} ${res.statusText}`
+            );
+            const errorBody = await res.text();
+            console.error(`[SpotifyLyrics] Error response body: ${errorBody}`);
+            throw new HttpStatusError(
+              `Failed to fetch lyrics: ${res.statusText}`,
+              res.status,
+              parseRetryAfter(res.headers.get("retry-after"))
+            );
+          }
+          return res;
+        }
+      );
+
+      const data = (await response.json()) as RawSpotifyResponse;
+
+      if (!data || !data.lines) {
+        console.warn(
+          `[SpotifyLyrics] API response OK, but 'lines' property is missing or invalid.`
+        );
+        console.log(
+          "[SpotifyLyrics] Received data:",
+          JSON.stringify(data, null, 2)
+        );
+        throw new Error("Invalid data structure received from lyrics API.");
+      }
+
+      return data.lines.map((line) => ({
+        startTimeMs: line.startTimeMs,
+        words: line.words,
+      }));
+    } catch (error) {
+      console.error(
+        `[SpotifyLyrics] An error occurred during fetch or JSON parsing:`,
+        error
+      );
+      throw error;
+    }
+  }
+}
+
+export const spotifyLyricsSource = new SpotifyLyricsSource();
@@ -0,0 +1,42 @@
+import { LyricLine, LyricsSource } from "./types";
+import { toMilliseconds } from "./lrc-source";
+
+// 라인 앞의 선택적 타임스탬프: "[01:02.50] 가사", "01:02.50 가사", "01:02 가사"
+const LEADING_TIMESTAMP_REGEX =
+  /^\[?(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]?(?:\s+|$)/;
+
+class TextLyricsSource implements LyricsSource<{ type: "text"; content: string }> {
+  public readonly type = "text";
+
+  public async load({ content }: { content: string }): Promise<LyricLine[]> {
+    return this.parse(content);
+  }
+
+  /**
+   * 줄바꿈으로 구분된 가사를 파싱합니다.
+   * 타임스탬프가 없는 라인은 직전 라인의 시작 시각을 이어받습니다. (첫 라인 이전은 "0")
+   */
+  public parse(content: string): LyricLine[] {
+    const lines: LyricLine[] = [];
+    let lastStartTimeMs = 0;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const trimmedLine = rawLine.trim();
+      if (!trimmedLine) continue;
+
+      const match = trimmedLine.match(LEADING_TIMESTAMP_REGEX);
+      if (match) {
+        lastStartTimeMs = toMilliseconds(match[1], match[2], match[3]);
+      }
+
+      lines.push({
+        startTimeMs: String(lastStartTimeMs),
+        words: match ? trimmedLine.slice(match[0].length).trim() : trimmedLine,
+      });
+    }
+
+    return lines;
+  }
+}
+
+export const textLyricsSource = new TextLyricsSource();
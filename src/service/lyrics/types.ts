@@ -0,0 +1,28 @@
+export interface LyricWordTiming {
+  startTimeMs: number;
+  word: string;
+}
+
+/**
+ * 모든 가사 소스가 변환되는 공통 라인 모델 (Spotify 응답 형태를 기준으로 함)
+ * 타이밍 정보가 없는 가사는 startTimeMs가 "0"입니다.
+ */
+export interface LyricLine {
+  startTimeMs: string;
+  words: string;
+  // enhanced LRC 등 단어 단위 타이밍을 제공하는 소스만 채움
+  wordTimings?: LyricWordTiming[];
+}
+
+export type LyricsSourceInput =
+  | { type: "spotify"; trackId: string }
+  | { type: "lrc"; content: string }
+  | { type: "text"; content: string };
+
+export type LyricsSourceType = LyricsSourceInput["type"];
+
+export interface LyricsSource<T extends LyricsSourceInput> {
+  readonly type: T["type"];
+
+  load(input: T): Promise<LyricLine[]>;
+}
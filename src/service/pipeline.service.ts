@@ -1,47 +1,221 @@
 import { promises as fs } from "fs";
 import * as path from "path";
 import { lyricsService } from "./processor/lyrics";
-import { romanizeService } from "./processor/romanize";
+import { romanizeService, RomanizationSystem } from "./processor/romanize";
 import { translationService } from "./processor/translation";
+import { phonologyService } from "./processor/phonology";
+import { normalizeService } from "./processor/normalize";
+import { isHangulSyllable } from "./processor/hangul";
+import { structureService } from "./processor/structure";
+import { vocabularyService } from "./vocabulary/vocabulary";
 import { audioService } from "./processor/audio";
 import { ContentCreationRequest } from "../dto/content.request.dto";
 import {
+  LyricWordTimingResult,
   ProcessedLyricSyllable,
   ProcessedLyricLine,
   ContentSuccessResult,
   ContentFailResult,
 } from "../dto/content.response.dto";
+import { ProgressReporter } from "./queue/job-queue";
+import { LyricWordTiming } from "./lyrics/types";
+import {
+  pipelineCheckpointService,
+  PipelineCheckpoint,
+} from "./checkpoint/pipeline-checkpoint";
 
 class PipelineService {
-  public async run(request: ContentCreationRequest) {
-    const { songId, trackId, title } = request;
+  public async run(
+    request: ContentCreationRequest,
+    reportProgress: ProgressReporter = () => {}
+  ): Promise<ContentSuccessResult | ContentFailResult> {
+    const {
+      songId,
+      trackId,
+      title,
+      mode,
+      ttsProvider,
+      lyrics,
+      targetLangs,
+      romanizationSystems,
+      normalizationRules,
+    } = request;
 
     try {
-      console.log(`[Pipeline] Starting job for: ${trackId}`);
+      console.log(`[Pipeline] Starting job for: ${trackId} (mode: ${mode})`);
+      const checkpoint = await this.loadCheckpoint(songId, trackId, mode);
 
       // 1. 가사 가져오기
-      const lyricsData = await lyricsService.fetchLyrics(trackId);
+      reportProgress({ stage: "lyrics" });
+      const rawLyrics = await lyricsService.fetchLyrics(
+        lyrics.type === "spotify" ? { type: "spotify", trackId } : lyrics
+      );
       console.log(
         `[Pipeline] Fetched Lyrics for ${trackId}:`,
-        lyricsData.length
+        rawLyrics.length
+      );
+
+      // 1b. 가사 정규화 (정규화 후 비어 있는 "♪" 같은 소절은 제외)
+      const lyricsData = rawLyrics
+        .map((line) => ({
+          ...line,
+          normalized: normalizeService.normalize(
+            line.words,
+            normalizationRules
+          ),
+        }))
+        .filter((line) => line.normalized.text !== "");
+      if (lyricsData.length < rawLyrics.length) {
+        console.log(
+          `[Pipeline] Skipped ${
+            rawLyrics.length - lyricsData.length
+          } empty lines after normalization.`
+        );
+      }
+
+      // 1c. 곡 구조(verse/chorus 등) 분석
+      const structure = structureService.analyze(
+        lyricsData.map((line) => ({
+          text: line.normalized.text,
+          startTimeMs: line.startTimeMs,
+        }))
       );
 
-      // 2a. 노래 제목 번역
-      const titleTranslated = await translationService.translateText(title);
+      // 2a. 노래 제목 번역 (대상 언어별)
+      reportProgress({ stage: "translation", totalLines: lyricsData.length });
+      const titleTranslations: Record<string, string> = {};
+      const titleHash = pipelineCheckpointService.hashSources([title]);
+      for (const lang of targetLangs) {
+        const checkpointedTitle = checkpoint.titleTranslations.get(lang);
+        let translated =
+          checkpointedTitle?.sourceHash === titleHash
+            ? checkpointedTitle.translated
+            : undefined;
+        if (translated === undefined) {
+          translated = await translationService.translateText(title, lang, {
+            songId,
+          });
+          const value = translated;
+          await this.saveCheckpoint(() =>
+            pipelineCheckpointService.saveTitle(
+              songId,
+              trackId,
+              lang,
+              title,
+              value
+            )
+          );
+        }
+        titleTranslations[lang] = translated;
+      }
 
-      // 2b. 가사 번역
-      const originalLyricsTexts = lyricsData.map((line) => line.words);
-      const translatedLyricsTexts = await translationService.translateBatch(
-        originalLyricsTexts
+      // 2b. 가사 번역 (대상 언어별)
+      const originalLyricsTexts = lyricsData.map(
+        (line) => line.normalized.text
       );
+      const sourceHash =
+        pipelineCheckpointService.hashSources(originalLyricsTexts);
+      const lineTranslations: Record<string, string[]> = {};
+      for (const lang of targetLangs) {
+        const checkpointed = checkpoint.lineTranslations.get(lang);
+        let translated =
+          checkpointed?.sourceHash === sourceHash
+            ? checkpointed.lines
+            : undefined;
+        if (!translated) {
+          translated = await translationService.translateBatch(
+            originalLyricsTexts,
+            lang,
+            { songId }
+          );
+          const value = translated;
+          await this.saveCheckpoint(() =>
+            pipelineCheckpointService.saveTranslations(
+              songId,
+              trackId,
+              lang,
+              originalLyricsTexts,
+              value
+            )
+          );
+        }
+        lineTranslations[lang] = translated;
+      }
+      const primaryLang = targetLangs[0];
+      const translationsAt = (idx: number) =>
+        Object.fromEntries(
+          targetLangs.map((lang) => [lang, lineTranslations[lang][idx]])
+        );
 
       // 2c. 가사 소절별 처리 (로마자, 오디오)
       // NOTE: rate limit을 피하기 위해 순차 처리로 진행
       const processedLines: ProcessedLyricLine[] = [];
+      // 반복되는 섹션(후렴 등)의 같은 소절은 TTS와 분석을 다시 하지 않고 먼저 처리한 결과를 사용
+      const processedByText = new Map<string, ProcessedLyricLine>();
+      reportProgress({ stage: "lines", processedLines: 0 });
 
       for (const [idx, lineData] of lyricsData.entries()) {
-        const { words, startTimeMs } = lineData;
-        const originalText = words;
+        const { normalized, startTimeMs } = lineData;
+        const wordTimings = this.toWordTimings(lineData.wordTimings);
+        const originalText = normalized.text;
+
+        // 이전 실행에서 완료된 소절은 체크포인트를 그대로 사용 (번역과 어휘 뜻은 이번 요청의 언어 기준으로 갱신)
+        // 음성은 같은 provider로 만든 경우에만 재사용
+        const checkpointed = checkpoint.lines.get(idx);
+        const checkpointLine = checkpointed?.line;
+        if (
+          checkpointLine &&
+          checkpointed.ttsProvider === (ttsProvider ?? null) &&
+          checkpointLine.words === originalText &&
+          checkpointLine.startTime === startTimeMs &&
+          checkpointLine.originalWords === normalized.original &&
+          this.isReusable(checkpointLine, romanizationSystems)
+        ) {
+          const reusedLine: ProcessedLyricLine = {
+            ...checkpointLine,
+            sectionIndex: structure.lineSectionIndexes[idx],
+            wordTimings,
+            translated: lineTranslations[primaryLang][idx],
+            translations: translationsAt(idx),
+            vocabulary: vocabularyService.analyze(originalText, targetLangs),
+          };
+          processedLines.push(reusedLine);
+          processedByText.set(originalText, reusedLine);
+          reportProgress({ processedLines: idx + 1 });
+          continue;
+        }
+
+        // 소절별 번역은 문맥에 따라 달라질 수 있으므로 반복 소절이어도 자기 번역을 사용
+        const repeatedLine = processedByText.get(originalText);
+        if (repeatedLine) {
+          console.log(
+            `[Pipeline] Reusing repeated line ${idx + 1}/${
+              lyricsData.length
+            }: "${originalText}"`
+          );
+          const processedLine: ProcessedLyricLine = {
+            ...repeatedLine,
+            startTime: startTimeMs,
+            sectionIndex: structure.lineSectionIndexes[idx],
+            originalWords: normalized.original,
+            originalOffsets: normalized.offsets,
+            wordTimings,
+            translated: lineTranslations[primaryLang][idx],
+            translations: translationsAt(idx),
+          };
+          processedLines.push(processedLine);
+          await this.saveCheckpoint(() =>
+            pipelineCheckpointService.saveLine(
+              songId,
+              trackId,
+              idx,
+              ttsProvider ?? null,
+              processedLine
+            )
+          );
+          reportProgress({ processedLines: idx + 1 });
+          continue;
+        }
 
         console.log(
           `[Pipeline] Processing line ${idx + 1}/${
@@ -50,49 +224,111 @@ class PipelineService {
         );
 
         // --- 2c-1. 소절(Line) 전체 단위 처리 ---
-        const romanizedText = romanizeService.convert(originalText);
-        const audioUrl = await audioService.createTTS(originalText); // 소절 전체 오디오
-        const translatedText = translatedLyricsTexts[idx];
+        const primarySystem = romanizationSystems[0];
+        const romanizations = romanizeService.convertAll(
+          originalText,
+          romanizationSystems
+        );
+        const audio = await audioService.createTTS(
+          originalText,
+          "line",
+          ttsProvider
+        ); // 소절 전체 오디오
+        const translatedText = lineTranslations[primaryLang][idx];
 
         // --- 2c-2. 음절(Syllable) 단위 처리 ---
         const characters = originalText.split("");
         const processedSyllables: ProcessedLyricSyllable[] = [];
+        const phonology = phonologyService.analyze(originalText);
+        const syllableIndexByChar = new Map<number, number>();
+        // 발음 기준 표기는 소절 문맥의 발음(연음 등)을 음절 단위로 대응시켜 사용
+        const pronouncedLine = romanizeService.pronounce(originalText);
+        const pronouncedChars =
+          pronouncedLine.length === originalText.length
+            ? pronouncedLine.split("")
+            : null;
 
         // 음절도 순차 처리 (TTS API Rate Limit 회피)
-        for (const char of characters) {
+        for (const [charIdx, char] of characters.entries()) {
           const syllableText = char;
-          if (!this.hasKorean(syllableText)) {
+          if (!isHangulSyllable(syllableText)) {
             continue;
           }
-          const syllableRomanized = romanizeService.convert(syllableText);
-          const syllableAudioUrl = await audioService.createTTS(syllableText); // *음절* 오디오
+          syllableIndexByChar.set(charIdx, processedSyllables.length);
+          const syllableRomanizations = romanizeService.convertAll(
+            syllableText,
+            romanizationSystems,
+            pronouncedChars?.[charIdx]
+          );
+          const syllableAudio = await audioService.createTTS(
+            syllableText,
+            "syllable",
+            ttsProvider
+          ); // *음절* 오디오
 
           processedSyllables.push({
             textKor: syllableText,
-            romanized: syllableRomanized,
-            nativeAudio: syllableAudioUrl,
+            romanized: syllableRomanizations[primarySystem]!,
+            romanizations: syllableRomanizations,
+            pronounced: phonology.pronouncedChars[charIdx],
+            nativeAudio: syllableAudio.url,
+            nativeAudioFormats: syllableAudio.formats,
           });
         }
 
         // --- 2c-3. 최종 소절 데이터 취합 ---
-        processedLines.push({
+        const processedLine: ProcessedLyricLine = {
           startTime: startTimeMs,
+          sectionIndex: structure.lineSectionIndexes[idx],
           words: originalText,
-          romanized: romanizedText,
+          originalWords: normalized.original,
+          originalOffsets: normalized.offsets,
+          wordTimings,
+          romanized: romanizations[primarySystem]!,
+          romanizations: romanizations,
+          pronounced: phonology.pronounced,
+          phonology: phonology.annotations.map(
+            ({ charIndexes, ...annotation }) => ({
+              ...annotation,
+              syllableIndexes: charIndexes.map((charIdx) =>
+                syllableIndexByChar.get(charIdx)!
+              ),
+            })
+          ),
+          vocabulary: vocabularyService.analyze(originalText, targetLangs),
           translated: translatedText,
-          nativeAudio: audioUrl,
+          translations: translationsAt(idx),
+          nativeAudio: audio.url,
+          nativeAudioFormats: audio.formats,
           syllables: processedSyllables,
-        });
+        };
+        processedLines.push(processedLine);
+        processedByText.set(originalText, processedLine);
+        await this.saveCheckpoint(() =>
+          pipelineCheckpointService.saveLine(
+            songId,
+            trackId,
+            idx,
+            ttsProvider ?? null,
+            processedLine
+          )
+        );
+        reportProgress({ processedLines: idx + 1 });
       }
 
       const successPayload: ContentSuccessResult = {
         songId: songId,
         title: title,
-        titleTranslated: titleTranslated,
+        titleTranslated: titleTranslations[primaryLang],
+        titleTranslations: titleTranslations,
+        sections: structure.sections,
         lines: processedLines,
       };
 
       // this.saveDebugFile(successPayload, `${songId}_${title}`); //TODO: remove this. (for debugging)
+      await this.saveCheckpoint(() =>
+        pipelineCheckpointService.clear(songId, trackId)
+      );
       console.log(`[Pipeline] Successfully finished job for songId: ${songId}`);
       return successPayload;
     } catch (error) {
@@ -107,6 +343,42 @@ class PipelineService {
     }
   }
 
+  private async loadCheckpoint(
+    songId: number,
+    trackId: string,
+    mode: ContentCreationRequest["mode"]
+  ): Promise<PipelineCheckpoint> {
+    try {
+      if (mode === "restart") {
+        await pipelineCheckpointService.clear(songId, trackId);
+        return pipelineCheckpointService.empty();
+      }
+
+      const checkpoint = await pipelineCheckpointService.load(songId, trackId);
+      if (checkpoint.lines.size > 0) {
+        console.log(
+          `[Pipeline] Resuming ${trackId} with ${checkpoint.lines.size} checkpointed lines.`
+        );
+      }
+      return checkpoint;
+    } catch (error) {
+      // 체크포인트 저장소 장애로 작업 전체가 실패하지 않도록 처음부터 진행
+      console.warn(
+        `[Pipeline] Failed to load checkpoint for ${trackId}. Starting from scratch.`,
+        error
+      );
+      return pipelineCheckpointService.empty();
+    }
+  }
+
+  private async saveCheckpoint(write: () => Promise<void>) {
+    try {
+      await write();
+    } catch (error) {
+      console.warn("[Pipeline] Failed to write checkpoint:", error);
+    }
+  }
+
   //TODO: remove this. (for debugging)
   private async saveDebugFile(payload: unknown, prefix: string = "result") {
     const kstFormatter = new Intl.DateTimeFormat("sv", {
@@ -140,9 +412,30 @@ class PipelineService {
     await fs.writeFile(outputPath, payloadJson, "utf-8");
   }
 
-  private hasKorean(text: string): boolean {
-    const HANGUL_REGEX = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/;
-    return HANGUL_REGEX.test(text);
+  // 가사 소스의 단어 타이밍을 소절 startTime과 같은 문자열 밀리초로 변환
+  private toWordTimings(
+    timings: LyricWordTiming[] | undefined
+  ): LyricWordTimingResult[] | undefined {
+    return timings?.map(({ word, startTimeMs }) => ({
+      word,
+      startTime: String(startTimeMs),
+    }));
+  }
+
+  // 체크포인트 소절이 이번 요청의 로마자 표기법과 발음 분석 결과, 형식별 음성을 모두 포함하는지 확인
+  private isReusable(
+    line: ProcessedLyricLine,
+    systems: readonly RomanizationSystem[]
+  ): boolean {
+    const romanizations = line.romanizations || {};
+    return (
+      line.phonology !== undefined &&
+      line.nativeAudioFormats !== undefined &&
+      line.syllables.every(
+        (syllable) => syllable.nativeAudioFormats !== undefined
+      ) &&
+      systems.every((system) => system in romanizations)
+    );
   }
 }
 
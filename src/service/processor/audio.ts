@@ -1,115 +1,74 @@
-import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
-import * as crypto from "crypto";
-import { Readable } from "stream";
-import { Storage, Bucket } from "@google-cloud/storage";
-
-class AudioService {
-  private client: ElevenLabsClient;
-  private storage: Storage;
-  private bucket: Bucket;
-  private bucketName: string;
-
-  private audioCache = new Map<string, string>();
-
-  private readonly KOREAN_VOICE_ID = "uyVNoMrnUku1dZyVEXwD"; //Anna kim
-
-  constructor() {
-    // 1. ElevenLabs 클라이언트 설정
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "ELEVENLABS_API_KEY가 .env 파일에 설정되지 않았습니다. ElevenLabs API 키를 확인해주세요."
-      );
-    }
-
-    this.client = new ElevenLabsClient({ apiKey });
-
-    // 2. Google Cloud Storage 클라이언트 설정
-    const gcpProjectId = process.env.GCP_PROJECT_ID;
-    const gcsBucketName = process.env.GCS_BUCKET_NAME;
-    const gcpKeyFilePath = process.env.GCP_SERVICE_KEY_PATH;
-
-    if (!gcpProjectId || !gcsBucketName || !gcpKeyFilePath) {
-      throw new Error(
-        "GCP_PROJECT_ID, GCS_BUCKET_NAME, GCP_SERVICE_KEY_PATH가 .env에 모두 설정되어야 합니다."
-      );
-    }
+import { getTTSProvider } from "../tts/provider/tts-provider";
+import { ttsAssetCache } from "../tts/tts-asset-cache";
+import { TTSMode, TTSProviderName } from "../tts/provider/types";
+import { hasHangul } from "./hangul";
+import { NativeAudioFormat } from "../../dto/content.response.dto";
+
+export interface NativeAudio {
+  url: string; // 기본 형식(MP3) URL, 건너뛰면 빈 문자열, 대기 중이면 PENDING_TTS_URL
+  formats: NativeAudioFormat[];
+}
 
-    this.storage = new Storage({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-    this.bucketName = gcsBucketName;
-    this.bucket = this.storage.bucket(this.bucketName);
-  }
+// provider를 지정하지 않으면 크론 작업(google-line-tts, syllable-tts)이 나중에 채워 넣음
+export const PENDING_TTS_URL = "PENDING_TTS_URL";
 
-  public async createTTS(text: string): Promise<string> {
+class AudioService {
+  public async createTTS(
+    text: string,
+    mode: TTSMode,
+    providerName?: TTSProviderName
+  ): Promise<NativeAudio> {
     const trimmedText = text.trim();
 
-    if (this.audioCache.has(trimmedText)) {
-      console.log(`[AudioService] 캐시된 TTS 사용: "${text}"`);
-      return this.audioCache.get(trimmedText)!;
-    }
-
     if (!trimmedText) {
       console.warn(`[AudioService] 빈 텍스트는 스킵합니다.`);
-      return "";
+      return { url: "", formats: [] };
     }
 
-    const hasHangul = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/.test(trimmedText);
-    if (!hasHangul) {
+    if (!hasHangul(trimmedText)) {
       console.warn(`[AudioService] 한글이 포함되지 않은 텍스트는 스킵합니다.`);
-      return "";
+      return { url: "", formats: [] };
     }
 
-    console.log(`[AudioService] TTS 생성 요청: "${trimmedText}"`);
-    //TODO: 나중에 rate limit 해결되면 처리
-    return "PENDING_TTS_URL";
-
-    // try {
-    //   const audioStream = await this.client.textToSpeech.stream(
-    //     this.KOREAN_VOICE_ID,
-    //     {
-    //       text: trimmedText,
-    //       modelId: "eleven_multilingual_v2",
-    //     }
-    //   );
-
-    //   const gcsFilePath = `tts/${crypto.randomUUID()}.mp3`;
-    //   const file = this.bucket.file(gcsFilePath);
-    //   const gcsWriteStream = file.createWriteStream({
-    //     contentType: "audio/mpeg",
-    //   });
-    //   const nodeAudioStream = Readable.fromWeb(audioStream as any);
-    //   nodeAudioStream.pipe(gcsWriteStream);
+    if (!providerName) {
+      return { url: PENDING_TTS_URL, formats: [] };
+    }
 
-    //   return new Promise((resolve, reject) => {
-    //     gcsWriteStream.on("finish", () => {
-    //       const publicUrl = `https://storage.googleapis.com/${this.bucketName}/${gcsFilePath}`;
-    //       this.audioCache.set(trimmedText, publicUrl);
-    //       resolve(publicUrl);
-    //     });
-    //     gcsWriteStream.on("error", (error) => {
-    //       console.error("[AudioService] 파일 쓰기 스트림 에러:", error);
-    //       reject(error);
-    //     });
-    //     nodeAudioStream.on("error", (error) => {
-    //       console.error("[AudioService] ElevenLabs API 스트림 에러:", error);
-    //       reject(error);
-    //     });
-    //   });
-    // } catch (error) {
-    //   console.error(
-    //     `[AudioService] ElevenLabs TTS 생성 실패 (text: ${text}):`,
-    //     error
-    //   );
-    //   if (error instanceof Error) {
-    //     throw new Error(`ElevenLabs TTS failed: ${error.message}`);
-    //   }
-    //   throw new Error(
-    //     `ElevenLabs TTS failed: ${String(error) || "Unknown error"}`
-    //   );
-    // }
+    console.log(
+      `[AudioService] TTS 생성 요청 (${providerName}/${mode}): "${trimmedText}"`
+    );
+
+    try {
+      const folder =
+        mode === "line"
+          ? `${providerName}-lyrics`
+          : `${providerName}-lyrics-syllables`;
+      const asset = await ttsAssetCache.synthesize(
+        getTTSProvider(providerName),
+        { text: trimmedText, mode },
+        folder
+      );
+      return {
+        url: asset.audioUrl,
+        formats: asset.formats.map((format) => ({
+          format: format.format,
+          url: format.audioUrl,
+          contentType: format.contentType,
+          durationSeconds: format.durationSeconds,
+        })),
+      };
+    } catch (error) {
+      console.error(
+        `[AudioService] ${providerName} TTS 생성 실패 (text: ${text}):`,
+        error
+      );
+      if (error instanceof Error) {
+        throw new Error(`${providerName} TTS failed: ${error.message}`);
+      }
+      throw new Error(
+        `${providerName} TTS failed: ${String(error) || "Unknown error"}`
+      );
+    }
   }
 }
 
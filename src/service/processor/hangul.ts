@@ -0,0 +1,117 @@
+// 한글 음절(가-힣)의 초성/중성/종성 인덱스 (유니코드 조합 순서)
+export interface HangulSyllable {
+  cho: number;
+  jung: number;
+  jong: number;
+}
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+const COMPAT_JAMO_FIRST = 0x3131; // ㄱ
+const COMPAT_JAMO_LAST = 0x3163; // ㅣ
+
+// 초성 인덱스: ㄱ ㄲ ㄴ ㄷ ㄸ ㄹ ㅁ ㅂ ㅃ ㅅ ㅆ ㅇ ㅈ ㅉ ㅊ ㅋ ㅌ ㅍ ㅎ
+export const CHO = {
+  GIYEOK: 0,
+  SSANGGIYEOK: 1,
+  NIEUN: 2,
+  DIGEUT: 3,
+  SSANGDIGEUT: 4,
+  RIEUL: 5,
+  MIEUM: 6,
+  BIEUP: 7,
+  SSANGBIEUP: 8,
+  SIOS: 9,
+  SSANGSIOS: 10,
+  IEUNG: 11,
+  JIEUT: 12,
+  SSANGJIEUT: 13,
+  CHIEUCH: 14,
+  KIEUK: 15,
+  TIEUT: 16,
+  PIEUP: 17,
+  HIEUH: 18,
+};
+
+// 중성 인덱스: ㅏ ㅐ ㅑ ㅒ ㅓ ㅔ ㅕ ㅖ ㅗ ㅘ ㅙ ㅚ ㅛ ㅜ ㅝ ㅞ ㅟ ㅠ ㅡ ㅢ ㅣ
+export const JUNG = {
+  A: 0,
+  AE: 1,
+  YA: 2,
+  YAE: 3,
+  EO: 4,
+  E: 5,
+  YEO: 6,
+  O: 8,
+  WA: 9,
+  WAE: 10,
+  OE: 11,
+  U: 13,
+  WO: 14,
+  WI: 16,
+  EU: 18,
+  I: 20,
+};
+
+// 종성 인덱스: (없음) ㄱ ㄲ ㄳ ㄴ ㄵ ㄶ ㄷ ㄹ ㄺ ㄻ ㄼ ㄽ ㄾ ㄿ ㅀ ㅁ ㅂ ㅄ ㅅ ㅆ ㅇ ㅈ ㅊ ㅋ ㅌ ㅍ ㅎ
+export const JONG = {
+  NONE: 0,
+  GIYEOK: 1,
+  NIEUN: 4,
+  NIEUN_HIEUH: 6,
+  DIGEUT: 7,
+  RIEUL: 8,
+  RIEUL_TIEUT: 13,
+  RIEUL_HIEUH: 15,
+  MIEUM: 16,
+  BIEUP: 17,
+  SIOS: 19,
+  SSANGSIOS: 20,
+  IEUNG: 21,
+  TIEUT: 25,
+  HIEUH: 27,
+};
+
+export function decomposeHangul(char: string): HangulSyllable | null {
+  const code = char.charCodeAt(0);
+  if (char.length !== 1 || code < HANGUL_BASE || code > HANGUL_LAST) {
+    return null;
+  }
+  const offset = code - HANGUL_BASE;
+  return {
+    cho: Math.floor(offset / 588),
+    jung: Math.floor((offset % 588) / 28),
+    jong: offset % 28,
+  };
+}
+
+export function isHangulSyllable(char: string): boolean {
+  return decomposeHangul(char) !== null;
+}
+
+// 영문자, 숫자 또는 완성형 한글 음절 (가사를 비교할 때 공백과 문장 부호를 빼고 남기는 글자)
+export function isAlphanumericOrHangul(char: string): boolean {
+  return /^[0-9A-Za-z]$/.test(char) || isHangulSyllable(char);
+}
+
+export function hasHangulSyllable(text: string): boolean {
+  return Array.from(text).some(isHangulSyllable);
+}
+
+// 완성형 음절 또는 호환용 자모(ㄱ-ㅎ, ㅏ-ㅣ)가 하나라도 있는지 확인
+export function hasHangul(text: string): boolean {
+  for (let idx = 0; idx < text.length; idx++) {
+    const code = text.charCodeAt(idx);
+    if (
+      (code >= HANGUL_BASE && code <= HANGUL_LAST) ||
+      (code >= COMPAT_JAMO_FIRST && code <= COMPAT_JAMO_LAST)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function composeHangul({ cho, jung, jong }: HangulSyllable): string {
+  return String.fromCharCode(HANGUL_BASE + cho * 588 + jung * 28 + jong);
+}
@@ -1,59 +1,30 @@
-interface RawSpotifyLine {
-  startTimeMs: string;
-  words: string;
-}
-
-interface RawSpotifyResponse {
-  lines: RawSpotifyLine[];
-}
+import { LyricLine, LyricsSourceInput } from "../lyrics/types";
+import { spotifyLyricsSource } from "../lyrics/spotify-source";
+import { lrcLyricsSource } from "../lyrics/lrc-source";
+import { textLyricsSource } from "../lyrics/text-source";
 
 class LyricsService {
-  public async fetchLyrics(trackId: string): Promise<RawSpotifyLine[]> {
-    const SPOTIFY_LYRIC_URL = process.env.SPOTIFY_LYRIC_URL;
-    if (!SPOTIFY_LYRIC_URL) {
-      console.error("[LyricsService] SPOTIFY_LYRIC_URL is not defined.");
-      throw new Error(
-        "SPOTIFY_LYRIC_URL is not defined in environment variables."
-      );
+  public async fetchLyrics(source: LyricsSourceInput): Promise<LyricLine[]> {
+    let lines: LyricLine[];
+    switch (source.type) {
+      case "spotify":
+        lines = await spotifyLyricsSource.load(source);
+        break;
+      case "lrc":
+        lines = await lrcLyricsSource.load(source);
+        break;
+      case "text":
+        lines = await textLyricsSource.load(source);
+        break;
     }
 
-    const url = new URL(SPOTIFY_LYRIC_URL);
-    url.pathname = "/";
-    url.searchParams.set("trackid", trackId);
-
-    try {
-      const response = await fetch(url.toString());
-
-      if (!response.ok) {
-        console.error(
-          `[LyricsService] API request failed with status: ${response.status} ${response.statusText}`
-        );
-        const errorBody = await response.text();
-        console.error(`[LyricsService] Error response body: ${errorBody}`);
-        throw new Error(`Failed to fetch lyrics: ${response.statusText}`);
-      }
-
-      const data = (await response.json()) as RawSpotifyResponse;
-
-      if (!data || !data.lines) {
-        console.warn(
-          `[LyricsService] API response OK, but 'lines' property is missing or invalid.`
-        );
-        console.log(
-          "[LyricsService] Received data:",
-          JSON.stringify(data, null, 2)
-        );
-        throw new Error("Invalid data structure received from lyrics API.");
-      }
-
-      return data.lines;
-    } catch (error) {
-      console.error(
-        `[LyricsService] An error occurred during fetch or JSON parsing:`,
-        error
-      );
-      throw error;
+    if (lines.length === 0) {
+      throw new Error(`No lyric lines found from "${source.type}" source.`);
     }
+    console.log(
+      `[LyricsService] Loaded ${lines.length} lines from "${source.type}" source.`
+    );
+    return lines;
   }
 }
 
@@ -0,0 +1,204 @@
+import { isHangulSyllable } from "./hangul";
+
+// 정규화 규칙 (값은 규칙 설명)
+export const NORMALIZATION_RULES = {
+  "unicode-nfc": "NFD로 분해된 한글 자모를 완성형 음절로 합침",
+  "zero-width": "제로폭 공백, 결합 제어 문자, BOM, soft hyphen 제거",
+  "full-width": "전각 영숫자·문장 부호와 CJK 문장 부호를 반각으로 변환",
+  emoji: "이모지와 이모지 변형 선택자 제거",
+  "music-symbols": "♪ ♫ 같은 음악 기호 제거",
+  "collapse-whitespace": "연속 공백을 하나로 합치고 양 끝 공백 제거",
+  "hangul-only": "한글 음절과 공백 외의 문자 제거",
+  "syllable-spacing": "한글 음절과 그 외 토큰을 공백으로 구분",
+} as const;
+export type NormalizationRule = keyof typeof NORMALIZATION_RULES;
+
+// 가사 처리(로마자, 번역, TTS 등) 전에 적용하는 기본 규칙
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = [
+  "unicode-nfc",
+  "zero-width",
+  "full-width",
+  "emoji",
+  "music-symbols",
+  "collapse-whitespace",
+];
+// 한글만 읽어야 하는 TTS 입력용
+export const TTS_NORMALIZATION_RULES: NormalizationRule[] = [
+  ...DEFAULT_NORMALIZATION_RULES,
+  "hangul-only",
+  "collapse-whitespace",
+];
+// Python 강제 정렬 입력용 ("(불장난) eh" → "( 불 장 난 ) eh")
+export const ALIGNER_NORMALIZATION_RULES: NormalizationRule[] = [
+  ...DEFAULT_NORMALIZATION_RULES,
+  "syllable-spacing",
+];
+
+export interface NormalizedText {
+  original: string;
+  text: string;
+  // text의 각 UTF-16 코드 유닛이 유래한 original의 인덱스 (text.length와 같은 길이)
+  offsets: number[];
+}
+
+// 원문 위치를 함께 들고 다니는 코드 포인트 단위 문자
+interface MappedChar {
+  char: string;
+  index: number;
+}
+
+type RuleTransform = (chars: MappedChar[]) => MappedChar[];
+
+const ZERO_WIDTH_CHARS = [
+  "\u200b",
+  "\u200c",
+  "\u200d",
+  "\u2060",
+  "\ufeff",
+  "\u00ad",
+];
+const MUSIC_SYMBOLS = ["♩", "♪", "♫", "♬", "🎵", "🎶", "🎼"];
+// prettier-ignore
+const CJK_PUNCTUATION: Record<string, string> = {
+  "\u3000": " ", "、": ",", "。": ".", "「": "\"", "」": "\"", "『": "\"", "』": "\"",
+  "〈": "<", "〉": ">", "《": "<", "》": ">", "【": "[", "】": "]", "〔": "(", "〕": ")",
+  "“": "\"", "”": "\"", "‘": "'", "’": "'", "…": "...", "～": "~", "・": "·",
+};
+const FULL_WIDTH_START = 0xff01;
+const FULL_WIDTH_END = 0xff5e;
+const FULL_WIDTH_OFFSET = 0xfee0;
+
+function isEmoji(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  return (
+    (code >= 0x1f000 && code <= 0x1faff) || // 이모티콘, 그림 문자, 확장 기호
+    (code >= 0x2600 && code <= 0x27bf) || // 기타 기호, 딩뱃
+    (code >= 0x1f1e6 && code <= 0x1f1ff) || // 국기 문자
+    code === 0xfe0f || // 이모지 변형 선택자
+    (code >= 0x1f3fb && code <= 0x1f3ff) // 피부색 수정자
+  );
+}
+
+const RULE_TRANSFORMS: Record<NormalizationRule, RuleTransform> = {
+  // 뒤따르는 문자가 앞 문자와 합쳐지는 동안 한 덩어리로 보고 NFC로 합침 (원문 위치는 덩어리의 시작)
+  "unicode-nfc": (chars) => {
+    const result: MappedChar[] = [];
+    let idx = 0;
+    while (idx < chars.length) {
+      let cluster = chars[idx].char;
+      let end = idx + 1;
+      while (
+        end < chars.length &&
+        (cluster + chars[end].char).normalize("NFC").length <=
+          cluster.normalize("NFC").length
+      ) {
+        cluster += chars[end].char;
+        end++;
+      }
+      for (const char of Array.from(cluster.normalize("NFC"))) {
+        result.push({ char, index: chars[idx].index });
+      }
+      idx = end;
+    }
+    return result;
+  },
+  "zero-width": (chars) =>
+    chars.filter(({ char }) => !ZERO_WIDTH_CHARS.includes(char)),
+  "full-width": (chars) =>
+    chars.flatMap(({ char, index }) => {
+      const code = char.charCodeAt(0);
+      const converted =
+        code >= FULL_WIDTH_START && code <= FULL_WIDTH_END
+          ? String.fromCharCode(code - FULL_WIDTH_OFFSET)
+          : (CJK_PUNCTUATION[char] ?? char);
+      return Array.from(converted).map((c) => ({ char: c, index }));
+    }),
+  emoji: (chars) => chars.filter(({ char }) => !isEmoji(char)),
+  "music-symbols": (chars) =>
+    chars.filter(({ char }) => !MUSIC_SYMBOLS.includes(char)),
+  "collapse-whitespace": (chars) => {
+    const result: MappedChar[] = [];
+    for (const mapped of chars) {
+      const isSpace = /\s/.test(mapped.char);
+      if (
+        isSpace &&
+        (result.length === 0 || result[result.length - 1].char === " ")
+      ) {
+        continue;
+      }
+      result.push(isSpace ? { char: " ", index: mapped.index } : mapped);
+    }
+    if (result.length > 0 && result[result.length - 1].char === " ") {
+      result.pop();
+    }
+    return result;
+  },
+  "hangul-only": (chars) =>
+    chars.filter(({ char }) => char === " " || isHangulSyllable(char)),
+  // 한글은 음절마다, 그 외 문자는 연속된 덩어리마다 공백으로 구분
+  "syllable-spacing": (chars) => {
+    const result: MappedChar[] = [];
+    let prevIsToken = false;
+    let prevIsHangul = false;
+    for (const mapped of chars) {
+      if (/\s/.test(mapped.char)) {
+        prevIsToken = false;
+        continue;
+      }
+      const isHangul = isHangulSyllable(mapped.char);
+      const startsToken = !prevIsToken || isHangul || prevIsHangul;
+      if (startsToken && result.length > 0) {
+        result.push({ char: " ", index: mapped.index });
+      }
+      result.push(mapped);
+      prevIsToken = true;
+      prevIsHangul = isHangul;
+    }
+    return result;
+  },
+};
+
+class NormalizeService {
+  /**
+   * 규칙을 순서대로 적용한 정규화 텍스트와, 정규화 텍스트의 각 위치에서 원문 위치로의 매핑을 반환합니다.
+   */
+  public normalize(
+    text: string,
+    rules: readonly NormalizationRule[] = DEFAULT_NORMALIZATION_RULES
+  ): NormalizedText {
+    let chars: MappedChar[] = [];
+    let index = 0;
+    for (const char of Array.from(text)) {
+      chars.push({ char, index });
+      index += char.length;
+    }
+
+    for (const rule of rules) {
+      chars = RULE_TRANSFORMS[rule](chars);
+    }
+
+    const offsets: number[] = [];
+    for (const { char, index } of chars) {
+      for (let unit = 0; unit < char.length; unit++) {
+        offsets.push(index);
+      }
+    }
+    return {
+      original: text,
+      text: chars.map(({ char }) => char).join(""),
+      offsets,
+    };
+  }
+
+  /**
+   * 정규화 텍스트 내 위치를 원문 위치로 바꿉니다. 정규화 텍스트 끝은 원문 끝으로 대응됩니다.
+   */
+  public toOriginalIndex(normalized: NormalizedText, index: number): number {
+    if (index >= normalized.offsets.length) {
+      return normalized.original.length;
+    }
+    return normalized.offsets[Math.max(0, index)];
+  }
+}
+
+export const normalizeService = new NormalizeService();
@@ -0,0 +1,166 @@
+import { standardizePronunciation } from "es-hangul";
+import { HangulSyllable, CHO, JUNG, JONG, decomposeHangul } from "./hangul";
+
+export const PHONOLOGY_RULES = {
+  liaison: "연음",
+  nasalization: "비음화",
+  lateralization: "유음화",
+  tensification: "경음화",
+  palatalization: "구개음화",
+  aspiration: "격음화",
+  "h-deletion": "ㅎ 탈락",
+  "coda-neutralization": "음절의 끝소리 규칙",
+} as const;
+export type PhonologyRuleName = keyof typeof PHONOLOGY_RULES;
+
+export interface PhonologyAnnotation {
+  rule: PhonologyRuleName;
+  label: string;
+  charIndexes: number[]; // 원문 내 영향을 받는 음절 위치
+  written: string;
+  spoken: string;
+}
+
+export interface PhonologyAnalysis {
+  pronounced: string;
+  pronouncedChars: string[]; // 원문과 같은 길이, 음절별 실제 발음
+  annotations: PhonologyAnnotation[];
+}
+
+// 받침의 대표음 (음절의 끝소리 규칙 적용 결과)
+// prettier-ignore
+const NEUTRALIZED_JONG = [0, 1, 1, 1, 4, 4, 4, 7, 8, 1, 16, 8, 8, 8, 17, 8, 16, 17, 17, 7, 7, 21, 7, 7, 1, 7, 17, 7];
+const NASAL_JONG = [JONG.NIEUN, JONG.MIEUM, JONG.IEUNG];
+const TENSE_CHO = [
+  CHO.SSANGGIYEOK,
+  CHO.SSANGDIGEUT,
+  CHO.SSANGBIEUP,
+  CHO.SSANGSIOS,
+  CHO.SSANGJIEUT,
+];
+const ASPIRATED_CHO = [CHO.KIEUK, CHO.TIEUT, CHO.PIEUP, CHO.CHIEUCH];
+const PALATALIZED_JONG = [JONG.DIGEUT, JONG.TIEUT, JONG.RIEUL_TIEUT];
+const HIEUH_JONG = [JONG.HIEUH, JONG.NIEUN_HIEUH, JONG.RIEUL_HIEUH];
+
+class PhonologyService {
+  /**
+   * 표준 발음과 원문을 음절 단위로 비교해 적용된 음운 규칙과 위치를 찾습니다.
+   * 발음 변환 결과의 길이가 원문과 다르면 규칙 없이 원문을 그대로 발음으로 사용합니다.
+   */
+  public analyze(text: string): PhonologyAnalysis {
+    const pronounced = standardizePronunciation(text);
+    if (pronounced.length !== text.length) {
+      console.warn(
+        `[Phonology] Pronunciation length mismatch, skipping: "${text}"`
+      );
+      return { pronounced, pronouncedChars: text.split(""), annotations: [] };
+    }
+
+    const writtenChars = text.split("");
+    const pronouncedChars = pronounced.split("");
+    const annotations: PhonologyAnnotation[] = [];
+    const annotate = (rule: PhonologyRuleName, charIndexes: number[]) => {
+      annotations.push({
+        rule,
+        label: PHONOLOGY_RULES[rule],
+        charIndexes,
+        written: charIndexes.map((idx) => writtenChars[idx]).join(""),
+        spoken: charIndexes.map((idx) => pronouncedChars[idx]).join(""),
+      });
+    };
+
+    for (let idx = 0; idx < writtenChars.length; idx++) {
+      const written = decomposeHangul(writtenChars[idx]);
+      const spoken = decomposeHangul(pronouncedChars[idx]);
+      if (!written || !spoken) continue;
+
+      const nextWritten = decomposeHangul(writtenChars[idx + 1] || "");
+      const nextSpoken = decomposeHangul(pronouncedChars[idx + 1] || "");
+      const rules =
+        nextWritten && nextSpoken
+          ? this.detectBoundaryRules(written, spoken, nextWritten, nextSpoken)
+          : [];
+      rules.forEach((rule) => annotate(rule, [idx, idx + 1]));
+
+      // 다음 음절과의 관계로 설명되지 않는 받침 변화 (자음군 단순화 포함)
+      const explainsCoda = rules.some((rule) => rule !== "tensification");
+      if (!explainsCoda && written.jong !== spoken.jong) {
+        annotate("coda-neutralization", [idx]);
+      }
+    }
+
+    return { pronounced, pronouncedChars, annotations };
+  }
+
+  private detectBoundaryRules(
+    written: HangulSyllable,
+    spoken: HangulSyllable,
+    nextWritten: HangulSyllable,
+    nextSpoken: HangulSyllable
+  ): PhonologyRuleName[] {
+    const rules: PhonologyRuleName[] = [];
+    // 연음으로 받침이 넘어간 경우(있어 → 이써)는 초성 변화로 보지 않음
+    const nextChoChanged =
+      nextWritten.cho !== CHO.IEUNG && nextWritten.cho !== nextSpoken.cho;
+
+    // ㄷ, ㅌ 받침 + 이/히 → 지, 치
+    const palatalized =
+      PALATALIZED_JONG.includes(written.jong) &&
+      (nextWritten.cho === CHO.IEUNG || nextWritten.cho === CHO.HIEUH) &&
+      nextWritten.jung === JUNG.I &&
+      (nextSpoken.cho === CHO.JIEUT || nextSpoken.cho === CHO.CHIEUCH);
+    if (palatalized) {
+      rules.push("palatalization");
+      return rules;
+    }
+
+    // ㅎ 받침 + 모음 → ㅎ 탈락 (좋아 → 조아)
+    if (
+      HIEUH_JONG.includes(written.jong) &&
+      nextWritten.cho === CHO.IEUNG &&
+      !HIEUH_JONG.includes(spoken.jong)
+    ) {
+      rules.push("h-deletion");
+    }
+
+    // ㅎ과 평음이 만나 거센소리 (축하 → 추카, 좋다 → 조타)
+    if (nextChoChanged && ASPIRATED_CHO.includes(nextSpoken.cho)) {
+      rules.push("aspiration");
+    }
+
+    // 받침이 다음 음절 초성으로 넘어감 (먹어 → 머거)
+    if (
+      written.jong !== JONG.NONE &&
+      nextWritten.cho === CHO.IEUNG &&
+      nextSpoken.cho !== CHO.IEUNG
+    ) {
+      rules.push("liaison");
+    }
+
+    // 장애음 받침이 비음 앞에서 비음으로 (국물 → 궁물), ㄹ이 ㄴ으로 (종로 → 종노)
+    if (
+      (NASAL_JONG.includes(spoken.jong) &&
+        !NASAL_JONG.includes(NEUTRALIZED_JONG[written.jong])) ||
+      (nextWritten.cho === CHO.RIEUL && nextSpoken.cho === CHO.NIEUN)
+    ) {
+      rules.push("nasalization");
+    }
+
+    // ㄴ이 ㄹ 앞뒤에서 ㄹ로 (신라 → 실라, 칼날 → 칼랄)
+    if (
+      (written.jong === JONG.NIEUN && spoken.jong === JONG.RIEUL) ||
+      (nextWritten.cho === CHO.NIEUN && nextSpoken.cho === CHO.RIEUL)
+    ) {
+      rules.push("lateralization");
+    }
+
+    // 평음이 된소리로 (읽다 → 익따)
+    if (nextChoChanged && TENSE_CHO.includes(nextSpoken.cho)) {
+      rules.push("tensification");
+    }
+
+    return rules;
+  }
+}
+
+export const phonologyService = new PhonologyService();
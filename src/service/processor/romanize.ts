@@ -1,12 +1,157 @@
-import { romanize } from "es-hangul";
+import { romanize, standardizePronunciation } from "es-hangul";
+import { HangulSyllable, CHO, JUNG, JONG, decomposeHangul } from "./hangul";
+
+// rr-spelling: 표기 기준 국어의 로마자 표기법 (전자법)
+// rr-pronounced: 표준 발음(연음, 비음화 등 적용) 기준 국어의 로마자 표기법
+// mccune-reischauer: 발음 기준 매큔-라이샤워 표기법
+// yale: 표기 기준 예일 표기법 (언어학용)
+export const ROMANIZATION_SYSTEMS = [
+  "rr-spelling",
+  "rr-pronounced",
+  "mccune-reischauer",
+  "yale",
+] as const;
+export type RomanizationSystem = (typeof ROMANIZATION_SYSTEMS)[number];
+// 기존 결과(es-hangul romanize)와 동일한 방식
+export const DEFAULT_ROMANIZATION_SYSTEM: RomanizationSystem = "rr-pronounced";
+
+// prettier-ignore
+const RR_CHO = ["g", "kk", "n", "d", "tt", "l", "m", "b", "pp", "s", "ss", "", "j", "jj", "ch", "k", "t", "p", "h"];
+// prettier-ignore
+const RR_JUNG = ["a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae", "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i"];
+// prettier-ignore
+const RR_JONG_SPELLING = ["", "g", "kk", "gs", "n", "nj", "nh", "d", "l", "lg", "lm", "lb", "ls", "lt", "lp", "lh", "m", "b", "bs", "s", "ss", "ng", "j", "ch", "k", "t", "p", "h"];
+
+// prettier-ignore
+const MR_CHO = ["k", "kk", "n", "t", "tt", "r", "m", "p", "pp", "s", "ss", "", "ch", "tch", "ch'", "k'", "t'", "p'", "h"];
+const MR_CHO_VOICED: Record<number, string> = {
+  [CHO.GIYEOK]: "g",
+  [CHO.DIGEUT]: "d",
+  [CHO.BIEUP]: "b",
+  [CHO.JIEUT]: "j",
+};
+// prettier-ignore
+const MR_JUNG = ["a", "ae", "ya", "yae", "ŏ", "e", "yŏ", "ye", "o", "wa", "wae", "oe", "yo", "u", "wŏ", "we", "wi", "yu", "ŭ", "ŭi", "i"];
+// 받침은 대표음으로 표기
+// prettier-ignore
+const MR_JONG = ["", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l", "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t"];
+// 유성음(모음, ㄴ ㄹ ㅁ ㅇ) 뒤의 평음은 유성음으로 표기
+const MR_VOICED_JONG = [0, JONG.NIEUN, JONG.RIEUL, JONG.MIEUM, JONG.IEUNG];
+
+// prettier-ignore
+const YALE_CHO = ["k", "kk", "n", "t", "tt", "l", "m", "p", "pp", "s", "ss", "", "c", "cc", "ch", "kh", "th", "ph", "h"];
+// prettier-ignore
+const YALE_JUNG = ["a", "ay", "ya", "yay", "e", "ey", "ye", "yey", "o", "wa", "way", "oy", "yo", "wu", "we", "wey", "wi", "yu", "u", "uy", "i"];
+// prettier-ignore
+const YALE_JONG = ["", "k", "kk", "ks", "n", "nc", "nh", "t", "l", "lk", "lm", "lp", "ls", "lth", "lph", "lh", "m", "p", "ps", "s", "ss", "ng", "c", "ch", "kh", "th", "ph", "h"];
+// 양순음 뒤의 ㅜ는 w를 생략
+const YALE_LABIAL_CHO = [CHO.MIEUM, CHO.BIEUP, CHO.SSANGBIEUP, CHO.PIEUP];
+
+type SyllableRomanizer = (
+  syllable: HangulSyllable,
+  prev: HangulSyllable | null, // 같은 어절의 직전 음절
+  next: HangulSyllable | null // 같은 어절의 다음 음절
+) => string;
 
 class RomanizeService {
-  public convert(text: string) {
+  public convert(
+    text: string,
+    system: RomanizationSystem = DEFAULT_ROMANIZATION_SYSTEM,
+    pronounced?: string
+  ) {
     if (!text) {
       return "";
     }
-    return romanize(text);
+
+    switch (system) {
+      case "rr-spelling":
+        return this.transcribe(text, this.rrSpelling);
+      case "rr-pronounced":
+        return romanize(pronounced ?? this.pronounce(text));
+      case "mccune-reischauer":
+        return this.transcribe(pronounced ?? this.pronounce(text), this.mcCune);
+      case "yale":
+        return this.transcribe(text, this.yale);
+    }
+  }
+
+  /**
+   * 요청된 표기법별 로마자 표기를 반환합니다.
+   * pronounced를 넘기면 (예: 소절 문맥에서 구한 음절 발음) 발음 기준 표기법에 그대로 사용합니다.
+   */
+  public convertAll(
+    text: string,
+    systems: readonly RomanizationSystem[],
+    pronounced?: string
+  ): Partial<Record<RomanizationSystem, string>> {
+    const result: Partial<Record<RomanizationSystem, string>> = {};
+    for (const system of systems) {
+      result[system] = this.convert(text, system, pronounced);
+    }
+    return result;
   }
+
+  /**
+   * 표준 발음으로 변환합니다. 로마자 표기법은 된소리되기를 표기하지 않으므로 hardConversion은 끔
+   */
+  public pronounce(text: string): string {
+    return standardizePronunciation(text, { hardConversion: false });
+  }
+
+  private transcribe(text: string, romanizer: SyllableRomanizer): string {
+    const chars = text.split("");
+    const syllables = chars.map((char) => decomposeHangul(char));
+    return chars
+      .map((char, idx) => {
+        const syllable = syllables[idx];
+        if (!syllable) return char;
+        return romanizer(
+          syllable,
+          idx > 0 ? syllables[idx - 1] : null,
+          idx + 1 < syllables.length ? syllables[idx + 1] : null
+        );
+      })
+      .join("");
+  }
+
+  // 전자법이므로 ㄹ은 위치와 관계없이 l로 표기
+  private rrSpelling: SyllableRomanizer = (syllable) =>
+    RR_CHO[syllable.cho] +
+    RR_JUNG[syllable.jung] +
+    RR_JONG_SPELLING[syllable.jong];
+
+  private mcCune: SyllableRomanizer = (syllable, prev, next) => {
+    let cho = MR_CHO[syllable.cho];
+    if (
+      prev &&
+      MR_VOICED_JONG.includes(prev.jong) &&
+      MR_CHO_VOICED[syllable.cho]
+    ) {
+      cho = MR_CHO_VOICED[syllable.cho];
+    } else if (syllable.cho === CHO.RIEUL && prev?.jong === JONG.RIEUL) {
+      cho = "l";
+    } else if (
+      syllable.cho === CHO.SIOS &&
+      (syllable.jung === JUNG.I || syllable.jung === JUNG.WI)
+    ) {
+      cho = "sh";
+    }
+
+    let jong = MR_JONG[syllable.jong];
+    // "ng"와 구분하기 위해 ㄴ 받침 + ㄱ 초성은 n'g로 표기
+    if (syllable.jong === JONG.NIEUN && next?.cho === CHO.GIYEOK) {
+      jong = "n'";
+    }
+    return cho + MR_JUNG[syllable.jung] + jong;
+  };
+
+  private yale: SyllableRomanizer = (syllable) => {
+    const jung =
+      syllable.jung === JUNG.U && YALE_LABIAL_CHO.includes(syllable.cho)
+        ? "u"
+        : YALE_JUNG[syllable.jung];
+    return YALE_CHO[syllable.cho] + jung + YALE_JONG[syllable.jong];
+  };
 }
 
 export const romanizeService = new RomanizeService();
@@ -0,0 +1,309 @@
+import { isAlphanumericOrHangul } from "./hangul";
+
+export const SECTION_LABELS = [
+  "intro",
+  "verse",
+  "pre-chorus",
+  "chorus",
+  "post-chorus",
+  "refrain",
+  "bridge",
+  "outro",
+] as const;
+export type SectionLabel = (typeof SECTION_LABELS)[number];
+
+export interface StructureLineInput {
+  text: string;
+  startTimeMs: string;
+}
+
+export interface SongSection {
+  sectionIndex: number;
+  label: SectionLabel;
+  labelNumber: number; // 같은 label 내 순번 (verse 1, verse 2)
+  groupIndex: number; // 같은 가사가 반복되는 섹션끼리 공유
+  occurrence: number; // 그룹 내 몇 번째 등장인지 (1부터)
+  repeatOf: number | null; // 첫 등장 섹션의 sectionIndex (첫 등장이면 null)
+  startLineIndex: number;
+  endLineIndex: number; // 포함
+  startTime: string;
+}
+
+export interface SongStructure {
+  sections: SongSection[];
+  lineSectionIndexes: number[]; // 소절별 sectionIndex
+}
+
+interface RepeatedGroup {
+  length: number;
+  starts: number[];
+}
+
+interface SectionDraft {
+  start: number;
+  end: number; // 포함
+  groupIndex: number;
+  repeated: boolean;
+}
+
+// 반복으로 인정하는 최소/최대 연속 소절 수
+const MIN_REPEAT_LINES = 2;
+const MAX_REPEAT_LINES = 16;
+// 소절 간격이 중앙값의 배수 이상이고 최소 간격 이상이면 섹션 경계로 봄 (간주 등)
+const GAP_MEDIAN_FACTOR = 2;
+const MIN_SECTION_GAP_MS = 5000;
+
+class StructureService {
+  /**
+   * 가사 반복과 소절 간 시간 간격으로 노래를 섹션으로 나누고, 반복되는 섹션끼리 묶어 label을 붙입니다.
+   * 가장 많이(소절 수 × 반복 횟수) 반복되는 묶음을 후렴(chorus)으로 봅니다.
+   */
+  public analyze(lines: StructureLineInput[]): SongStructure {
+    if (lines.length === 0) {
+      return { sections: [], lineSectionIndexes: [] };
+    }
+
+    const keys = lines.map((line) => this.toKey(line.text));
+    const boundaries = this.findGapBoundaries(lines);
+    const { groupIndexes, groups } = this.findRepeatedGroups(keys, boundaries);
+    const drafts = this.buildDrafts(groupIndexes, groups, boundaries);
+    const sections = this.label(drafts, lines);
+
+    const lineSectionIndexes: number[] = [];
+    for (const section of sections) {
+      for (
+        let idx = section.startLineIndex;
+        idx <= section.endLineIndex;
+        idx++
+      ) {
+        lineSectionIndexes[idx] = section.sectionIndex;
+      }
+    }
+    console.log(
+      `[Structure] ${sections.length} sections: ${sections
+        .map((section) => `${section.label} ${section.labelNumber}`)
+        .join(", ")}`
+    );
+    return { sections, lineSectionIndexes };
+  }
+
+  // 대소문자, 공백, 문장 부호 차이는 같은 가사로 봄
+  private toKey(text: string): string {
+    return Array.from(text.toLowerCase())
+      .filter(isAlphanumericOrHangul)
+      .join("");
+  }
+
+  // boundaries[idx]가 true이면 idx번째 소절 앞에서 섹션이 나뉨
+  private findGapBoundaries(lines: StructureLineInput[]): boolean[] {
+    const times = lines.map((line) => Number(line.startTimeMs));
+    const gaps = times
+      .slice(1)
+      .map((time, idx) => time - times[idx])
+      .filter((gap) => Number.isFinite(gap) && gap > 0)
+      .sort((a, b) => a - b);
+    if (gaps.length === 0) {
+      // 타이밍 정보가 없는 가사 (모두 "0")
+      return lines.map(() => false);
+    }
+
+    const median = gaps[Math.floor(gaps.length / 2)];
+    const threshold = Math.max(median * GAP_MEDIAN_FACTOR, MIN_SECTION_GAP_MS);
+    return times.map(
+      (time, idx) => idx > 0 && time - times[idx - 1] >= threshold
+    );
+  }
+
+  /**
+   * 긴 반복부터 찾아 소절별 그룹 번호를 매깁니다. (반복되지 않는 소절은 -1)
+   * 반복 구간은 섹션 경계(시간 간격)를 넘지 않고, 서로 겹치지 않습니다.
+   */
+  private findRepeatedGroups(
+    keys: string[],
+    boundaries: boolean[]
+  ): { groupIndexes: number[]; groups: RepeatedGroup[] } {
+    const groupIndexes = keys.map(() => -1);
+    const groups: RepeatedGroup[] = [];
+    const maxLength = Math.min(MAX_REPEAT_LINES, Math.floor(keys.length / 2));
+
+    for (let length = maxLength; length >= MIN_REPEAT_LINES; length--) {
+      const runs = new Map<string, number[]>();
+      for (let start = 0; start + length <= keys.length; start++) {
+        if (!this.isFreeRun(start, length, keys, groupIndexes, boundaries)) {
+          continue;
+        }
+        const signature = keys.slice(start, start + length).join("\n");
+        runs.set(signature, [...(runs.get(signature) || []), start]);
+      }
+
+      for (const starts of runs.values()) {
+        // 겹치지 않는 등장만 사용
+        const picked: number[] = [];
+        for (const start of starts) {
+          const last = picked[picked.length - 1];
+          if (
+            (last === undefined || start >= last + length) &&
+            this.isFreeRun(start, length, keys, groupIndexes, boundaries)
+          ) {
+            picked.push(start);
+          }
+        }
+        if (picked.length < 2) continue;
+
+        const groupIndex = groups.length;
+        groups.push({ length, starts: picked });
+        for (const start of picked) {
+          groupIndexes.fill(groupIndex, start, start + length);
+        }
+      }
+    }
+    return { groupIndexes, groups };
+  }
+
+  private isFreeRun(
+    start: number,
+    length: number,
+    keys: string[],
+    groupIndexes: number[],
+    boundaries: boolean[]
+  ): boolean {
+    for (let idx = start; idx < start + length; idx++) {
+      if (!keys[idx] || groupIndexes[idx] !== -1) return false;
+      if (idx > start && boundaries[idx]) return false;
+    }
+    return true;
+  }
+
+  private buildDrafts(
+    groupIndexes: number[],
+    groups: RepeatedGroup[],
+    boundaries: boolean[]
+  ): SectionDraft[] {
+    const drafts: SectionDraft[] = [];
+    let nextUniqueGroup = groups.length;
+    let idx = 0;
+    while (idx < groupIndexes.length) {
+      const groupIndex = groupIndexes[idx];
+      let end = idx;
+      if (groupIndex !== -1) {
+        // 같은 그룹이 연달아 반복되는 경우(후렴 2번)에도 등장마다 섹션을 나눔
+        end = idx + groups[groupIndex].length - 1;
+      } else {
+        while (
+          end + 1 < groupIndexes.length &&
+          groupIndexes[end + 1] === -1 &&
+          !boundaries[end + 1]
+        ) {
+          end++;
+        }
+      }
+
+      drafts.push({
+        start: idx,
+        end,
+        groupIndex: groupIndex !== -1 ? groupIndex : nextUniqueGroup++,
+        repeated: groupIndex !== -1,
+      });
+      idx = end + 1;
+    }
+    return drafts;
+  }
+
+  private label(
+    drafts: SectionDraft[],
+    lines: StructureLineInput[]
+  ): SongSection[] {
+    const chorusGroup = this.pickChorusGroup(drafts);
+    const isChorus = (draft?: SectionDraft) =>
+      draft !== undefined && draft.groupIndex === chorusGroup;
+    const chorusPositions = drafts
+      .map((draft, idx) => (isChorus(draft) ? idx : -1))
+      .filter((idx) => idx !== -1);
+    const firstRepeated = drafts.findIndex((draft) => draft.repeated);
+    const lastRepeated =
+      drafts.length -
+      1 -
+      [...drafts].reverse().findIndex((draft) => draft.repeated);
+
+    const labels = drafts.map((draft, idx): SectionLabel => {
+      if (isChorus(draft)) return "chorus";
+      if (draft.repeated) {
+        const positions = drafts
+          .map((other, otherIdx) =>
+            other.groupIndex === draft.groupIndex ? otherIdx : -1
+          )
+          .filter((otherIdx) => otherIdx !== -1);
+        if (positions.every((pos) => isChorus(drafts[pos + 1])))
+          return "pre-chorus";
+        if (positions.every((pos) => isChorus(drafts[pos - 1])))
+          return "post-chorus";
+        return "refrain";
+      }
+      if (firstRepeated === -1) return "verse";
+      if (idx === 0 && drafts.length > 1 && draft.end - draft.start + 1 <= 2) {
+        return "intro";
+      }
+      if (idx > lastRepeated && idx === drafts.length - 1) return "outro";
+      // 후렴이 두 번 이상 나온 뒤, 다시 후렴으로 돌아가기 전의 새 가사
+      const choruses = chorusPositions.filter((pos) => pos < idx).length;
+      const chorusAfter = chorusPositions.some((pos) => pos > idx);
+      if (choruses >= 2 && chorusAfter) return "bridge";
+      return "verse";
+    });
+
+    const labelCounts = new Map<string, number>();
+    const groupFirstSection = new Map<number, number>();
+    const groupOccurrences = new Map<number, number>();
+    const groupLabelNumbers = new Map<number, number>();
+    return drafts.map((draft, sectionIndex) => {
+      const label = labels[sectionIndex];
+      const occurrence = (groupOccurrences.get(draft.groupIndex) || 0) + 1;
+      groupOccurrences.set(draft.groupIndex, occurrence);
+
+      let labelNumber = groupLabelNumbers.get(draft.groupIndex);
+      if (labelNumber === undefined) {
+        labelNumber = (labelCounts.get(label) || 0) + 1;
+        labelCounts.set(label, labelNumber);
+        groupLabelNumbers.set(draft.groupIndex, labelNumber);
+      }
+      if (!groupFirstSection.has(draft.groupIndex)) {
+        groupFirstSection.set(draft.groupIndex, sectionIndex);
+      }
+      const firstSection = groupFirstSection.get(draft.groupIndex)!;
+
+      return {
+        sectionIndex,
+        label,
+        labelNumber,
+        groupIndex: draft.groupIndex,
+        occurrence,
+        repeatOf: firstSection === sectionIndex ? null : firstSection,
+        startLineIndex: draft.start,
+        endLineIndex: draft.end,
+        startTime: lines[draft.start].startTimeMs,
+      };
+    });
+  }
+
+  private pickChorusGroup(drafts: SectionDraft[]): number | null {
+    const scores = new Map<number, number>();
+    for (const draft of drafts) {
+      if (!draft.repeated) continue;
+      const lineCount = draft.end - draft.start + 1;
+      scores.set(
+        draft.groupIndex,
+        (scores.get(draft.groupIndex) || 0) + lineCount
+      );
+    }
+
+    let best: number | null = null;
+    for (const [groupIndex, score] of scores) {
+      if (best === null || score > scores.get(best)!) {
+        best = groupIndex;
+      }
+    }
+    return best;
+  }
+}
+
+export const structureService = new StructureService();
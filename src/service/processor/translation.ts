@@ -1,8 +1,41 @@
 import * as deepl from "deepl-node";
+import { resilienceService } from "../resilience/resilience";
+import { glossaryService } from "../glossary/glossary";
+import { hasHangul } from "./hangul";
+
+// 콘텐츠 생성 요청에서 선택할 수 있는 번역 대상 언어 (DeepL target language code)
+export const TRANSLATION_TARGET_LANGS = [
+  "en-US",
+  "en-GB",
+  "ja",
+  "es",
+  "id",
+  "vi",
+  "zh-HANS",
+  "zh-HANT",
+  "pt-BR",
+  "fr",
+  "de",
+] as const satisfies readonly deepl.TargetLanguageCode[];
+export type TranslationTargetLang = (typeof TRANSLATION_TARGET_LANGS)[number];
+export const DEFAULT_TARGET_LANG: TranslationTargetLang = "en-US";
+
+export interface TranslationContext {
+  // 지정하면 해당 노래 전용 용어집 항목도 함께 적용
+  songId?: number;
+}
+
+// 보호 용어를 감싸는 태그 (DeepL ignore_tags로 번역에서 제외)
+const PROTECTED_TAG = "keep";
+
+interface PreparedTranslation {
+  options: deepl.TranslateTextOptions;
+  protect: (text: string) => string;
+  restore: (text: string) => string;
+}
 
 class TranslationService {
   private client: deepl.Translator;
-  private readonly DEFAULT_TARGET_LANG: deepl.TargetLanguageCode = "en-US";
   private readonly SOURCE_LANG: deepl.SourceLanguageCode = "ko";
 
   constructor() {
@@ -13,17 +46,19 @@ class TranslationService {
       );
     }
 
-    this.client = new deepl.Translator(authKey);
+    // 재시도는 resilienceService가 담당하므로 SDK 자체 재시도는 끔
+    this.client = new deepl.Translator(authKey, { maxRetries: 0 });
   }
 
   public async translateText(
     text: string,
-    targetLang: deepl.TargetLanguageCode = this.DEFAULT_TARGET_LANG
+    targetLang: deepl.TargetLanguageCode = DEFAULT_TARGET_LANG,
+    context: TranslationContext = {}
   ): Promise<string> {
     if (!text) return "";
 
     const trimmedText = text.trim();
-    if (!this.hasKorean(trimmedText)) {
+    if (!hasHangul(trimmedText)) {
       console.warn(
         `[TranslationService] 한글이 포함되지 않은 텍스트는 번역하지 않습니다: "${trimmedText}"`
       );
@@ -31,12 +66,19 @@ class TranslationService {
     }
 
     try {
-      const result = await this.client.translateText(
-        trimmedText,
-        this.SOURCE_LANG,
-        targetLang
+      const prepared = await this.prepare(targetLang, context);
+      const result = await resilienceService.execute(
+        "deepl",
+        "translateText",
+        () =>
+          this.client.translateText(
+            prepared.protect(trimmedText),
+            this.SOURCE_LANG,
+            targetLang,
+            prepared.options
+          )
       );
-      return result.text;
+      return prepared.restore(result.text);
     } catch (error) {
       console.error("[TranslationService] Text translation error:", error);
       if (error instanceof Error) {
@@ -50,26 +92,34 @@ class TranslationService {
 
   public async translateBatch(
     texts: string[],
-    targetLang: deepl.TargetLanguageCode = this.DEFAULT_TARGET_LANG
+    targetLang: deepl.TargetLanguageCode = DEFAULT_TARGET_LANG,
+    context: TranslationContext = {}
   ): Promise<string[]> {
     const uniqueLyricsSet = new Set(texts);
     const lyricsToTranslate = [...uniqueLyricsSet]
       .filter((text) => text.trim() !== "")
-      .filter((text) => this.hasKorean(text));
+      .filter(hasHangul);
 
     const translationMap = new Map<string, string>();
 
     try {
-      const results = await this.client.translateText(
-        lyricsToTranslate,
-        this.SOURCE_LANG,
-        targetLang
+      const prepared = await this.prepare(targetLang, context);
+      const results = await resilienceService.execute(
+        "deepl",
+        "translateBatch",
+        () =>
+          this.client.translateText(
+            lyricsToTranslate.map(prepared.protect),
+            this.SOURCE_LANG,
+            targetLang,
+            prepared.options
+          )
       );
       console.log(
         `실제 라인 수: ${texts.length}, 번역된 라인 수: ${results.length}`
       );
       lyricsToTranslate.forEach((originalText, index) => {
-        translationMap.set(originalText, results[index].text);
+        translationMap.set(originalText, prepared.restore(results[index].text));
       });
       return texts.map((text) => translationMap.get(text) || text);
     } catch (error) {
@@ -83,9 +133,77 @@ class TranslationService {
     }
   }
 
-  private hasKorean(text: string): boolean {
-    const HANGUL_REGEX = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/;
-    return HANGUL_REGEX.test(text);
+  /**
+   * 용어집과 보호 용어를 번역 옵션에 반영합니다.
+   * 보호 용어가 있으면 XML 태그 처리 모드로 전환하므로 모든 텍스트를 이스케이프합니다.
+   */
+  private async prepare(
+    targetLang: deepl.TargetLanguageCode,
+    context: TranslationContext
+  ): Promise<PreparedTranslation> {
+    const identity = (text: string) => text;
+    let resolved;
+    try {
+      resolved = await glossaryService.resolve(targetLang, context.songId);
+    } catch (error) {
+      // 용어집 장애로 번역 전체가 실패하지 않도록 용어집 없이 진행
+      console.warn(
+        `[TranslationService] Failed to resolve glossary for ${targetLang}. Translating without it.`,
+        error
+      );
+      return { options: {}, protect: identity, restore: identity };
+    }
+
+    const options: deepl.TranslateTextOptions = {};
+    if (resolved.glossaryId) {
+      options.glossary = resolved.glossaryId;
+    }
+    if (resolved.protectedTerms.length === 0) {
+      return { options, protect: identity, restore: identity };
+    }
+
+    options.tagHandling = "xml";
+    options.ignoreTags = [PROTECTED_TAG];
+    // 긴 용어를 먼저 매칭해 겹치는 용어가 부분적으로 감싸지지 않도록 함
+    const pattern = new RegExp(
+      [...resolved.protectedTerms]
+        .sort((a, b) => b.length - a.length)
+        .map((term) => this.escapeRegExp(this.escapeXml(term)))
+        .join("|"),
+      "g"
+    );
+    return {
+      options,
+      protect: (text) =>
+        this.escapeXml(text).replace(
+          pattern,
+          (term) => `<${PROTECTED_TAG}>${term}</${PROTECTED_TAG}>`
+        ),
+      restore: (text) =>
+        this.unescapeXml(
+          text.replace(new RegExp(`</?${PROTECTED_TAG}>`, "g"), "")
+        ),
+    };
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+
+  private unescapeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
   }
 }
 
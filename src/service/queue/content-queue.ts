@@ -0,0 +1,46 @@
+import { JobQueue } from "./job-queue";
+import { pipelineService } from "../pipeline.service";
+import { ContentCreationRequest } from "../../dto/content.request.dto";
+import {
+  ContentSuccessResult,
+  ContentFailResult,
+} from "../../dto/content.response.dto";
+
+// 잘못된 값(NaN, 0, 소수 등)은 경고 후 1로 처리
+const concurrencyValue = Number(process.env.PIPELINE_CONCURRENCY || "1");
+const concurrency =
+  Number.isInteger(concurrencyValue) && concurrencyValue >= 1
+    ? concurrencyValue
+    : 1;
+if (concurrency !== concurrencyValue) {
+  console.warn(
+    `[JobQueue:content] Invalid PIPELINE_CONCURRENCY "${process.env.PIPELINE_CONCURRENCY}". Using 1.`
+  );
+}
+// 잘못된 값(NaN, 음수 등)이면 완료된 작업이 지워지지 않으므로 경고 후 기본값(24시간)으로 처리
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const retentionValue = Number(
+  process.env.JOB_RETENTION_MS || String(DEFAULT_RETENTION_MS)
+);
+const retentionMs =
+  Number.isFinite(retentionValue) && retentionValue >= 0
+    ? retentionValue
+    : DEFAULT_RETENTION_MS;
+if (retentionMs !== retentionValue) {
+  console.warn(
+    `[JobQueue:content] Invalid JOB_RETENTION_MS "${process.env.JOB_RETENTION_MS}". Using ${DEFAULT_RETENTION_MS}.`
+  );
+}
+
+export const contentJobQueue = new JobQueue<
+  ContentCreationRequest,
+  ContentSuccessResult | ContentFailResult
+>(
+  "content",
+  (request, reportProgress) => pipelineService.run(request, reportProgress),
+  {
+    concurrency,
+    retentionMs,
+    isFailure: (result) => "error" in result,
+  }
+);
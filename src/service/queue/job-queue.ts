@@ -0,0 +1,149 @@
+import * as crypto from "crypto";
+
+export type JobState = "queued" | "running" | "succeeded" | "failed";
+
+export interface JobProgress {
+  stage: string;
+  processedLines: number;
+  totalLines: number;
+}
+
+export interface Job<TPayload, TResult> {
+  id: string;
+  state: JobState;
+  payload: TPayload;
+  progress: JobProgress;
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type ProgressReporter = (progress: Partial<JobProgress>) => void;
+
+export type JobHandler<TPayload, TResult> = (
+  payload: TPayload,
+  reportProgress: ProgressReporter
+) => Promise<TResult>;
+
+interface JobQueueOptions<TResult> {
+  concurrency: number;
+  retentionMs: number;
+  // 핸들러가 throw 하지 않고 실패 결과를 반환하는 경우 판별용
+  isFailure?: (result: TResult) => boolean;
+}
+
+export class JobQueue<TPayload, TResult> {
+  private jobs = new Map<string, Job<TPayload, TResult>>();
+  private pending: string[] = [];
+  private runningCount = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly handler: JobHandler<TPayload, TResult>,
+    private readonly options: JobQueueOptions<TResult>
+  ) {
+    if (options.concurrency < 1) {
+      throw new Error(`[JobQueue:${name}] concurrency는 1 이상이어야 합니다.`);
+    }
+    if (!Number.isFinite(options.retentionMs) || options.retentionMs < 0) {
+      throw new Error(
+        `[JobQueue:${name}] retentionMs는 0 이상의 유한한 값이어야 합니다.`
+      );
+    }
+  }
+
+  public enqueue(payload: TPayload): Job<TPayload, TResult> {
+    this.pruneFinished();
+
+    const job: Job<TPayload, TResult> = {
+      id: crypto.randomUUID(),
+      state: "queued",
+      payload,
+      progress: { stage: "queued", processedLines: 0, totalLines: 0 },
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    console.log(
+      `[JobQueue:${this.name}] Job queued: ${job.id} (pending: ${this.pending.length}, running: ${this.runningCount})`
+    );
+
+    this.drain();
+    return job;
+  }
+
+  public get(jobId: string): Job<TPayload, TResult> | undefined {
+    this.pruneFinished();
+    return this.jobs.get(jobId);
+  }
+
+  public getPosition(jobId: string): number {
+    return this.pending.indexOf(jobId);
+  }
+
+  private drain() {
+    while (
+      this.runningCount < this.options.concurrency &&
+      this.pending.length > 0
+    ) {
+      const jobId = this.pending.shift()!;
+      const job = this.jobs.get(jobId);
+      if (!job) continue;
+
+      this.runningCount++;
+      this.execute(job).finally(() => {
+        this.runningCount--;
+        this.pruneFinished();
+        this.drain();
+      });
+    }
+  }
+
+  private async execute(job: Job<TPayload, TResult>) {
+    job.state = "running";
+    job.startedAt = new Date().toISOString();
+    job.progress.stage = "started";
+    console.log(`[JobQueue:${this.name}] Job started: ${job.id}`);
+
+    const reportProgress: ProgressReporter = (progress) => {
+      job.progress = { ...job.progress, ...progress };
+    };
+
+    try {
+      const result = await this.handler(job.payload, reportProgress);
+      job.result = result;
+      job.state =
+        this.options.isFailure && this.options.isFailure(result)
+          ? "failed"
+          : "succeeded";
+    } catch (error) {
+      job.state = "failed";
+      job.error =
+        error instanceof Error
+          ? error.message
+          : String(error) || "Unknown error";
+      console.error(`[JobQueue:${this.name}] Job ${job.id} threw:`, error);
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      job.progress.stage = job.state;
+      console.log(
+        `[JobQueue:${this.name}] Job finished: ${job.id} (${job.state})`
+      );
+    }
+  }
+
+  // 완료된 작업은 retentionMs 동안만 조회 가능하도록 유지 (새 작업이 없어도 조회나 작업 완료 시 정리)
+  private pruneFinished() {
+    const now = Date.now();
+    for (const [id, job] of this.jobs) {
+      if (
+        job.finishedAt &&
+        now - new Date(job.finishedAt).getTime() > this.options.retentionMs
+      ) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
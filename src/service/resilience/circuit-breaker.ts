@@ -0,0 +1,70 @@
+import { CircuitOpenError, ExternalProvider } from "./errors";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly provider: ExternalProvider,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  public getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = "half-open";
+    }
+    return this.state;
+  }
+
+  /**
+   * 호출 전에 확인합니다. open 상태이면 CircuitOpenError를 던지고,
+   * half-open 상태에서는 한 번의 시험 호출만 허용합니다.
+   */
+  public assertCanCall() {
+    const state = this.getState();
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError(
+        this.provider,
+        new Date(this.openedAt + this.cooldownMs)
+      );
+    }
+    if (state === "half-open") {
+      this.trialInFlight = true;
+    }
+  }
+
+  public recordSuccess() {
+    if (this.state !== "closed") {
+      console.log(`[CircuitBreaker] ${this.provider} circuit closed.`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure() {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      console.warn(
+        `[CircuitBreaker] ${this.provider} circuit opened after ${this.consecutiveFailures} consecutive failures. Cooling down for ${this.cooldownMs}ms.`
+      );
+    }
+  }
+
+  // 치명적 에러 등으로 시험 호출이 결과 없이 끝난 경우 다음 시험 호출을 허용
+  public releaseTrial() {
+    this.trialInFlight = false;
+  }
+}
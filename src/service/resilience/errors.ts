@@ -0,0 +1,158 @@
+import * as deepl from "deepl-node";
+import { ElevenLabsError, ElevenLabsTimeoutError } from "@elevenlabs/elevenlabs-js";
+
+export type ExternalProvider =
+  | "deepl"
+  | "elevenlabs"
+  | "google-tts"
+  | "spotify-lyrics";
+
+export interface ErrorClassification {
+  retryable: boolean;
+  reason: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * fetch 기반 호출에서 HTTP 상태 코드와 Retry-After를 함께 전달하기 위한 에러
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * provider의 circuit breaker가 열려 있어 호출하지 않은 경우
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly provider: ExternalProvider,
+    public readonly retryAt: Date
+  ) {
+    super(
+      `${provider} circuit is open. Calls are paused until ${retryAt.toISOString()}.`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+// gRPC status code (google-gax)
+const GRPC_RETRYABLE_CODES = new Set([
+  4, // DEADLINE_EXCEEDED
+  8, // RESOURCE_EXHAUSTED
+  10, // ABORTED
+  13, // INTERNAL
+  14, // UNAVAILABLE
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyStatus(status: number, retryAfterMs?: number) {
+  if (status === 429 || status === 408 || status >= 500) {
+    return { retryable: true, reason: `HTTP ${status}`, retryAfterMs };
+  }
+  return { retryable: false, reason: `HTTP ${status}` };
+}
+
+/**
+ * 외부 API 에러를 재시도 가능(429, 5xx, 네트워크)과 치명적(인증, 검증 등)으로 분류합니다.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof CircuitOpenError) {
+    return { retryable: false, reason: "circuit open" };
+  }
+
+  if (error instanceof HttpStatusError) {
+    return classifyStatus(error.status, error.retryAfterMs);
+  }
+
+  // DeepL
+  if (error instanceof deepl.TooManyRequestsError) {
+    return { retryable: true, reason: "DeepL too many requests" };
+  }
+  if (error instanceof deepl.ConnectionError) {
+    return { retryable: error.shouldRetry, reason: "DeepL connection error" };
+  }
+  if (error instanceof deepl.DeepLError) {
+    const isServerError =
+      error.message.startsWith("Service unavailable") ||
+      /^Unexpected status code: 5\d\d/.test(error.message);
+    return { retryable: isServerError, reason: error.constructor.name };
+  }
+
+  // ElevenLabs
+  if (error instanceof ElevenLabsTimeoutError) {
+    return { retryable: true, reason: "ElevenLabs timeout" };
+  }
+  if (error instanceof ElevenLabsError) {
+    if (error.statusCode === undefined) {
+      return { retryable: true, reason: "ElevenLabs network error" };
+    }
+    return classifyStatus(
+      error.statusCode,
+      parseRetryAfter(error.rawResponse?.headers?.get("retry-after"))
+    );
+  }
+
+  if (error && typeof error === "object") {
+    const { code } = error as { code?: unknown };
+
+    // Google (gRPC status)
+    if (typeof code === "number") {
+      return {
+        retryable: GRPC_RETRYABLE_CODES.has(code),
+        reason: `gRPC status ${code}`,
+      };
+    }
+
+    // Node.js 네트워크 에러
+    if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+      return { retryable: true, reason: code };
+    }
+  }
+
+  // fetch()의 네트워크 실패는 TypeError("fetch failed")로 전달됨
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return { retryable: true, reason: "fetch failed" };
+  }
+  // AbortSignal.timeout()에 의한 중단
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return { retryable: true, reason: "timeout" };
+  }
+
+  return { retryable: false, reason: "unclassified" };
+}
+
+/**
+ * 재시도해도 실패했거나 circuit이 열려 호출하지 않은 일시적 장애인지 확인합니다.
+ * 크론 작업은 이 경우 행을 "ERROR"로 기록하지 않고 다음 실행에서 다시 처리합니다.
+ */
+export function isTransientFailure(error: unknown): boolean {
+  return error instanceof CircuitOpenError || classifyError(error).retryable;
+}
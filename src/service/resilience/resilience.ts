@@ -0,0 +1,106 @@
+import { CircuitBreaker, CircuitState } from "./circuit-breaker";
+import { classifyError, ExternalProvider } from "./errors";
+
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+class ResilienceService {
+  private breakers = new Map<ExternalProvider, CircuitBreaker>();
+  private readonly policy: RetryPolicy;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor() {
+    this.policy = {
+      maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "4"),
+      baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "500"),
+      maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || "30000"),
+    };
+    this.failureThreshold = parseInt(
+      process.env.CIRCUIT_FAILURE_THRESHOLD || "5"
+    );
+    this.cooldownMs = parseInt(process.env.CIRCUIT_COOLDOWN_MS || "60000");
+  }
+
+  /**
+   * 외부 API 호출을 provider별 circuit breaker와 재시도 정책으로 감쌉니다.
+   * 재시도 가능한 에러(429, 5xx, 네트워크)만 지수 백오프 + jitter로 재시도하고,
+   * Retry-After가 있으면 그 시간을 우선합니다.
+   */
+  public async execute<T>(
+    provider: ExternalProvider,
+    operation: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const breaker = this.getBreaker(provider);
+
+    for (let attempt = 1; ; attempt++) {
+      breaker.assertCanCall();
+
+      try {
+        const result = await fn();
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const classification = classifyError(error);
+
+        if (!classification.retryable) {
+          breaker.releaseTrial();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        if (attempt >= this.policy.maxAttempts) {
+          console.error(
+            `[Resilience] ${provider}.${operation} failed after ${attempt} attempts (${classification.reason}).`
+          );
+          throw error;
+        }
+
+        const delayMs = this.getDelay(attempt, classification.retryAfterMs);
+        console.warn(
+          `[Resilience] ${provider}.${operation} attempt ${attempt} failed (${classification.reason}). Retrying in ${delayMs}ms...`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  public getCircuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const [provider, breaker] of this.breakers) {
+      states[provider] = breaker.getState();
+    }
+    return states;
+  }
+
+  // full jitter: [0, min(maxDelay, base * 2^(attempt-1))]
+  private getDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.policy.maxDelayMs);
+    }
+    const cap = Math.min(
+      this.policy.maxDelayMs,
+      this.policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(Math.random() * cap);
+  }
+
+  private getBreaker(provider: ExternalProvider): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        provider,
+        this.failureThreshold,
+        this.cooldownMs
+      );
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+}
+
+export const resilienceService = new ResilienceService();
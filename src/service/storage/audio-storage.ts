@@ -0,0 +1,24 @@
+import { AudioStorage, StorageBackend } from "./types";
+import { GcsAudioStorage } from "./gcs-storage";
+import { LocalAudioStorage } from "./local-storage";
+import { S3AudioStorage } from "./s3-storage";
+
+function createAudioStorage(): AudioStorage {
+  const backend = (process.env.STORAGE_BACKEND || "gcs") as StorageBackend;
+
+  switch (backend) {
+    case "gcs":
+      return new GcsAudioStorage();
+    case "local":
+      return new LocalAudioStorage();
+    case "s3":
+      return new S3AudioStorage();
+    default:
+      throw new Error(
+        `지원하지 않는 STORAGE_BACKEND입니다: "${backend}" (gcs | local | s3)`
+      );
+  }
+}
+
+export const audioStorage = createAudioStorage();
+console.log(`[Storage] Using "${audioStorage.backend}" audio storage backend.`);
@@ -0,0 +1,44 @@
+import { Storage, Bucket } from "@google-cloud/storage";
+import { AudioStorage } from "./types";
+
+export class GcsAudioStorage implements AudioStorage {
+  public readonly backend = "gcs";
+  private bucket: Bucket;
+
+  constructor() {
+    const gcpProjectId = process.env.GCP_PROJECT_ID;
+    const gcsBucketName = process.env.GCS_BUCKET_NAME;
+    const gcpKeyFilePath = process.env.GCP_SERVICE_KEY_PATH;
+
+    if (!gcpProjectId || !gcsBucketName || !gcpKeyFilePath) {
+      throw new Error(
+        "GCP_PROJECT_ID, GCS_BUCKET_NAME, GCP_SERVICE_KEY_PATH가 .env에 모두 설정되어야 합니다."
+      );
+    }
+
+    const storage = new Storage({
+      projectId: gcpProjectId,
+      keyFilename: gcpKeyFilePath,
+    });
+    this.bucket = storage.bucket(gcsBucketName);
+  }
+
+  public async save(
+    objectPath: string,
+    data: Buffer,
+    contentType: string
+  ): Promise<string> {
+    const file = this.bucket.file(objectPath);
+    await file.save(data, { contentType });
+    return file.publicUrl();
+  }
+
+  public async load(objectPath: string): Promise<Buffer> {
+    const [data] = await this.bucket.file(objectPath).download();
+    return data;
+  }
+
+  public async delete(objectPath: string): Promise<void> {
+    await this.bucket.file(objectPath).delete({ ignoreNotFound: true });
+  }
+}
@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+import { AudioStorage } from "./types";
+
+export class LocalAudioStorage implements AudioStorage {
+  public readonly backend = "local";
+  public readonly rootDir: string;
+  private readonly publicBaseUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(
+      process.env.LOCAL_STORAGE_DIR || path.join("tmp", "storage")
+    );
+    this.publicBaseUrl = (
+      process.env.LOCAL_STORAGE_PUBLIC_URL ||
+      `http://localhost:${process.env.PORT || 3001}/storage`
+    ).replace(/\/+$/, "");
+
+    if (!fs.existsSync(this.rootDir)) {
+      fs.mkdirSync(this.rootDir, { recursive: true });
+    }
+  }
+
+  public async save(
+    objectPath: string,
+    data: Buffer,
+    _contentType: string
+  ): Promise<string> {
+    const filePath = this.resolve(objectPath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return `${this.publicBaseUrl}/${objectPath}`;
+  }
+
+  public async load(objectPath: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(objectPath));
+  }
+
+  public async delete(objectPath: string): Promise<void> {
+    await fs.promises.rm(this.resolve(objectPath), { force: true });
+  }
+
+  // objectPath가 rootDir 밖을 가리키지 않도록 확인
+  private resolve(objectPath: string): string {
+    const filePath = path.resolve(this.rootDir, objectPath);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage object path: ${objectPath}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { AudioStorage } from "./types";
+
+export class S3AudioStorage implements AudioStorage {
+  public readonly backend = "s3";
+  private client: S3Client;
+  private bucketName: string;
+  private publicBaseUrl: string;
+
+  constructor() {
+    const bucketName = process.env.S3_BUCKET_NAME;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    const endpoint = process.env.S3_ENDPOINT; // MinIO 등 S3 호환 스토리지 주소
+    const region = process.env.S3_REGION || "us-east-1";
+
+    if (!bucketName || !accessKeyId || !secretAccessKey) {
+      throw new Error(
+        "S3_BUCKET_NAME, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY가 .env에 모두 설정되어야 합니다."
+      );
+    }
+
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle: !!endpoint, // S3 호환 스토리지는 대부분 path-style만 지원
+      credentials: { accessKeyId, secretAccessKey },
+    });
+    this.bucketName = bucketName;
+    this.publicBaseUrl = (
+      process.env.S3_PUBLIC_URL ||
+      (endpoint
+        ? `${endpoint}/${bucketName}`
+        : `https://${bucketName}.s3.${region}.amazonaws.com`)
+    ).replace(/\/+$/, "");
+  }
+
+  public async save(
+    objectPath: string,
+    data: Buffer,
+    contentType: string
+  ): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: objectPath,
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+    return `${this.publicBaseUrl}/${objectPath}`;
+  }
+
+  public async load(objectPath: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucketName, Key: objectPath })
+    );
+    if (!response.Body) {
+      throw new Error(`S3 object has no body: ${objectPath}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  public async delete(objectPath: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucketName, Key: objectPath })
+    );
+  }
+}
@@ -0,0 +1,17 @@
+export type StorageBackend = "gcs" | "local" | "s3";
+
+export interface AudioStorage {
+  readonly backend: StorageBackend;
+
+  /**
+   * objectPath(예: "tts/google-lyrics/lyric-1.mp3")에 데이터를 저장하고 공개 URL을 반환합니다.
+   */
+  save(objectPath: string, data: Buffer, contentType: string): Promise<string>;
+
+  /**
+   * 저장한 objectPath의 데이터를 읽습니다.
+   */
+  load(objectPath: string): Promise<Buffer>;
+
+  delete(objectPath: string): Promise<void>;
+}
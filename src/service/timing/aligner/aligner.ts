@@ -0,0 +1,33 @@
+import { Aligner, AlignerEngine } from "./types";
+import {
+  StableWhisperAligner,
+  StableWhisperAlignerParams,
+} from "./stable-whisper-aligner";
+import { UniformAligner, UniformAlignerParams } from "./uniform-aligner";
+import { FakeAligner, FakeAlignerParams } from "./fake-aligner";
+
+export type AlignerConfig =
+  | ({ engine: "stable-whisper" } & StableWhisperAlignerParams)
+  | ({ engine: "uniform" } & UniformAlignerParams)
+  | ({ engine: "fake" } & FakeAlignerParams);
+
+export function createAligner(config: AlignerConfig): Aligner {
+  switch (config.engine) {
+    case "stable-whisper": {
+      const { engine, ...params } = config;
+      return new StableWhisperAligner(params);
+    }
+    case "uniform": {
+      const { engine, ...params } = config;
+      return new UniformAligner(params);
+    }
+    case "fake": {
+      const { engine, ...params } = config;
+      return new FakeAligner(params);
+    }
+    default: {
+      const engine: never = config;
+      throw new Error(`지원하지 않는 정렬 엔진입니다: "${engine}"`);
+    }
+  }
+}
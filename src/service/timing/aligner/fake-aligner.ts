@@ -0,0 +1,43 @@
+import { LyricWithTimings } from "../types";
+import { timingSchemaService } from "../timing-schema";
+import { Aligner, AlignmentRequest } from "./types";
+
+export type FakeAlignerParams = {
+  lineDurationMs: number;
+  syllableDurationMs: number;
+};
+
+/**
+ * 오디오와 외부 프로세스 없이 고정 간격으로 타이밍을 만드는 테스트용 엔진입니다.
+ * 같은 가사와 파라미터에 대해 항상 같은 결과를 반환합니다.
+ */
+export class FakeAligner implements Aligner {
+  public readonly engine = "fake";
+  public readonly requiresAudio = false;
+
+  constructor(public readonly params: FakeAlignerParams) {}
+
+  public async align({ lines }: AlignmentRequest): Promise<LyricWithTimings[]> {
+    return lines.map((line, lineIdx) => {
+      const tokens = line.text.split(" ").filter(Boolean);
+      const lineStartMs = lineIdx * this.params.lineDurationMs;
+      return {
+        originalText: line.originalText,
+        refinedText: tokens.join(" "),
+        timings: timingSchemaService.buildSyllables(
+          tokens.map((token, tokenIdx) => {
+            const startMs =
+              lineStartMs + tokenIdx * this.params.syllableDurationMs;
+            return {
+              text: token,
+              startSeconds: startMs / 1000,
+              endSeconds: (startMs + this.params.syllableDurationMs) / 1000,
+            };
+          }),
+          this.engine,
+          { originalText: line.originalText }
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,371 @@
+import { spawn, ChildProcessWithoutNullStreams } from "child_process";
+import * as crypto from "crypto";
+import readline from "readline";
+
+// scripts/aligner_worker.py와 맞춰야 하는 프로토콜 버전
+export const ALIGNER_PROTOCOL_VERSION = 1;
+
+export interface PythonTimingResult {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface PythonAlignOptions {
+  language?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+type WorkerMessage =
+  | { v: number; type: "ready"; model: string }
+  | { v: number; type: "fatal"; message: string }
+  | { v: number; id: string; type: "progress"; progress: number }
+  | { v: number; id: string; type: "result"; words: PythonTimingResult[] }
+  | { v: number; id: string | null; type: "error"; message: string };
+
+interface AlignJob {
+  id: string;
+  audioPath: string;
+  text: string;
+  options: PythonAlignOptions;
+  resolve: (words: PythonTimingResult[]) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface AlignerWorker {
+  index: number;
+  process: ChildProcessWithoutNullStreams;
+  ready: boolean;
+  current: AlignJob | null;
+  // 작업 취소/타임아웃으로 직접 종료한 경우 (크래시로 보지 않음)
+  stopping: boolean;
+  // 이 자리의 워커가 준비(ready) 전에 연속으로 죽은 횟수
+  startupFailures: number;
+  readyTimer?: NodeJS.Timeout;
+}
+
+// 준비(ready) 전에 연속으로 이만큼 죽으면 그 자리의 워커는 다시 띄우지 않음
+const MAX_STARTUP_FAILURES = 3;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+
+/**
+ * 모델을 한 번만 로드하는 상주 Python 정렬 워커(scripts/aligner_worker.py) 풀입니다.
+ * 워커는 첫 정렬 요청 시 시작되며, 한 워커는 한 번에 한 작업만 처리합니다.
+ * 진행 중인 작업을 취소하거나 시간이 초과되면 해당 워커를 종료하고 다시 띄웁니다.
+ * 모든 워커가 시작에 연속으로 실패하면(모델 로드 실패, 프로토콜 버전 불일치 등) 더 띄우지 않고 대기 중인 작업과 새 요청을 바로 실패 처리합니다.
+ */
+class PythonAlignerPool {
+  private readonly PYTHON_EXECUTABLE: string;
+  private readonly PYTHON_SCRIPT_PATH: string;
+  private readonly POOL_SIZE: number;
+  private readonly JOB_TIMEOUT_MS: number;
+  private readonly READY_TIMEOUT_MS: number;
+
+  private workers: AlignerWorker[] = [];
+  private queue: AlignJob[] = [];
+  private started = false;
+  // 모든 워커가 시작에 실패해 더 이상 작업을 받을 수 없는 경우의 오류 (서버를 다시 시작해야 함)
+  private failure: Error | null = null;
+
+  constructor() {
+    this.PYTHON_EXECUTABLE =
+      process.env.PYTHON_EXECUTABLE || "/opt/venv/bin/python";
+    this.PYTHON_SCRIPT_PATH =
+      process.env.PYTHON_SCRIPT_PATH ||
+      "/usr/src/app/scripts/aligner_worker.py";
+    this.POOL_SIZE = Math.max(
+      1,
+      parseInt(process.env.ALIGNER_POOL_SIZE || "1")
+    );
+    this.JOB_TIMEOUT_MS = parseInt(
+      process.env.ALIGNER_JOB_TIMEOUT_MS || "600000"
+    );
+    // 모델 로드(처음 실행 시 다운로드 포함)를 기다리는 최대 시간
+    this.READY_TIMEOUT_MS = parseInt(
+      process.env.ALIGNER_READY_TIMEOUT_MS || "300000"
+    );
+  }
+
+  public align(
+    audioPath: string,
+    text: string,
+    options: PythonAlignOptions = {}
+  ): Promise<PythonTimingResult[]> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error("Alignment job was cancelled."));
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    this.ensureStarted();
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancel(job);
+      // 끝난 작업이 signal에 리스너를 남기지 않도록 해제
+      const settle = () =>
+        options.signal?.removeEventListener("abort", onAbort);
+      const job: AlignJob = {
+        id: crypto.randomUUID(),
+        audioPath,
+        text,
+        options,
+        resolve: (words) => {
+          settle();
+          resolve(words);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(job);
+      console.log(
+        `[AlignerPool] Job queued: ${job.id} (pending: ${this.queue.length})`
+      );
+      this.dispatch();
+    });
+  }
+
+  private ensureStarted() {
+    if (this.started) return;
+    this.started = true;
+    for (let index = 0; index < this.POOL_SIZE; index++) {
+      this.spawnWorker(index);
+    }
+  }
+
+  private spawnWorker(index: number, startupFailures = 0) {
+    console.log(`[AlignerPool] Starting worker #${index}...`);
+    const child = spawn(this.PYTHON_EXECUTABLE, [this.PYTHON_SCRIPT_PATH]);
+    const worker: AlignerWorker = {
+      index,
+      process: child,
+      ready: false,
+      current: null,
+      stopping: false,
+      startupFailures,
+    };
+    this.workers[index] = worker;
+    // 모델 로드 중 멈춘 워커는 시작 실패로 보고 종료 (stopping을 켜지 않음)
+    worker.readyTimer = setTimeout(() => {
+      console.error(
+        `[AlignerPool] Worker #${index} did not become ready within ${this.READY_TIMEOUT_MS}ms.`
+      );
+      child.kill("SIGKILL");
+    }, this.READY_TIMEOUT_MS);
+
+    readline
+      .createInterface({ input: child.stdout })
+      .on("line", (line) => this.handleLine(worker, line));
+    child.stderr.on("data", (data) => {
+      const logMessage = data.toString().trim();
+      if (logMessage) {
+        console.log(`[Python stderr #${index}]: ${logMessage}`);
+      }
+    });
+    // 종료 중인 워커에 작업을 쓰면 EPIPE가 나므로 처리하지 않으면 서버가 죽음 (작업은 close에서 실패 처리)
+    child.stdin.on("error", (err) => {
+      console.error(
+        `[AlignerPool] Failed to write to worker #${index}: ${err.message}`
+      );
+    });
+    child.on("error", (err) => {
+      console.error(
+        `[AlignerPool] Failed to spawn worker #${index}: ${err.message}`
+      );
+    });
+    child.on("close", (code) => this.handleExit(worker, code));
+  }
+
+  private handleLine(worker: AlignerWorker, line: string) {
+    let message: WorkerMessage;
+    try {
+      message = JSON.parse(line) as WorkerMessage;
+    } catch {
+      console.warn(
+        `[AlignerPool] Ignoring non-JSON output from worker #${worker.index}: ${line.substring(0, 200)}`
+      );
+      return;
+    }
+    if (message.v !== ALIGNER_PROTOCOL_VERSION) {
+      console.error(
+        `[AlignerPool] Protocol version mismatch from worker #${worker.index}: ${message.v} (expected ${ALIGNER_PROTOCOL_VERSION})`
+      );
+      // 다시 띄워도 같은 버전이므로 시작 실패로 세어 재시작을 늦추고(stopping을 켜지 않음) 대기 중인 작업은 바로 실패 처리
+      worker.ready = false;
+      worker.process.kill("SIGKILL");
+      this.failQueued(
+        new Error(
+          `Python aligner worker speaks protocol version ${message.v} (expected ${ALIGNER_PROTOCOL_VERSION}).`
+        )
+      );
+      return;
+    }
+
+    switch (message.type) {
+      case "ready":
+        console.log(
+          `[AlignerPool] Worker #${worker.index} ready (model: ${message.model})`
+        );
+        clearTimeout(worker.readyTimer);
+        worker.ready = true;
+        worker.startupFailures = 0;
+        this.dispatch();
+        return;
+      case "fatal":
+        console.error(
+          `[AlignerPool] Worker #${worker.index} fatal error: ${message.message}`
+        );
+        return;
+      case "progress":
+        if (worker.current?.id === message.id) {
+          worker.current.options.onProgress?.(message.progress);
+        }
+        return;
+      case "result":
+        if (worker.current?.id === message.id) {
+          console.log(
+            `[AlignerPool] Job ${message.id} finished with ${message.words.length} timed segments.`
+          );
+          this.finish(worker).resolve(message.words);
+        }
+        return;
+      case "error":
+        if (worker.current && worker.current.id === message.id) {
+          this.finish(worker).reject(
+            new Error(`Python worker returned error: ${message.message}`)
+          );
+        } else {
+          console.error(
+            `[AlignerPool] Worker #${worker.index} error: ${message.message}`
+          );
+        }
+        return;
+    }
+  }
+
+  private handleExit(worker: AlignerWorker, code: number | null) {
+    console.log(`[AlignerPool] Worker #${worker.index} exited (Code: ${code})`);
+    clearTimeout(worker.readyTimer);
+    const wasReady = worker.ready;
+    worker.ready = false;
+    if (worker.current) {
+      this.finish(worker).reject(
+        new Error(`Python worker exited with code ${code} during alignment.`)
+      );
+    }
+
+    let delayMs = 0;
+    let startupFailures = 0;
+    if (!worker.stopping) {
+      startupFailures = wasReady ? 0 : worker.startupFailures + 1;
+      if (startupFailures >= MAX_STARTUP_FAILURES) {
+        worker.startupFailures = startupFailures;
+        this.giveUp(worker);
+        return;
+      }
+      delayMs = Math.min(
+        RESTART_BASE_DELAY_MS * 2 ** startupFailures,
+        RESTART_MAX_DELAY_MS
+      );
+    }
+    setTimeout(() => this.spawnWorker(worker.index, startupFailures), delayMs);
+  }
+
+  // 이 자리의 워커를 더 띄우지 않고, 남은 워커가 없으면 대기 중인 작업과 이후 요청을 바로 실패 처리
+  private giveUp(worker: AlignerWorker) {
+    console.error(
+      `[AlignerPool] Worker #${worker.index} failed to start ${worker.startupFailures} times in a row. Not restarting it.`
+    );
+    const alive = this.workers.some(
+      (w) => w && w.startupFailures < MAX_STARTUP_FAILURES
+    );
+    if (!alive) {
+      this.failure = new Error(
+        `Python aligner workers failed to start ${MAX_STARTUP_FAILURES} times in a row. Check the Python environment and restart the server.`
+      );
+      this.failQueued(this.failure);
+    }
+  }
+
+  private dispatch() {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!worker || !worker.ready || worker.current) continue;
+
+      const job = this.queue.shift()!;
+      worker.current = job;
+      const timeoutMs = job.options.timeoutMs ?? this.JOB_TIMEOUT_MS;
+      job.timer = setTimeout(() => {
+        console.error(
+          `[AlignerPool] Job ${job.id} timed out after ${timeoutMs}ms. Restarting worker #${worker.index}.`
+        );
+        this.finish(worker).reject(
+          new Error(`Alignment timed out after ${timeoutMs}ms.`)
+        );
+        this.stopWorker(worker);
+      }, timeoutMs);
+
+      console.log(
+        `[AlignerPool] Job ${job.id} assigned to worker #${worker.index}`
+      );
+      worker.process.stdin.write(
+        JSON.stringify({
+          v: ALIGNER_PROTOCOL_VERSION,
+          id: job.id,
+          type: "align",
+          audioPath: job.audioPath,
+          text: job.text,
+          language: job.options.language,
+        }) + "\n"
+      );
+    }
+  }
+
+  // 대기 중이면 큐에서 빼고, 실행 중이면 모델 연산을 중단할 방법이 없으므로 워커를 종료
+  private cancel(job: AlignJob) {
+    const queuedIdx = this.queue.indexOf(job);
+    if (queuedIdx !== -1) {
+      this.queue.splice(queuedIdx, 1);
+      job.reject(new Error("Alignment job was cancelled."));
+      return;
+    }
+
+    const worker = this.workers.find((w) => w && w.current === job);
+    if (worker) {
+      console.log(
+        `[AlignerPool] Cancelling job ${job.id} on worker #${worker.index}`
+      );
+      this.finish(worker).reject(new Error("Alignment job was cancelled."));
+      this.stopWorker(worker);
+    }
+  }
+
+  private finish(worker: AlignerWorker): AlignJob {
+    const job = worker.current!;
+    clearTimeout(job.timer);
+    worker.current = null;
+    setImmediate(() => this.dispatch());
+    return job;
+  }
+
+  private stopWorker(worker: AlignerWorker) {
+    worker.stopping = true;
+    worker.ready = false;
+    worker.process.kill("SIGKILL");
+  }
+
+  private failQueued(error: Error) {
+    const jobs = this.queue.splice(0);
+    for (const job of jobs) {
+      job.reject(error);
+    }
+  }
+}
+
+export const pythonAlignerPool = new PythonAlignerPool();
@@ -0,0 +1,143 @@
+import { TimedText, timingSchemaService } from "../timing-schema";
+import { timingReconcilerService } from "../timing-reconciler";
+import { LyricWithTimings } from "../types";
+import { isHangulSyllable } from "../../processor/hangul";
+import { Aligner, AlignmentRequest } from "./types";
+import { pythonAlignerPool, PythonTimingResult } from "./python-aligner-pool";
+
+export type StableWhisperAlignerParams = {
+  // syllable: 음절마다 띄운 가사를 정렬, word: 원문 가사를 단어 단위로 정렬한 뒤 음절에 균등 분배
+  mode: "syllable" | "word";
+};
+
+const LINE_SEPARATOR = "||LINE_BREAK||";
+
+/**
+ * 상주 Python 워커(stable-whisper)로 노래 오디오와 가사를 강제 정렬합니다.
+ * 가사 사이에 구분자 토큰을 넣어 한 번에 정렬한 뒤, 결과 단어를 가사 텍스트와 Spotify 라인 시간 기준으로 라인에 다시 배정합니다.
+ */
+export class StableWhisperAligner implements Aligner {
+  public readonly engine = "stable-whisper";
+  public readonly requiresAudio = true;
+
+  constructor(public readonly params: StableWhisperAlignerParams) {}
+
+  public async align({
+    songId,
+    audioPath,
+    lines,
+    signal,
+  }: AlignmentRequest): Promise<LyricWithTimings[]> {
+    if (!audioPath) {
+      throw new Error("stable-whisper 정렬에는 오디오 파일이 필요합니다.");
+    }
+
+    const lineTexts = lines.map((line) =>
+      this.params.mode === "word" ? line.originalText : line.text
+    );
+    const fullLyricsText = lineTexts.join(` ${LINE_SEPARATOR} `);
+
+    // 워커가 실패하면 빈 타이밍을 돌려주지 않고 그대로 던짐 (호출한 쪽에서 기존 타이밍을 유지하고 실패를 알림)
+    let allPythonResults: PythonTimingResult[];
+    try {
+      allPythonResults = await pythonAlignerPool.align(
+        audioPath,
+        fullLyricsText,
+        {
+          signal,
+          onProgress: (progress) =>
+            console.log(
+              `[Alignment] songId ${songId}: ${Math.round(progress * 100)}%`
+            ),
+        }
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error(`[Alignment] Failed to execute alignment:`, error);
+      throw error;
+    }
+
+    const words = this.collectWords(allPythonResults, lines.length);
+    // 구분자 토큰이 사라지거나 밀려도 라인이 어긋나지 않도록 가사 텍스트와 Spotify 라인 시간 기준으로 다시 배정
+    const reconciled = timingReconcilerService.assignWords(
+      words,
+      lines,
+      lineTexts
+    );
+    const results = lines.map((line, lineIdx) => {
+      const lineWords =
+        this.params.mode === "word"
+          ? this.distributeSyllables(reconciled[lineIdx].words)
+          : reconciled[lineIdx].words;
+      return {
+        originalText: line.originalText,
+        refinedText: lineWords.map((w) => w.text).join(" "), // "마 시 고"
+        timings: timingSchemaService.buildSyllables(lineWords, this.engine, {
+          originalText: line.originalText,
+        }),
+      };
+    });
+    return timingReconcilerService.fillUnaligned(results, reconciled, lines);
+  }
+
+  // 구분자를 뺀 단어 타이밍 목록 (구분자는 라인 배정에 쓰지 않고 개수만 확인)
+  private collectWords(
+    allPythonResults: PythonTimingResult[],
+    lineCount: number
+  ): TimedText[] {
+    const words: TimedText[] = [];
+    let separatorCount = 0;
+    for (const pyResult of allPythonResults) {
+      if (pyResult.word.includes(LINE_SEPARATOR)) {
+        separatorCount++;
+      }
+      const text = pyResult.word.split(LINE_SEPARATOR).join("").trim();
+      if (text) {
+        words.push({
+          text,
+          startSeconds: pyResult.start,
+          endSeconds: pyResult.end,
+        });
+      }
+    }
+
+    if (separatorCount !== lineCount - 1) {
+      console.warn(
+        `[Timing Mismatch] Expected ${lineCount - 1} line separators but got ${separatorCount} from Python alignment. Reconciling by lyric text.`
+      );
+    }
+    return words;
+  }
+
+  // 한국어 가사 균등 분배 (word 모드): 각 단어의 시작~끝 구간을 음절 수로 나눔
+  private distributeSyllables(words: TimedText[]): TimedText[] {
+    return words.flatMap((word): TimedText[] => {
+      // 한글 음절마다 나누고, 음절이 아닌 문자는 앞 부분에 붙임 ("사랑해!" → 사, 랑, 해!)
+      const parts: string[] = [];
+      for (const char of Array.from(word.text)) {
+        if (parts.length === 0 || isHangulSyllable(char)) {
+          parts.push(char);
+        } else {
+          parts[parts.length - 1] += char;
+        }
+      }
+      if (
+        parts.length <= 1 ||
+        word.endSeconds === undefined ||
+        word.endSeconds === null
+      ) {
+        // 원본 타이밍("Don't", "한", "♪")을 그대로 사용
+        return [word];
+      }
+
+      const partDuration = (word.endSeconds - word.startSeconds) / parts.length;
+      return parts.map((part, partIdx) => ({
+        text: part,
+        startSeconds: word.startSeconds + partDuration * partIdx,
+        endSeconds: word.startSeconds + partDuration * (partIdx + 1),
+      }));
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { LyricWithTimings } from "../types";
+
+export const ALIGNER_ENGINES = ["stable-whisper", "uniform", "fake"] as const;
+export type AlignerEngine = (typeof ALIGNER_ENGINES)[number];
+
+export interface AlignmentLine {
+  originalText: string; // lyric_line.original_text
+  text: string; // 정렬용으로 정규화한 텍스트 (음절마다 공백으로 구분)
+  startTimeMs: number | null; // Spotify 라인 시작 시간 (없으면 null)
+}
+
+export interface AlignmentRequest {
+  songId: number;
+  audioPath: string | null; // requiresAudio가 false인 엔진에는 null
+  lines: AlignmentLine[];
+  signal?: AbortSignal; // 작업 취소
+}
+
+export interface Aligner {
+  readonly engine: AlignerEngine;
+  readonly requiresAudio: boolean;
+  // 기본값이 채워진 엔진 파라미터 (저장되는 타이밍에 함께 기록)
+  readonly params: Record<string, unknown>;
+
+  /**
+   * 라인별 음절 타이밍을 반환합니다. 결과는 request.lines와 같은 순서입니다.
+   */
+  align(request: AlignmentRequest): Promise<LyricWithTimings[]>;
+}
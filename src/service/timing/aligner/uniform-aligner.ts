@@ -0,0 +1,68 @@
+import { LyricWithTimings } from "../types";
+import { timingSchemaService } from "../timing-schema";
+import { Aligner, AlignmentRequest } from "./types";
+
+export type UniformAlignerParams = {
+  maxLineDurationMs: number;
+  lastLineDurationMs: number;
+};
+
+/**
+ * 오디오 없이 Spotify 라인 시작 시간 사이에 음절을 균등하게 배치합니다.
+ * 라인 길이는 다음 라인 시작까지이며, 간주가 길어도 maxLineDurationMs를 넘지 않습니다.
+ */
+export class UniformAligner implements Aligner {
+  public readonly engine = "uniform";
+  public readonly requiresAudio = false;
+
+  constructor(public readonly params: UniformAlignerParams) {}
+
+  public async align({ lines }: AlignmentRequest): Promise<LyricWithTimings[]> {
+    if (lines.every((line) => line.startTimeMs === null)) {
+      throw new Error(
+        "uniform 정렬에는 Spotify 라인 시작 시간이 필요합니다. (trackId 확인)"
+      );
+    }
+
+    return lines.map((line, lineIdx) => {
+      const tokens = line.text.split(" ").filter(Boolean);
+      if (line.startTimeMs === null || tokens.length === 0) {
+        return {
+          originalText: line.originalText,
+          refinedText: "",
+          timings: [],
+        };
+      }
+
+      const nextStart = lines
+        .slice(lineIdx + 1)
+        .find((next) => next.startTimeMs !== null)?.startTimeMs;
+      const endTimeMs =
+        nextStart !== undefined && nextStart !== null
+          ? Math.min(
+              nextStart,
+              line.startTimeMs + this.params.maxLineDurationMs
+            )
+          : line.startTimeMs + this.params.lastLineDurationMs;
+      const tokenDurationMs =
+        Math.max(0, endTimeMs - line.startTimeMs) / tokens.length;
+
+      return {
+        originalText: line.originalText,
+        refinedText: tokens.join(" "),
+        timings: timingSchemaService.buildSyllables(
+          tokens.map((token, tokenIdx) => {
+            const startMs = line.startTimeMs! + tokenDurationMs * tokenIdx;
+            return {
+              text: token,
+              startSeconds: startMs / 1000,
+              endSeconds: (startMs + tokenDurationMs) / 1000,
+            };
+          }),
+          this.engine,
+          { originalText: line.originalText }
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,226 @@
+import fs from "fs";
+import { Aligner, AlignmentLine, AlignmentRequest } from "./aligner/types";
+import { UniformAligner } from "./aligner/uniform-aligner";
+import { audioPreprocessorService } from "./audio-preprocessor";
+import { timingSchemaService } from "./timing-schema";
+import {
+  AlignmentWindow,
+  AlignmentWindowMode,
+  AlignmentWindowOptions,
+  LyricWithTimings,
+} from "./types";
+import { structureService } from "../processor/structure";
+
+export interface WindowedAlignment {
+  lines: LyricWithTimings[];
+  windows: AlignmentWindow[]; // 구간으로 나누지 못해 노래 전체를 정렬했으면 빈 배열
+}
+
+interface WindowPlan {
+  fromLine: number;
+  toLine: number; // 포함
+  startMs: number;
+  endMs: number | null; // 마지막 구간은 null (끝까지)
+}
+
+// 실패한 구간을 채우는 균등 분배 (timing-reconciler와 같은 라인 길이)
+const FALLBACK_MAX_LINE_DURATION_MS = 8000;
+const FALLBACK_LAST_LINE_DURATION_MS = 4000;
+
+/**
+ * Spotify 라인 시작 시간으로 오디오를 라인/섹션 구간으로 잘라 구간마다 따로 정렬합니다.
+ * 구간은 앞뒤로 overlapMs만큼 겹치며, 결과는 원래 오디오 시간으로 되돌려 합칩니다.
+ * 정렬에 실패한 구간(오류 또는 결과 없음)은 Spotify 시간 사이에 균등 분배합니다.
+ */
+class AlignmentWindowService {
+  public async align(
+    aligner: Aligner,
+    request: AlignmentRequest,
+    options: AlignmentWindowOptions
+  ): Promise<WindowedAlignment> {
+    const plans = request.audioPath ? this.plan(request.lines, options) : [];
+    if (plans.length === 0) {
+      console.warn(
+        `[AlignmentWindow] No Spotify line timings to cut windows. Aligning the whole song instead.`
+      );
+      return { lines: await aligner.align(request), windows: [] };
+    }
+    console.log(
+      `[AlignmentWindow] Aligning songId ${request.songId} in ${plans.length} ${options.mode} windows (concurrency ${options.concurrency}).`
+    );
+
+    let fallback: LyricWithTimings[] | null = null;
+    const results = await this.mapWithConcurrency(
+      plans,
+      options.concurrency,
+      async (plan, windowIdx) => {
+        const lines = await this.alignWindow(aligner, request, plan, windowIdx);
+        if (lines) {
+          return { lines, fallback: false };
+        }
+        if (!fallback) {
+          fallback = await this.uniformLines(request);
+        }
+        return {
+          lines: fallback.slice(plan.fromLine, plan.toLine + 1),
+          fallback: true,
+        };
+      }
+    );
+
+    const fallbackCount = results.filter((result) => result.fallback).length;
+    if (fallbackCount > 0) {
+      console.warn(
+        `[AlignmentWindow] ${fallbackCount}/${plans.length} windows fell back to uniform distribution.`
+      );
+    }
+    return {
+      lines: results.flatMap((result) => result.lines),
+      windows: plans.map((plan, windowIdx) => ({
+        fromLine: plan.fromLine,
+        toLine: plan.toLine,
+        startSeconds: plan.startMs / 1000,
+        endSeconds: plan.endMs === null ? null : plan.endMs / 1000,
+        fallback: results[windowIdx].fallback,
+      })),
+    };
+  }
+
+  /**
+   * 시작 시간이 있는 라인을 기준으로 구간을 나눕니다. 시작 시간이 없는 앞뒤 라인은 첫/마지막 구간에 붙입니다.
+   */
+  private plan(
+    lines: AlignmentLine[],
+    options: AlignmentWindowOptions
+  ): WindowPlan[] {
+    const boundaries = this.boundaries(lines, options.mode);
+    if (boundaries.length === 0) {
+      return [];
+    }
+
+    return boundaries.map((lineIdx, idx) => {
+      const next = boundaries[idx + 1];
+      const startMs = lines[lineIdx].startTimeMs!;
+      return {
+        fromLine: idx === 0 ? 0 : lineIdx,
+        toLine: next === undefined ? lines.length - 1 : next - 1,
+        // 시작 시간이 없는 앞 라인이 있으면 처음부터
+        startMs:
+          idx === 0 && lineIdx > 0
+            ? 0
+            : Math.max(0, startMs - options.overlapMs),
+        endMs:
+          next === undefined
+            ? null
+            : lines[next].startTimeMs! + options.overlapMs,
+      };
+    });
+  }
+
+  // 구간을 시작하는 라인 (시작 시간이 있는 라인만)
+  private boundaries(
+    lines: AlignmentLine[],
+    mode: AlignmentWindowMode
+  ): number[] {
+    const anchored = lines
+      .map((line, lineIdx) => lineIdx)
+      .filter((lineIdx) => lines[lineIdx].startTimeMs !== null);
+    if (mode === "none" || anchored.length === 0) {
+      return [];
+    }
+    if (mode === "line") {
+      return anchored;
+    }
+
+    const structure = structureService.analyze(
+      anchored.map((lineIdx) => ({
+        text: lines[lineIdx].originalText,
+        startTimeMs: String(lines[lineIdx].startTimeMs),
+      }))
+    );
+    return structure.sections.map(
+      (section) => anchored[section.startLineIndex]
+    );
+  }
+
+  // 정렬에 실패하면 null (취소는 그대로 전파)
+  private async alignWindow(
+    aligner: Aligner,
+    request: AlignmentRequest,
+    plan: WindowPlan,
+    windowIdx: number
+  ): Promise<LyricWithTimings[] | null> {
+    const audioPath = request.audioPath!;
+    const windowPath = `${audioPath.replace(/\.[^./]+$/, "")}.window-${windowIdx}.wav`;
+    const lines = request.lines.slice(plan.fromLine, plan.toLine + 1);
+    try {
+      await audioPreprocessorService.cut(
+        audioPath,
+        windowPath,
+        plan.startMs / 1000,
+        plan.endMs === null ? null : (plan.endMs - plan.startMs) / 1000,
+        request.signal
+      );
+      const result = await aligner.align({
+        songId: request.songId,
+        audioPath: windowPath,
+        lines: lines.map((line) => ({
+          ...line,
+          startTimeMs:
+            line.startTimeMs === null ? null : line.startTimeMs - plan.startMs,
+        })),
+        signal: request.signal,
+      });
+      if (result.every((line) => line.timings.length === 0)) {
+        console.warn(
+          `[AlignmentWindow] Window ${windowIdx} (lines ${plan.fromLine}-${plan.toLine}) returned no timings.`
+        );
+        return null;
+      }
+      return result.map((line) => ({
+        ...line,
+        timings: timingSchemaService.shift(line.timings, plan.startMs / 1000),
+      }));
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      console.warn(
+        `[AlignmentWindow] Window ${windowIdx} (lines ${plan.fromLine}-${plan.toLine}) failed.`,
+        error
+      );
+      return null;
+    } finally {
+      await fs.promises.unlink(windowPath).catch(() => undefined);
+    }
+  }
+
+  private uniformLines(request: AlignmentRequest): Promise<LyricWithTimings[]> {
+    return new UniformAligner({
+      maxLineDurationMs: FALLBACK_MAX_LINE_DURATION_MS,
+      lastLineDurationMs: FALLBACK_LAST_LINE_DURATION_MS,
+    }).align({ ...request, audioPath: null });
+  }
+
+  // 순서를 유지하며 최대 limit개씩 동시에 실행
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, idx: number) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let cursor = 0;
+    const worker = async () => {
+      while (cursor < items.length) {
+        const idx = cursor++;
+        results[idx] = await task(items[idx], idx);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker)
+    );
+    return results;
+  }
+}
+
+export const alignmentWindowService = new AlignmentWindowService();
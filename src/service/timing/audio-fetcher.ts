@@ -0,0 +1,289 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import https from "https";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { Storage } from "@google-cloud/storage";
+import { AudioFetchError } from "./errors";
+import { audioPreprocessorService } from "./audio-preprocessor";
+
+export interface FetchedAudio {
+  path: string; // TEMP_DIR에 받은 임시 파일 (사용 후 삭제 필요)
+  durationSeconds: number;
+}
+
+// 이 외의 Content-Type은 오디오가 아닌 응답(HTML 오류 페이지 등)으로 보고 거부
+const AUDIO_CONTENT_TYPE =
+  /^(audio\/|video\/|application\/(octet-stream|ogg)|binary\/octet-stream)/i;
+const MAX_REDIRECTS = 5;
+
+/**
+ * 노래 오디오(song.song_url)를 임시 파일로 가져오고 정렬에 쓸 수 있는 오디오인지 검사합니다.
+ * http(s) URL(리다이렉트 포함), gs:// URI, AUDIO_LOCAL_DIR 아래의 로컬 파일(file:// 또는 절대 경로)을 지원하며
+ * 최대 크기/길이와 시간 제한을 넘거나 검사에 실패하면 받은 파일을 지우고 AudioFetchError를 던집니다.
+ */
+class AudioFetcherService {
+  public readonly tempDir: string;
+  public readonly maxBytes: number;
+  private readonly MAX_DURATION_SECONDS: number;
+  private readonly TIMEOUT_MS: number;
+  private readonly LOCAL_DIR: string | null;
+
+  private storage: Storage | null = null;
+
+  constructor() {
+    this.tempDir = process.env.TEMP_DIR || "/tmp"; // 임시 파일 저장소
+    this.maxBytes = parseInt(process.env.AUDIO_MAX_BYTES || "104857600");
+    this.MAX_DURATION_SECONDS = parseInt(
+      process.env.AUDIO_MAX_DURATION_SECONDS || "900"
+    );
+    this.TIMEOUT_MS = parseInt(process.env.AUDIO_FETCH_TIMEOUT_MS || "120000");
+    this.LOCAL_DIR = process.env.AUDIO_LOCAL_DIR
+      ? path.resolve(process.env.AUDIO_LOCAL_DIR)
+      : null;
+
+    // 임시 디렉토리 확인 및 생성
+    if (!fs.existsSync(this.tempDir)) {
+      fs.mkdirSync(this.tempDir, { recursive: true });
+    }
+  }
+
+  public async fetch(
+    uri: string,
+    songId: number,
+    signal?: AbortSignal
+  ): Promise<FetchedAudio> {
+    const outputPath = path.join(
+      this.tempDir,
+      `${Date.now()}_${songId}${this.extension(uri)}`
+    );
+    console.log(`[AudioFetch] Fetching ${uri} to ${outputPath}...`);
+
+    // 요청 취소 또는 시간 초과 시 중단
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      if (/^https?:\/\//i.test(uri)) {
+        await this.fetchHttp(uri, outputPath, controller.signal);
+      } else if (uri.startsWith("gs://")) {
+        await this.fetchGcs(uri, outputPath, controller.signal);
+      } else if (uri.startsWith("file://") || path.isAbsolute(uri)) {
+        await this.copyLocal(uri, outputPath, controller.signal);
+      } else {
+        throw new AudioFetchError(
+          `지원하지 않는 오디오 위치입니다: "${uri}" (http(s)://, gs://, file://)`,
+          400
+        );
+      }
+      const durationSeconds = await this.verify(outputPath, signal);
+      console.log(`[AudioFetch] Fetched ${uri} (${durationSeconds}s)`);
+      return { path: outputPath, durationSeconds };
+    } catch (error) {
+      await fs.promises.unlink(outputPath).catch(() => undefined); // 부분 파일 삭제
+      if (signal?.aborted || error instanceof AudioFetchError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new AudioFetchError(
+          `오디오를 ${this.TIMEOUT_MS}ms 안에 내려받지 못했습니다: ${uri}`,
+          502
+        );
+      }
+      throw new AudioFetchError(
+        `오디오를 내려받지 못했습니다: ${uri} (${(error as Error).message})`,
+        502
+      );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * 디코딩할 수 있는 오디오인지, 길이를 알 수 있고 최대 길이를 넘지 않는지 검사하고 길이를 반환합니다. (파일은 지우지 않음)
+   */
+  public async verify(filePath: string, signal?: AbortSignal): Promise<number> {
+    let durationSeconds: number | null;
+    try {
+      durationSeconds = (await audioPreprocessorService.probe(filePath, signal))
+        .durationSeconds;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn(`[AudioFetch] Failed to decode ${filePath}.`, error);
+      throw new AudioFetchError("디코딩할 수 있는 오디오가 아닙니다.", 415);
+    }
+
+    // 길이를 알 수 없으면 최대 길이 검사를 우회할 수 있으므로 거부
+    if (durationSeconds === null) {
+      throw new AudioFetchError("오디오 길이를 알 수 없습니다.", 422);
+    }
+    if (durationSeconds > this.MAX_DURATION_SECONDS) {
+      throw new AudioFetchError(
+        `오디오가 최대 길이(${this.MAX_DURATION_SECONDS}초)보다 깁니다. (${Math.round(durationSeconds)}초)`,
+        422
+      );
+    }
+    return durationSeconds;
+  }
+
+  private async fetchHttp(
+    url: string,
+    outputPath: string,
+    signal: AbortSignal
+  ) {
+    let currentUrl = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.get(currentUrl, signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new AudioFetchError(
+            `리다이렉트가 너무 많습니다. (최대 ${MAX_REDIRECTS}번): ${url}`,
+            502
+          );
+        }
+        currentUrl = new URL(location, currentUrl).toString();
+        if (!/^https?:\/\//i.test(currentUrl)) {
+          throw new AudioFetchError(
+            `http(s)가 아닌 위치로 리다이렉트되었습니다: ${currentUrl}`,
+            502
+          );
+        }
+        continue;
+      }
+      if (status !== 200) {
+        response.resume();
+        throw new AudioFetchError(
+          `오디오를 내려받지 못했습니다. (HTTP ${status}): ${currentUrl}`,
+          502
+        );
+      }
+
+      this.checkContentType(response.headers["content-type"]);
+      this.checkSize(Number(response.headers["content-length"]));
+      await this.writeLimited(response, outputPath, signal);
+      return;
+    }
+  }
+
+  private get(url: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+    const client = url.toLowerCase().startsWith("https:") ? https : http;
+    return new Promise((resolve, reject) => {
+      client.get(url, { signal }, resolve).on("error", reject);
+    });
+  }
+
+  private async fetchGcs(uri: string, outputPath: string, signal: AbortSignal) {
+    const match = uri.match(/^gs:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      throw new AudioFetchError(`잘못된 gs:// URI입니다: "${uri}"`, 400);
+    }
+    const file = this.gcs().bucket(match[1]).file(match[2]);
+    const [metadata] = await file.getMetadata();
+    this.checkContentType(metadata.contentType);
+    this.checkSize(Number(metadata.size));
+    await this.writeLimited(file.createReadStream(), outputPath, signal);
+  }
+
+  // 원본 파일 옆에 전처리/구간 파일이 생기지 않도록 TEMP_DIR로 복사
+  private async copyLocal(
+    uri: string,
+    outputPath: string,
+    signal: AbortSignal
+  ) {
+    const filePath = path.resolve(
+      uri.startsWith("file://")
+        ? decodeURIComponent(new URL(uri).pathname)
+        : uri
+    );
+    const relative = this.LOCAL_DIR
+      ? path.relative(this.LOCAL_DIR, filePath)
+      : "";
+    if (
+      !this.LOCAL_DIR ||
+      relative === "" ||
+      relative.startsWith("..") ||
+      path.isAbsolute(relative)
+    ) {
+      throw new AudioFetchError(
+        `AUDIO_LOCAL_DIR 밖의 로컬 파일은 사용할 수 없습니다: "${filePath}"`,
+        400
+      );
+    }
+
+    const stat = await fs.promises.stat(filePath);
+    this.checkSize(stat.size);
+    await this.writeLimited(fs.createReadStream(filePath), outputPath, signal);
+  }
+
+  // Content-Length 등을 믿지 않고 실제로 쓴 크기도 확인
+  private async writeLimited(
+    source: Readable,
+    outputPath: string,
+    signal: AbortSignal
+  ) {
+    const maxBytes = this.maxBytes;
+    let bytes = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        if (bytes > maxBytes) {
+          callback(
+            new AudioFetchError(
+              `오디오가 최대 크기(${maxBytes} bytes)보다 큽니다.`,
+              413
+            )
+          );
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+    await pipeline(source, limiter, fs.createWriteStream(outputPath), {
+      signal,
+    });
+  }
+
+  private checkContentType(contentType: string | undefined) {
+    if (contentType && !AUDIO_CONTENT_TYPE.test(contentType)) {
+      throw new AudioFetchError(
+        `오디오가 아닌 Content-Type입니다: "${contentType}"`,
+        415
+      );
+    }
+  }
+
+  // 크기를 알 수 없으면(NaN) 내려받으면서 확인
+  private checkSize(bytes: number) {
+    if (bytes > this.maxBytes) {
+      throw new AudioFetchError(
+        `오디오가 최대 크기(${this.maxBytes} bytes)보다 큽니다. (${bytes} bytes)`,
+        413
+      );
+    }
+  }
+
+  private extension(uri: string): string {
+    const extension = path.extname(uri.split(/[?#]/)[0]);
+    return /^\.[0-9a-z]{1,5}$/i.test(extension) ? extension : ".audio";
+  }
+
+  private gcs(): Storage {
+    if (!this.storage) {
+      this.storage = new Storage({
+        projectId: process.env.GCP_PROJECT_ID,
+        keyFilename: process.env.GCP_SERVICE_KEY_PATH,
+      });
+    }
+    return this.storage;
+  }
+}
+
+export const audioFetcherService = new AudioFetcherService();
@@ -0,0 +1,288 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import { AudioPreprocessingInfo, AudioPreprocessOptions } from "./types";
+
+export interface PreprocessedAudio {
+  path: string; // 전처리한 WAV 파일 (사용 후 삭제 필요)
+  info: AudioPreprocessingInfo;
+}
+
+export interface AudioProbe {
+  durationSeconds: number | null; // 컨테이너에 길이 정보가 없으면 null
+}
+
+export interface VoicedRange {
+  startSeconds: number;
+  endSeconds: number | null; // 뒤 무음이 없으면 null (끝까지)
+  totalSeconds: number | null;
+}
+
+// 무음 경계에서 소리가 시작/끝나는 부분이 잘리지 않도록 남겨두는 여유
+const TRIM_PADDING_SECONDS = 0.1;
+// 디코딩 가능 여부를 확인할 때 디코딩하는 길이
+const PROBE_DECODE_SECONDS = 1;
+// ffmpeg 실패 시 로그에 남길 stderr 길이
+const STDERR_TAIL_LENGTH = 1000;
+
+/**
+ * 정렬 전에 노래 오디오를 로컬 ffmpeg로 전처리합니다.
+ * 모노/리샘플링, 음량 정규화, 앞뒤 무음 제거, 보컬 대역 필터를 적용하며
+ * 앞 무음을 잘라낸 길이(offsetSeconds)를 함께 반환해 정렬 결과를 원곡 시간으로 되돌릴 수 있게 합니다.
+ */
+class AudioPreprocessorService {
+  private readonly FFMPEG_PATH: string;
+
+  constructor() {
+    this.FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+  }
+
+  public async process(
+    inputPath: string,
+    options: AudioPreprocessOptions,
+    signal?: AbortSignal
+  ): Promise<PreprocessedAudio> {
+    const range = options.trimSilence
+      ? await this.detectVoicedRange(inputPath, options, signal)
+      : { startSeconds: 0, endSeconds: null, totalSeconds: null };
+    const filters = this.buildFilters(options);
+    const outputPath = `${inputPath.replace(/\.[^./]+$/, "")}.preprocessed.wav`;
+
+    const args = ["-hide_banner", "-nostdin", "-y"];
+    if (range.startSeconds > 0) {
+      args.push("-ss", range.startSeconds.toFixed(3));
+    }
+    args.push("-i", inputPath);
+    if (range.endSeconds !== null) {
+      args.push("-t", (range.endSeconds - range.startSeconds).toFixed(3));
+    }
+    if (filters) {
+      args.push("-af", filters);
+    }
+    args.push(
+      "-ac",
+      "1",
+      "-ar",
+      String(options.sampleRate),
+      "-c:a",
+      "pcm_s16le",
+      outputPath
+    );
+    try {
+      await this.runFfmpeg(args, signal);
+    } catch (error) {
+      await fs.promises.unlink(outputPath).catch(() => undefined); // 부분 파일 삭제
+      throw error;
+    }
+
+    const endSeconds = range.endSeconds ?? range.totalSeconds;
+    const info: AudioPreprocessingInfo = {
+      options,
+      offsetSeconds: range.startSeconds,
+      durationSeconds:
+        endSeconds !== null
+          ? Math.round((endSeconds - range.startSeconds) * 1000) / 1000
+          : null,
+      filters,
+    };
+    console.log(
+      `[AudioPreprocess] ${inputPath} -> ${outputPath} (offset ${info.offsetSeconds}s, duration ${info.durationSeconds}s, filters: ${filters || "none"})`
+    );
+    return { path: outputPath, info };
+  }
+
+  /**
+   * startSeconds부터 durationSeconds(null이면 끝까지)만큼 잘라 모노 WAV로 저장합니다.
+   */
+  public async cut(
+    inputPath: string,
+    outputPath: string,
+    startSeconds: number,
+    durationSeconds: number | null,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.encode(
+      inputPath,
+      outputPath,
+      startSeconds,
+      durationSeconds,
+      ["-ac", "1", "-c:a", "pcm_s16le"],
+      signal
+    );
+  }
+
+  /**
+   * startSeconds부터 durationSeconds(null이면 끝까지)만큼을 outputArgs(필터, 코덱 등)로 인코딩합니다.
+   */
+  public async encode(
+    inputPath: string,
+    outputPath: string,
+    startSeconds: number,
+    durationSeconds: number | null,
+    outputArgs: string[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    const args = ["-hide_banner", "-nostdin", "-y"];
+    if (startSeconds > 0) {
+      args.push("-ss", startSeconds.toFixed(3));
+    }
+    args.push("-i", inputPath);
+    if (durationSeconds !== null) {
+      args.push("-t", durationSeconds.toFixed(3));
+    }
+    args.push(...outputArgs, outputPath);
+    try {
+      await this.runFfmpeg(args, signal);
+    } catch (error) {
+      await fs.promises.unlink(outputPath).catch(() => undefined); // 부분 파일 삭제
+      throw error;
+    }
+  }
+
+  /**
+   * 첫 오디오 스트림의 앞부분을 디코딩해 재생 가능한 오디오인지 확인하고 길이를 반환합니다.
+   * 오디오 스트림이 없거나 디코딩할 수 없으면 ffmpeg 오류를 던집니다.
+   */
+  public async probe(
+    inputPath: string,
+    signal?: AbortSignal
+  ): Promise<AudioProbe> {
+    const stderr = await this.runFfmpeg(
+      [
+        "-hide_banner",
+        "-nostdin",
+        "-i",
+        inputPath,
+        "-map",
+        "0:a:0",
+        "-t",
+        String(PROBE_DECODE_SECONDS),
+        "-f",
+        "null",
+        "-",
+      ],
+      signal
+    );
+    return { durationSeconds: this.parseDuration(stderr) };
+  }
+
+  private parseDuration(stderr: string): number | null {
+    const durationMatch = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+    return durationMatch
+      ? Number(durationMatch[1]) * 3600 +
+          Number(durationMatch[2]) * 60 +
+          Number(durationMatch[3])
+      : null;
+  }
+
+  private buildFilters(options: AudioPreprocessOptions): string {
+    const filters: string[] = [];
+    if (options.bandPass) {
+      filters.push(
+        `highpass=f=${options.bandPass.lowHz}`,
+        `lowpass=f=${options.bandPass.highHz}`
+      );
+    }
+    if (options.loudnorm) {
+      filters.push("loudnorm=I=-16:TP=-1.5:LRA=11");
+    }
+    return filters.join(",");
+  }
+
+  /**
+   * silencedetect 결과로 앞 무음이 끝나는 시점과 뒤 무음이 시작하는 시점을 찾습니다.
+   */
+  public async detectVoicedRange(
+    inputPath: string,
+    options: Pick<
+      AudioPreprocessOptions,
+      "silenceThresholdDb" | "minSilenceMs"
+    >,
+    signal?: AbortSignal
+  ): Promise<VoicedRange> {
+    const stderr = await this.runFfmpeg(
+      [
+        "-hide_banner",
+        "-nostdin",
+        "-i",
+        inputPath,
+        "-af",
+        `silencedetect=noise=${options.silenceThresholdDb}dB:d=${options.minSilenceMs / 1000}`,
+        "-f",
+        "null",
+        "-",
+      ],
+      signal
+    );
+
+    const totalSeconds = this.parseDuration(stderr);
+
+    // silence_start 다음에 silence_end가 오며, 파일 끝까지 무음이면 silence_end가 없음
+    const silences: { start: number; end: number | null }[] = [];
+    const silenceRegex = /silence_(start|end): (-?\d+(?:\.\d+)?)/g;
+    let match: RegExpExecArray | null;
+    while ((match = silenceRegex.exec(stderr)) !== null) {
+      const seconds = Number(match[2]);
+      if (match[1] === "start") {
+        silences.push({ start: seconds, end: null });
+      } else if (silences.length > 0) {
+        silences[silences.length - 1].end = seconds;
+      }
+    }
+
+    let startSeconds = 0;
+    const leading = silences[0];
+    if (leading && leading.start <= 0.01 && leading.end !== null) {
+      startSeconds = Math.max(0, leading.end - TRIM_PADDING_SECONDS);
+    }
+    let endSeconds: number | null = null;
+    const trailing = silences[silences.length - 1];
+    if (trailing && trailing.end === null && trailing.start > startSeconds) {
+      endSeconds = trailing.start + TRIM_PADDING_SECONDS;
+    }
+
+    return {
+      startSeconds: Math.round(startSeconds * 1000) / 1000,
+      endSeconds:
+        endSeconds !== null ? Math.round(endSeconds * 1000) / 1000 : null,
+      totalSeconds,
+    };
+  }
+
+  // ffmpeg를 실행하고 stderr(진행/분석 로그)를 반환
+  private runFfmpeg(args: string[], signal?: AbortSignal): Promise<string> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error("Audio preprocessing was cancelled."));
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.FFMPEG_PATH, args);
+      let stderr = "";
+      const onAbort = () => child.kill("SIGKILL");
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      child.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+      child.on("error", (err) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new Error(`Failed to start ffmpeg: ${err.message}`));
+      });
+      child.on("close", (code) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (signal?.aborted) {
+          reject(new Error("Audio preprocessing was cancelled."));
+        } else if (code !== 0) {
+          reject(
+            new Error(
+              `ffmpeg exited with code ${code}: ${stderr.slice(-STDERR_TAIL_LENGTH)}`
+            )
+          );
+        } else {
+          resolve(stderr);
+        }
+      });
+    });
+  }
+}
+
+export const audioPreprocessorService = new AudioPreprocessorService();
@@ -0,0 +1,52 @@
+import { TimingIssue } from "./types";
+
+/**
+ * 타이밍 수동 수정 요청을 처리할 수 없는 경우 (status는 응답 HTTP 상태 코드)
+ * 400: 잘못된 라인/음절 위치, 검증 실패 (issues 포함)
+ * 404: 타이밍 또는 버전 없음
+ * 409: baseVersion 이후 다른 수정이 저장됨
+ */
+export class TimingEditError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409,
+    public readonly issues: TimingIssue[] = []
+  ) {
+    super(message);
+    this.name = "TimingEditError";
+  }
+}
+
+/**
+ * 정렬 결과를 저장할 수 없는 경우 (모든 라인의 타이밍이 비었거나 신뢰도가 0)
+ * 기존 타이밍은 그대로 두며, 라우트에서 422와 검증 문제 목록(issues)으로 응답합니다.
+ */
+export class TimingGenerationError extends Error {
+  public readonly status = 422;
+
+  constructor(
+    message: string,
+    public readonly issues: TimingIssue[] = []
+  ) {
+    super(message);
+    this.name = "TimingGenerationError";
+  }
+}
+
+/**
+ * 노래 오디오를 가져오거나 검사하지 못한 경우 (status는 응답 HTTP 상태 코드)
+ * 400: 지원하지 않거나 허용되지 않은 오디오 위치
+ * 413: 최대 크기 초과
+ * 415: 오디오가 아니거나 디코딩할 수 없음
+ * 422: 최대 길이 초과 또는 길이를 알 수 없음
+ * 502: 원격 저장소에서 내려받지 못함 (HTTP 오류, 시간 초과 등)
+ */
+export class AudioFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 413 | 415 | 422 | 502
+  ) {
+    super(message);
+    this.name = "AudioFetchError";
+  }
+}
@@ -1,9 +1,34 @@
 import mysql from "mysql2/promise";
-import { spawn } from "child_process";
 import fs from "fs";
-import path from "path";
-import http from "http";
-import https from "https";
+import {
+  AlignmentWindowingInfo,
+  AlignmentWindowOptions,
+  AudioPreprocessingInfo,
+  AudioPreprocessOptions,
+  LyricWithTimings,
+  StoredSongTimings,
+  TimingQuality,
+  TIMING_SCHEMA_VERSION,
+} from "./types";
+import { Aligner, AlignmentLine } from "./aligner/types";
+import { AlignerConfig, createAligner } from "./aligner/aligner";
+import { ExpectedTimingLine, timingValidatorService } from "./timing-validator";
+import { timingSchemaService } from "./timing-schema";
+import { timingHistoryService } from "./timing-history";
+import {
+  audioPreprocessorService,
+  PreprocessedAudio,
+} from "./audio-preprocessor";
+import { alignmentWindowService } from "./alignment-window";
+import { audioFetcherService } from "./audio-fetcher";
+import { AudioFetchError, TimingGenerationError } from "./errors";
+import { lyricsService } from "../processor/lyrics";
+import { isAlphanumericOrHangul } from "../processor/hangul";
+import {
+  normalizeService,
+  ALIGNER_NORMALIZATION_RULES,
+  DEFAULT_NORMALIZATION_RULES,
+} from "../processor/normalize";
 
 interface LyricLineRow {
   lyric_line_id: number;
@@ -16,33 +41,40 @@ interface LyricLineRow {
 interface SongRow {
   song_id: number;
   song_url: string;
-  timings: string;
+  timings: string | object | null; // v1 형식이 남아 있을 수 있음
 }
 
-interface SyllableTiming {
-  timeSeconds: number;
-  markName: string;
+export interface SongTimingGenerateOptions {
+  aligner: AlignerConfig;
+  trackId?: string;
+  // 업로드한 노래 오디오 (호출한 쪽에서 삭제, 없으면 song.song_url에서 가져옴)
+  audioPath?: string;
+  // 오디오를 쓰는 엔진의 정렬 전 전처리 (없으면 원본 오디오 그대로 정렬)
+  preprocess?: AudioPreprocessOptions;
+  // 오디오를 쓰는 엔진을 Spotify 라인 시간 구간별로 나눠 정렬 (없으면 노래 전체를 한 번에 정렬)
+  windowing?: AlignmentWindowOptions;
+  // 기존 타이밍보다 신뢰도가 낮아도 덮어씀
+  force?: boolean;
 }
 
-interface LyricWithTimings {
-  originalText: string;
-  refinedText: string;
-  timings: SyllableTiming[];
+export interface SongAlignment {
+  aligner: Aligner;
+  lines: LyricWithTimings[];
+  expected: ExpectedTimingLine[];
+  quality: TimingQuality;
+  preprocessing: AudioPreprocessingInfo | null;
+  windowing: AlignmentWindowingInfo | null;
+  existingLines: LyricWithTimings[]; // 정렬 전 song.timings
 }
 
-interface PythonTimingResult {
-  word: string;
-  start: number;
-  end: number;
-}
+// Spotify 라인과 lyric_line을 순서대로 맞출 때 앞으로 찾아볼 최대 라인 수
+const LINE_MATCH_LOOKAHEAD = 5;
 
 class SongTimingService {
   private dbPool: mysql.Pool;
 
-  private readonly PYTHON_EXECUTABLE: string;
-  private readonly PYTHON_SCRIPT_PATH: string;
-  private readonly TEMP_DIR: string;
-  private readonly LINE_SEPARATOR = "||LINE_BREAK||";
+  // 진행 중인 타이밍 생성 작업 (songId별 취소용)
+  private activeJobs = new Map<number, AbortController>();
 
   constructor() {
     this.dbPool = mysql.createPool({
@@ -55,401 +87,431 @@ class SongTimingService {
       connectionLimit: 10,
       queueLimit: 0,
     });
-
-    this.PYTHON_EXECUTABLE =
-      process.env.PYTHON_EXECUTABLE || "/opt/venv/bin/python";
-    this.PYTHON_SCRIPT_PATH =
-      process.env.PYTHON_SCRIPT_PATH || "/usr/src/app/scripts/process_audio.py";
-    this.TEMP_DIR = process.env.TEMP_DIR || "/tmp"; // 임시 파일 저장소
-
-    // 임시 디렉토리 확인 및 생성
-    if (!fs.existsSync(this.TEMP_DIR)) {
-      fs.mkdirSync(this.TEMP_DIR, { recursive: true });
-    }
   }
 
-  public async generate(songId: number) {
-    console.log(`[SongTiming] Job starting for songId: ${songId}`);
-    let connection: mysql.PoolConnection | null = null;
+  public async generate(songId: number, options: SongTimingGenerateOptions) {
+    const controller = this.startJob(songId);
     try {
-      connection = await this.dbPool.getConnection();
-      const songRows = await this.fetchSongById(connection, songId);
-      if (songRows.length !== 1) {
+      const alignment = await this.align(songId, options, controller.signal);
+      if (!alignment) {
         throw new Error(`Song with songId ${songId} not found.`);
       }
-      const song = songRows[0];
-
-      const lyrics = await this.fetchLyrics(connection, songId);
-      if (lyrics.length === 0) {
+      const {
+        aligner,
+        lines,
+        expected,
+        quality,
+        preprocessing,
+        windowing,
+        existingLines,
+      } = alignment;
+      if (lines.length === 0) {
         console.log(`[SongTiming] No lyrics found for songId: ${songId}.`);
         return;
       }
 
-      const fullLyricsText = lyrics
-        .map((line) => this.refineTextForPython(line.original_text))
-        .join(` ${this.LINE_SEPARATOR} `);
+      // 정렬이 사실상 실패한 결과로 기존 타이밍을 덮어쓰지 않음 (force여도 저장하지 않음)
+      if (
+        lines.every((line) => line.timings.length === 0) ||
+        quality.score === 0
+      ) {
+        throw new TimingGenerationError(
+          `정렬 결과가 비어 있거나 신뢰도가 0이라 저장하지 않았습니다. (aligner: ${aligner.engine})`,
+          [...quality.issues, ...quality.lines.flatMap((line) => line.issues)]
+        );
+      }
 
-      const resultWithTimings = await this.getSyllableTimings(
-        lyrics,
-        song.song_url,
-        song.song_id,
-        fullLyricsText
-      );
+      // 기존 타이밍도 같은 기준(이번 가사와 Spotify 시작 시간)으로 다시 평가해 비교
+      if (existingLines.length > 0 && !options.force) {
+        const existingScore = timingValidatorService.validate(
+          existingLines,
+          expected
+        ).score;
+        if (quality.score < existingScore) {
+          console.warn(
+            `[SongTiming] Keeping existing timings for songId: ${songId} (existing confidence ${existingScore} > new ${quality.score}).`
+          );
+          return;
+        }
+      }
 
-      console.log(
-        `[SongTiming] Successfully generated timings for songId: ${songId}.`
-      );
-      console.log(JSON.stringify(resultWithTimings, null, 2)); // 결과 확인용
-      await this.updateSongTimings(
-        connection,
-        songId,
-        JSON.stringify(resultWithTimings)
-      );
+      const storedTimings: StoredSongTimings = {
+        version: TIMING_SCHEMA_VERSION,
+        aligner: { engine: aligner.engine, params: aligner.params },
+        generatedAt: new Date().toISOString(),
+        preprocessing,
+        windowing,
+        quality,
+        lines,
+      };
+      console.log(JSON.stringify(storedTimings, null, 2)); // 결과 확인용
+      await timingHistoryService.save(songId, storedTimings, {
+        action: "generate",
+        author: "system",
+        reason: `aligner: ${aligner.engine}`,
+      });
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`[SongTiming] Job cancelled for songId: ${songId}.`);
+        return;
+      }
+      // 오디오를 가져오지 못한 경우는 요청 오류이므로 라우트에서 상태 코드(413/415/422/502)로 응답
+      if (error instanceof AudioFetchError) {
+        console.warn(
+          `[SongTiming] Failed to fetch audio for songId: ${songId}: ${error.message}`
+        );
+        throw error;
+      }
+      if (error instanceof TimingGenerationError) {
+        console.warn(
+          `[SongTiming] Discarded alignment for songId: ${songId}: ${error.message}`
+        );
+        throw error;
+      }
       console.error(
         `[SongTiming] Critical error during job for songId: ${songId}`,
         error
       );
     } finally {
-      if (connection) {
-        connection.release();
-      }
+      this.finishJob(songId, controller);
       console.log(`[SongTiming] Job finished for songId: ${songId}.`);
     }
   }
 
-  public async generateFallback(songId: number) {
-    console.log(`[SongTiming Fallback] Job starting for songId: ${songId}`);
+  /**
+   * 노래의 타이밍 작업을 cancel()로 취소할 수 있도록 등록합니다. 끝나면 finishJob()을 호출해야 합니다.
+   * 같은 노래의 이전 작업은 취소합니다. (나중 요청의 결과만 저장)
+   */
+  public startJob(songId: number): AbortController {
+    const controller = new AbortController();
+    this.activeJobs.get(songId)?.abort();
+    this.activeJobs.set(songId, controller);
+    return controller;
+  }
+
+  public finishJob(songId: number, controller: AbortController) {
+    if (this.activeJobs.get(songId) === controller) {
+      this.activeJobs.delete(songId);
+    }
+  }
+
+  /**
+   * 노래 전체 가사를 정렬하고 검증한 결과를 반환합니다. (저장하지 않음)
+   * 노래가 없으면 null, 가사가 없으면 lines가 빈 배열입니다.
+   */
+  public async align(
+    songId: number,
+    options: Pick<
+      SongTimingGenerateOptions,
+      "aligner" | "trackId" | "audioPath" | "preprocess" | "windowing"
+    >,
+    signal?: AbortSignal
+  ): Promise<SongAlignment | null> {
+    const aligner = createAligner(options.aligner);
+    console.log(
+      `[SongTiming] Job starting for songId: ${songId} (aligner: ${aligner.engine})`
+    );
     let connection: mysql.PoolConnection | null = null;
+    let song: SongRow;
+    let lyrics: LyricLineRow[];
     try {
       connection = await this.dbPool.getConnection();
       const songRows = await this.fetchSongById(connection, songId);
       if (songRows.length !== 1) {
-        throw new Error(`Song with songId ${songId} not found.`);
-      }
-      const song = songRows[0];
-
-      const lyrics = await this.fetchLyrics(connection, songId);
-      if (lyrics.length === 0) {
-        console.log(
-          `[SongTiming Fallback] No lyrics found for songId: ${songId}.`
-        );
-        return;
+        return null;
       }
-
-      const fullLyricsText = lyrics
-        .map((line) => line.original_text)
-        .join(` ${this.LINE_SEPARATOR} `);
-
-      const resultWithTimings = await this.getSyllableTimings(
-        lyrics,
-        song.song_url,
-        song.song_id,
-        fullLyricsText
-      );
-
-      // 한국어 가사 균등 분배
-      const refinedResultWithTimings = resultWithTimings.map(
-        (result, lineIdx) => {
-          const originTimings = result.timings;
-
-          // .flatMap()을 사용하여 각 단어(timing)를 여러 음절(syllable) 타이밍으로 변환
-          const refinedTimings = originTimings.flatMap((timing, wordIdx) => {
-            const syllables = timing.markName
-              .split(/(?=[가-힣])/)
-              .filter(Boolean);
-            const syllableCount = syllables.length;
-
-            if (syllableCount <= 1) {
-              return timing; // 원본 타이밍("Don't", "한", "♪")을 그대로 반환
-            }
-
-            // --- 이 단어의 끝(end) 시간 찾기 ---
-            let endTime: number;
-            const startTime = timing.timeSeconds;
-
-            if (wordIdx < originTimings.length - 1) {
-              // (줄의 마지막 단어가 아님: 다음 단어의 시작 시간
-              endTime = originTimings[wordIdx + 1].timeSeconds;
-            } else if (lineIdx < resultWithTimings.length - 1) {
-              // 줄의 마지막 단어 + 마지막 줄이 아님: 다음 줄의 첫 단어 시작 시간
-              const nextLine = resultWithTimings[lineIdx + 1];
-              if (nextLine.timings.length > 0) {
-                endTime = nextLine.timings[0].timeSeconds;
-              } else {
-                // 다음 줄에 가사가 없으면 1초의 기본 기간 부여
-                endTime = startTime + 1.0;
-              }
-            } else {
-              // 노래의 마지막 줄 + 마지막 단어: 1초의 기본 기간 부여
-              endTime = startTime + 1.0;
-            }
-
-            // 시작 시간과 끝 시간이 같은 경우 0이 되도록 함
-            const duration = Math.max(0, endTime - startTime);
-            const syllableDuration = duration / syllableCount;
-
-            // 각 음절에 대한 새 타이밍 객체 배열 생성
-            return syllables.map((syllable, sIdx) => ({
-              timeSeconds: startTime + syllableDuration * sIdx,
-              markName: syllable,
-            }));
-          });
-
-          // 새롭게 만들어진 refinedTimings 배열로 라인 객체 재구성
-          return {
-            originalText: result.originalText,
-            refinedText: refinedTimings.map((t) => t.markName).join(" "), // "마 시 고"
-            timings: refinedTimings,
-          };
-        }
-      );
-
-      console.log(
-        `[SongTiming Fallback] Successfully generated timings for songId: ${songId}.`
-      );
-      console.log(JSON.stringify(refinedResultWithTimings, null, 2)); // 결과 확인용
-      await this.updateSongTimings(
-        connection,
-        songId,
-        JSON.stringify(refinedResultWithTimings)
-      );
-    } catch (error) {
-      console.error(
-        `[SongTiming Fallback] Critical error during job for songId: ${songId}`,
-        error
-      );
+      song = songRows[0];
+      lyrics = await this.fetchLyrics(connection, songId);
     } finally {
       if (connection) {
         connection.release();
       }
-      console.log(`[SongTiming Fallback] Job finished for songId: ${songId}.`);
     }
-  }
 
-  private refineTextForPython(text: string): string {
-    // [가-힣] : 한글 음절 1개
-    // |        : 또는
-    // [^가-힣\s]+ : 한글이 아니고(^) 공백(\s)이 아닌 문자 1개 이상(+)
-    const regex = /[가-힣]|[^가-힣\s]+/g;
-    const tokens = text.match(regex);
+    const existingLines = this.parseStoredLines(song.timings);
+    if (lyrics.length === 0) {
+      return {
+        aligner,
+        lines: [],
+        expected: [],
+        quality: timingValidatorService.validate([], []),
+        preprocessing: null,
+        windowing: null,
+        existingLines,
+      };
+    }
 
-    if (!tokens) {
-      return ""; // 빈 줄 처리
+    const anchors = options.trackId
+      ? await this.fetchLineAnchors(options.trackId, lyrics)
+      : lyrics.map(() => null);
+    const lineStarts = this.interpolateLineStarts(anchors);
+    const lines: AlignmentLine[] = lyrics.map((line, idx) => ({
+      originalText: line.original_text,
+      text: normalizeService.normalize(
+        line.original_text,
+        ALIGNER_NORMALIZATION_RULES
+      ).text,
+      startTimeMs: lineStarts[idx],
+    }));
+
+    // 업로드한 파일은 호출한 쪽에서 지우므로 내려받은 파일만 삭제
+    const downloaded =
+      aligner.requiresAudio && !options.audioPath
+        ? await audioFetcherService.fetch(song.song_url, song.song_id, signal)
+        : null;
+    const audioPath = aligner.requiresAudio
+      ? (downloaded?.path ?? options.audioPath ?? null)
+      : null;
+    let preprocessed: PreprocessedAudio | null = null;
+    let windowing: AlignmentWindowingInfo | null = null;
+    let resultWithTimings: LyricWithTimings[];
+    try {
+      if (audioPath && options.preprocess?.enabled) {
+        preprocessed = await this.preprocessAudio(
+          audioPath,
+          options.preprocess,
+          signal
+        );
+      }
+      // 앞 무음을 잘라낸 오디오 기준으로 Spotify 라인 시간을 맞춰 정렬한 뒤 결과를 원곡 시간으로 되돌림
+      const offsetSeconds = preprocessed?.info.offsetSeconds ?? 0;
+      const request = {
+        songId,
+        audioPath: preprocessed?.path ?? audioPath,
+        lines: lines.map((line) => ({
+          ...line,
+          startTimeMs:
+            line.startTimeMs === null
+              ? null
+              : line.startTimeMs - Math.round(offsetSeconds * 1000),
+        })),
+        signal,
+      };
+      if (
+        aligner.requiresAudio &&
+        options.windowing &&
+        options.windowing.mode !== "none"
+      ) {
+        const windowed = await alignmentWindowService.align(
+          aligner,
+          request,
+          options.windowing
+        );
+        resultWithTimings = windowed.lines;
+        if (windowed.windows.length > 0) {
+          windowing = {
+            options: options.windowing,
+            windows: windowed.windows.map((window) => ({
+              ...window,
+              startSeconds: this.round(window.startSeconds + offsetSeconds),
+              endSeconds:
+                window.endSeconds === null
+                  ? null
+                  : this.round(window.endSeconds + offsetSeconds),
+            })),
+          };
+        }
+      } else {
+        resultWithTimings = await aligner.align(request);
+      }
+      if (offsetSeconds > 0) {
+        resultWithTimings = resultWithTimings.map((line) => ({
+          ...line,
+          timings: timingSchemaService.shift(line.timings, offsetSeconds),
+        }));
+      }
+    } finally {
+      if (downloaded) {
+        await this.deleteTempAudio(downloaded.path);
+      }
+      if (preprocessed) {
+        await this.deleteTempAudio(preprocessed.path);
+      }
     }
 
-    // ["(", "불", "장", "난", ")", "eh"] -> "( 불 장 난 ) eh"
-    return tokens.join(" ");
+    const expected = lyrics.map((line, idx) => ({
+      originalText: line.original_text,
+      anchorMs: anchors[idx],
+    }));
+    const quality = timingValidatorService.validate(
+      resultWithTimings,
+      expected
+    );
+    console.log(
+      `[SongTiming] Generated timings for songId: ${songId} (confidence: ${quality.score})`
+    );
+    return {
+      aligner,
+      lines: resultWithTimings,
+      expected,
+      quality,
+      preprocessing: preprocessed?.info ?? null,
+      windowing,
+      existingLines,
+    };
   }
 
-  private async getSyllableTimings(
-    lyrics: LyricLineRow[],
-    songUrl: string,
-    songId: number,
-    fullLyricsText: string
-  ): Promise<LyricWithTimings[]> {
-    const localAudioPath = await this.downloadAudio(songUrl, songId);
-    let allPythonResults: PythonTimingResult[] = [];
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
 
+  // 전처리에 실패하면(ffmpeg 없음 등) 원본 오디오로 정렬 (취소는 그대로 전파)
+  private async preprocessAudio(
+    audioPath: string,
+    options: AudioPreprocessOptions,
+    signal?: AbortSignal
+  ): Promise<PreprocessedAudio | null> {
     try {
-      // python 스크립트 실행
-      allPythonResults = await this.executeAlignment(
-        localAudioPath,
-        fullLyricsText
-      );
+      return await audioPreprocessorService.process(audioPath, options, signal);
     } catch (error) {
-      console.error(`[Alignment] Failed to execute alignment:`, error);
-      return lyrics.map((l) => ({
-        originalText: l.original_text,
-        refinedText: "",
-        timings: [],
-      }));
-    } finally {
-      try {
-        await fs.promises.unlink(localAudioPath);
-        console.log(`[Alignment] Deleted temp audio file: ${localAudioPath}`);
-      } catch (e) {
-        console.warn(
-          `[Alignment] Failed to delete temp audio file: ${localAudioPath}`,
-          e
-        );
+      if (signal?.aborted) {
+        throw error;
       }
+      console.warn(
+        `[SongTiming] Audio preprocessing failed. Aligning the original audio instead.`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 진행 중인 타이밍 생성 작업을 취소합니다. 취소할 작업이 없으면 false를 반환합니다.
+   */
+  public cancel(songId: number): boolean {
+    const controller = this.activeJobs.get(songId);
+    if (!controller) {
+      return false;
     }
+    controller.abort();
+    this.activeJobs.delete(songId);
+    return true;
+  }
 
-    const results: LyricWithTimings[] = [];
-    let currentLineTimings: SyllableTiming[] = [];
-    let lineIndex = 0;
-
-    for (const pyResult of allPythonResults) {
-      //  Python이 반환한 토큰이 '구분자'인 경우
-      if (pyResult.word === this.LINE_SEPARATOR) {
-        if (lyrics[lineIndex]) {
-          results.push({
-            originalText: lyrics[lineIndex].original_text,
-            refinedText: currentLineTimings.map((t) => t.markName).join(" "),
-            timings: currentLineTimings,
-          });
-        }
-        currentLineTimings = [];
-        lineIndex++;
+  /**
+   * 저장된 song.timings의 라인별 타이밍을 반환합니다. 노래가 없으면 null, 타이밍이 아직 없으면 빈 배열을 반환합니다.
+   */
+  public async getTimings(songId: number): Promise<LyricWithTimings[] | null> {
+    let connection: mysql.PoolConnection | null = null;
+    try {
+      connection = await this.dbPool.getConnection();
+      const songRows = await this.fetchSongById(connection, songId);
+      if (songRows.length !== 1) {
+        return null;
       }
-      // Python이 반환한 토큰이 '일반 단어'인 경우
-      else if (pyResult.word) {
-        currentLineTimings.push({
-          timeSeconds: pyResult.start,
-          markName: pyResult.word,
-        });
+
+      return this.parseStoredLines(songRows[0].timings);
+    } finally {
+      if (connection) {
+        connection.release();
       }
     }
+  }
 
-    if (currentLineTimings.length > 0 && lyrics[lineIndex]) {
-      results.push({
-        originalText: lyrics[lineIndex].original_text,
-        refinedText: currentLineTimings.map((t) => t.markName).join(" "),
-        timings: currentLineTimings,
-      });
-    }
+  // 마이그레이션 전 v1 타이밍도 읽을 수 있도록 v2로 변환해 반환
+  private parseStoredLines(timings: SongRow["timings"]): LyricWithTimings[] {
+    return timingSchemaService.upgradeSongTimings(timings)?.timings.lines ?? [];
+  }
 
-    // (Python 결과와 원본 라인 수 비교 - 디버깅용)
-    if (results.length !== lyrics.length) {
+  /**
+   * Spotify 가사의 라인 시작 시간을 lyric_line 순서에 맞춰 반환합니다.
+   * 정규화한 텍스트가 같은 라인을 순서대로 찾으며, 찾지 못한 라인은 null입니다.
+   */
+  private async fetchLineAnchors(
+    trackId: string,
+    lyrics: LyricLineRow[]
+  ): Promise<(number | null)[]> {
+    const spotifyLines = await lyricsService.fetchLyrics({
+      type: "spotify",
+      trackId,
+    });
+    // 싱크 정보가 없는 가사는 모든 라인이 "0"
+    if (spotifyLines.every((line) => Number(line.startTimeMs) === 0)) {
       console.warn(
-        `[Timing Mismatch] Expected ${lyrics.length} lines but got ${results.length} lines from Python alignment.`
+        `[SongTiming] Spotify lyrics for ${trackId} have no line timings.`
       );
+      return lyrics.map(() => null);
     }
 
-    return results;
-  }
+    const toKey = (text: string) =>
+      Array.from(
+        normalizeService
+          .normalize(text, DEFAULT_NORMALIZATION_RULES)
+          .text.toLowerCase()
+      )
+        .filter(isAlphanumericOrHangul)
+        .join("");
+    const spotifyKeys = spotifyLines.map((line) => toKey(line.words));
+
+    const starts: (number | null)[] = [];
+    let cursor = 0;
+    for (const line of lyrics) {
+      const key = toKey(line.original_text);
+      const limit = Math.min(
+        spotifyLines.length,
+        cursor + LINE_MATCH_LOOKAHEAD
+      );
+      let matched: number | null = null;
+      for (let idx = cursor; idx < limit; idx++) {
+        if (spotifyKeys[idx] === key) {
+          matched = idx;
+          break;
+        }
+      }
+      if (matched === null) {
+        starts.push(null);
+        continue;
+      }
+      starts.push(Number(spotifyLines[matched].startTimeMs));
+      cursor = matched + 1;
+    }
 
-  private async downloadAudio(url: string, songId: number): Promise<string> {
-    const tempFileName = `${Date.now()}_${songId}.mp3`;
-    const localPath = path.join(this.TEMP_DIR, tempFileName);
+    const matchedCount = starts.filter((start) => start !== null).length;
     console.log(
-      `[Downloader] Downloading audio from ${url} to ${localPath}...`
+      `[SongTiming] Matched ${matchedCount}/${lyrics.length} lines to Spotify line timings.`
     );
-
-    const client = url.startsWith("https:") ? https : http;
-    const fileStream = fs.createWriteStream(localPath);
-
-    return new Promise((resolve, reject) => {
-      client
-        .get(url, (response) => {
-          if (response.statusCode !== 200) {
-            reject(
-              new Error(
-                `Failed to download audio. Status code: ${response.statusCode}`
-              )
-            );
-            return;
-          }
-          response.pipe(fileStream);
-          fileStream.on("finish", () => {
-            fileStream.close();
-            console.log(`[Downloader] Audio downloaded to ${localPath}`);
-            resolve(localPath);
-          });
-        })
-        .on("error", (err) => {
-          fs.unlink(localPath, () => {}); // 에러 시 부분 파일 삭제
-          reject(err);
-        });
-    });
+    return starts;
   }
 
-  private async executeAlignment(
-    audioFilePath: string,
-    lyrics: string
-  ): Promise<PythonTimingResult[]> {
-    console.log(`[Alignment] Spawning Python script...`);
-    console.log(`[Alignment] Audio: ${audioFilePath}`);
-
-    return new Promise((resolve, reject) => {
-      const pythonProcess = spawn(this.PYTHON_EXECUTABLE, [
-        this.PYTHON_SCRIPT_PATH,
-        audioFilePath,
-        lyrics,
-      ]);
-
-      let jsonData = "";
-      let errorData = "";
-
-      pythonProcess.stdout.on("data", (data) => {
-        jsonData += data.toString();
-      });
-
-      pythonProcess.stderr.on("data", (data) => {
-        const logMessage = data.toString().trim();
-        if (logMessage) {
-          console.log(`[Python stderr]: ${logMessage}`);
-          errorData += logMessage + "\n";
-        }
-      });
-
-      pythonProcess.on("close", (code) => {
-        console.log(`[Alignment] Python process closed (Code: ${code})`);
-        if (code !== 0) {
-          return reject(
-            new Error(
-              `Python script failed with code ${code}. Stderr: ${errorData}`
-            )
-          );
-        }
-
-        try {
-          const jsonStartIndex = jsonData.indexOf("[");
-          if (jsonStartIndex === -1) {
-            // Python 스크립트가 { "error": "..." }를 반환하는 경우
-            const errorStartIndex = jsonData.indexOf("{");
-            if (errorStartIndex !== -1) {
-              const errorJson = JSON.parse(jsonData.substring(errorStartIndex));
-              if (errorJson.error) {
-                return reject(
-                  new Error(`Python script returned error: ${errorJson.error}`)
-                );
-              }
-            }
-            throw new Error("No JSON array ('[') found in Python stdout.");
-          }
-
-          const jsonString = jsonData.substring(jsonStartIndex);
-          const result = JSON.parse(jsonString);
-
-          if (Array.isArray(result)) {
-            console.log(
-              `[Alignment] Successfully parsed ${result.length} timed segments.`
-            );
-            resolve(result as PythonTimingResult[]);
-          } else {
-            reject(new Error("Python stdout was not a JSON array."));
-          }
-        } catch (error) {
-          let errorMessage = "An unknown error occurred during JSON parsing.";
-          if (error instanceof Error) {
-            errorMessage = error.message;
-          }
-
-          reject(
-            new Error(
-              `Failed to parse Python JSON output: ${errorMessage}. Raw data: ${jsonData.substring(
-                0,
-                500
-              )}...`
-            )
-          );
-        }
-      });
+  // 찾지 못한 라인은 앞뒤 라인 시간으로 보간 (앞이나 뒤에 기준 라인이 없으면 null)
+  private interpolateLineStarts(starts: (number | null)[]): (number | null)[] {
+    return starts.map((start, idx) => {
+      if (start !== null) return start;
+
+      let prev = idx - 1;
+      while (prev >= 0 && starts[prev] === null) prev--;
+      let next = idx + 1;
+      while (next < starts.length && starts[next] === null) next++;
+      if (prev < 0 || next >= starts.length) {
+        return null;
+      }
 
-      pythonProcess.on("error", (err) => {
-        reject(new Error(`Failed to spawn Python process: ${err.message}`));
-      });
+      const prevStart = starts[prev]!;
+      const nextStart = starts[next]!;
+      return Math.round(
+        prevStart + ((nextStart - prevStart) * (idx - prev)) / (next - prev)
+      );
     });
   }
 
+  private async deleteTempAudio(localAudioPath: string) {
+    try {
+      await fs.promises.unlink(localAudioPath);
+      console.log(`[Alignment] Deleted temp audio file: ${localAudioPath}`);
+    } catch (e) {
+      console.warn(
+        `[Alignment] Failed to delete temp audio file: ${localAudioPath}`,
+        e
+      );
+    }
+  }
+
   private async fetchSongById(
     connection: mysql.PoolConnection,
     songId: number
   ): Promise<SongRow[]> {
     const [rows] = await connection.query<mysql.RowDataPacket[]>(
-      `SELECT song_id, song_url
+      `SELECT song_id, song_url, timings
         FROM song
         WHERE song_id = ?
       `,
@@ -472,19 +534,6 @@ class SongTimingService {
     );
     return rows as LyricLineRow[];
   }
-
-  private async updateSongTimings(
-    connection: mysql.PoolConnection,
-    songId: number,
-    timingJson: string
-  ) {
-    await connection.execute(
-      `UPDATE song 
-         SET timings = ? 
-         WHERE song_id = ?`,
-      [timingJson, songId]
-    );
-  }
 }
 
 export const songTimingService = new SongTimingService();
@@ -0,0 +1,335 @@
+import { AlignerConfig } from "./aligner/aligner";
+import { TimingEditError } from "./errors";
+import { SongAlignment, songTimingService } from "./song-timing";
+import { timingHistoryService, TimingHistoryEntry } from "./timing-history";
+import { timingSchemaService } from "./timing-schema";
+import { timingValidatorService } from "./timing-validator";
+import {
+  AlignmentWindowOptions,
+  AudioPreprocessOptions,
+  LyricWithTimings,
+  StoredSongTimings,
+  SyllableTiming,
+} from "./types";
+
+export interface SyllableInput {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export type TimingEditOperation =
+  | {
+      // 음절 하나의 시간이나 텍스트 수정 (생략한 값은 유지)
+      type: "set-syllable";
+      lineIndex: number;
+      syllableIndex: number;
+      text?: string;
+      startSeconds?: number;
+      endSeconds?: number;
+    }
+  | {
+      // 라인의 음절 타이밍 전체 교체
+      type: "set-line";
+      lineIndex: number;
+      syllables: SyllableInput[];
+    }
+  | {
+      // lineIndex ~ toLineIndex 라인 전체를 offsetMs만큼 이동
+      type: "shift-lines";
+      lineIndex: number;
+      toLineIndex?: number;
+      offsetMs: number;
+    };
+
+export interface TimingEditAuthor {
+  author: string;
+  reason?: string;
+  baseVersion?: number;
+}
+
+export interface TimingEditInput extends TimingEditAuthor {
+  operations: TimingEditOperation[];
+}
+
+export interface TimingRealignInput extends TimingEditAuthor {
+  fromLine: number;
+  toLine: number;
+  aligner: AlignerConfig;
+  trackId?: string;
+  preprocess?: AudioPreprocessOptions;
+  windowing?: AlignmentWindowOptions;
+}
+
+export interface TimingRollbackInput extends TimingEditAuthor {
+  version: number;
+}
+
+/**
+ * song.timings 수동 수정 (음절/라인 수정, 라인 이동, 라인 구간 재정렬, 이전 버전으로 되돌리기)
+ * 모든 변경은 검사를 통과해야 저장되며 song_timing_history에 새 버전으로 기록됩니다.
+ * 노래가 없으면 null을 반환하고, 처리할 수 없는 요청은 TimingEditError를 던집니다.
+ */
+class TimingEditorService {
+  public async edit(
+    songId: number,
+    input: TimingEditInput
+  ): Promise<TimingHistoryEntry | null> {
+    return timingHistoryService.commit(
+      songId,
+      (current) => {
+        const timings = this.requireTimings(current);
+        const lines = timings.lines.map((line) => ({
+          ...line,
+          timings: [...line.timings],
+        }));
+        const touched = input.operations.flatMap((operation) =>
+          this.applyOperation(lines, operation)
+        );
+        return this.withCheckedLines(timings, lines, touched);
+      },
+      {
+        action: "edit",
+        author: input.author,
+        reason: input.reason,
+        baseVersion: input.baseVersion,
+      }
+    );
+  }
+
+  /**
+   * 노래 전체를 다시 정렬한 뒤 fromLine ~ toLine 라인의 타이밍만 교체합니다.
+   * 정렬은 트랜잭션 밖에서 실행되므로, 그 사이 다른 수정이 저장되었으면 baseVersion으로 거부할 수 있습니다.
+   */
+  public async realign(
+    songId: number,
+    input: TimingRealignInput
+  ): Promise<TimingHistoryEntry | null> {
+    // 생성 작업과 같이 POST /song-timing/:id/cancel로 취소할 수 있도록 등록
+    const controller = songTimingService.startJob(songId);
+    let alignment: SongAlignment | null;
+    try {
+      alignment = await songTimingService.align(
+        songId,
+        {
+          aligner: input.aligner,
+          trackId: input.trackId,
+          preprocess: input.preprocess,
+          windowing: input.windowing,
+        },
+        controller.signal
+      );
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new TimingEditError("재정렬이 취소되었습니다.", 409);
+      }
+      throw error;
+    } finally {
+      songTimingService.finishJob(songId, controller);
+    }
+    if (!alignment) {
+      return null;
+    }
+    if (controller.signal.aborted) {
+      throw new TimingEditError("재정렬이 취소되었습니다.", 409);
+    }
+
+    return timingHistoryService.commit(
+      songId,
+      (current) => {
+        const timings = this.requireTimings(current);
+        if (alignment.lines.length !== timings.lines.length) {
+          throw new TimingEditError(
+            `가사 라인 수가 저장된 타이밍과 다릅니다. (가사 ${alignment.lines.length}, 타이밍 ${timings.lines.length}) 전체 타이밍을 다시 생성해주세요.`,
+            409
+          );
+        }
+        this.requireLine(timings.lines, input.toLine);
+
+        const lines = [...timings.lines];
+        const touched: number[] = [];
+        for (let idx = input.fromLine; idx <= input.toLine; idx++) {
+          lines[idx] = alignment.lines[idx];
+          touched.push(idx);
+        }
+        return this.withCheckedLines(timings, lines, touched);
+      },
+      {
+        action: "realign",
+        author: input.author,
+        reason:
+          input.reason ??
+          `lines ${input.fromLine}-${input.toLine} (aligner: ${alignment.aligner.engine})`,
+        baseVersion: input.baseVersion,
+      }
+    );
+  }
+
+  /**
+   * 이전 버전의 타이밍을 새 버전으로 다시 저장합니다. (이력은 지우지 않음)
+   */
+  public async rollback(
+    songId: number,
+    input: TimingRollbackInput
+  ): Promise<TimingHistoryEntry | null> {
+    const target = await timingHistoryService.get(songId, input.version);
+    if (!target) {
+      throw new TimingEditError(
+        `버전 ${input.version}을 찾을 수 없습니다.`,
+        404
+      );
+    }
+    return timingHistoryService.commit(songId, () => target.timings, {
+      action: "rollback",
+      author: input.author,
+      reason: input.reason,
+      baseVersion: input.baseVersion,
+      sourceVersion: input.version,
+    });
+  }
+
+  // 수정한 라인을 반환
+  private applyOperation(
+    lines: LyricWithTimings[],
+    operation: TimingEditOperation
+  ): number[] {
+    switch (operation.type) {
+      case "set-syllable": {
+        const line = this.requireLine(lines, operation.lineIndex);
+        const timing = line.timings[operation.syllableIndex];
+        if (!timing) {
+          throw new TimingEditError(
+            `${operation.lineIndex}번 라인에 ${operation.syllableIndex}번째 음절이 없습니다.`,
+            400
+          );
+        }
+        const text = operation.text ?? timing.text;
+        line.timings[operation.syllableIndex] = this.manualSyllable(
+          text,
+          operation.startSeconds ?? timing.startSeconds,
+          operation.endSeconds ?? timing.endSeconds,
+          timing.charIndex
+        );
+        if (text !== timing.text) {
+          this.relocateLine(lines, operation.lineIndex);
+        }
+        return [operation.lineIndex];
+      }
+      case "set-line": {
+        const line = this.requireLine(lines, operation.lineIndex);
+        line.timings = operation.syllables.map((syllable) =>
+          this.manualSyllable(
+            syllable.text,
+            syllable.startSeconds,
+            syllable.endSeconds,
+            -1
+          )
+        );
+        this.relocateLine(lines, operation.lineIndex);
+        return [operation.lineIndex];
+      }
+      case "shift-lines": {
+        const toLineIndex = operation.toLineIndex ?? operation.lineIndex;
+        this.requireLine(lines, operation.lineIndex);
+        this.requireLine(lines, toLineIndex);
+        const offsetSeconds = operation.offsetMs / 1000;
+        const touched: number[] = [];
+        for (let idx = operation.lineIndex; idx <= toLineIndex; idx++) {
+          lines[idx].timings = lines[idx].timings.map((timing) =>
+            this.manualSyllable(
+              timing.text,
+              timing.startSeconds + offsetSeconds,
+              timing.endSeconds + offsetSeconds,
+              timing.charIndex
+            )
+          );
+          touched.push(idx);
+        }
+        return touched;
+      }
+      default: {
+        const unknownOperation: never = operation;
+        throw new TimingEditError(
+          `지원하지 않는 수정 유형입니다: "${(unknownOperation as { type: string }).type}"`,
+          400
+        );
+      }
+    }
+  }
+
+  private manualSyllable(
+    text: string,
+    startSeconds: number,
+    endSeconds: number,
+    charIndex: number
+  ): SyllableTiming {
+    const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+    return {
+      text,
+      startSeconds: round(startSeconds),
+      endSeconds: round(endSeconds),
+      durationSeconds: round(endSeconds - startSeconds),
+      source: "manual",
+      charIndex,
+    };
+  }
+
+  private relocateLine(lines: LyricWithTimings[], lineIndex: number) {
+    const line = lines[lineIndex];
+    line.timings = timingSchemaService.relocate(
+      line.timings,
+      line.originalText
+    );
+    line.refinedText = line.timings.map((timing) => timing.text).join(" ");
+  }
+
+  // 수정한 라인을 검사하고 신뢰도를 다시 계산 (Spotify 시작 시간은 저장하지 않으므로 제외)
+  private withCheckedLines(
+    timings: StoredSongTimings,
+    lines: LyricWithTimings[],
+    touched: number[]
+  ): StoredSongTimings {
+    const issues = timingValidatorService.checkEditedLines(lines, touched);
+    if (issues.length > 0) {
+      throw new TimingEditError(
+        "수정한 타이밍이 검사를 통과하지 못했습니다.",
+        400,
+        issues
+      );
+    }
+    return {
+      ...timings,
+      quality: timingValidatorService.validate(
+        lines,
+        lines.map((line) => ({
+          originalText: line.originalText,
+          anchorMs: null,
+        }))
+      ),
+      lines,
+    };
+  }
+
+  private requireTimings(current: StoredSongTimings | null): StoredSongTimings {
+    if (!current || current.lines.length === 0) {
+      throw new TimingEditError("아직 생성된 타이밍이 없습니다.", 404);
+    }
+    return current;
+  }
+
+  private requireLine(
+    lines: LyricWithTimings[],
+    lineIndex: number
+  ): LyricWithTimings {
+    const line = lines[lineIndex];
+    if (!line) {
+      throw new TimingEditError(
+        `${lineIndex}번 라인이 없습니다. (라인 수 ${lines.length})`,
+        400
+      );
+    }
+    return line;
+  }
+}
+
+export const timingEditorService = new TimingEditorService();
@@ -0,0 +1,352 @@
+import { LyricWithTimings } from "./types";
+
+export type TimingExportFormat = "lrc" | "elrc" | "srt" | "vtt" | "ttml" | "json";
+export type TimingCueLevel = "line" | "syllable";
+
+export interface TimingExportTracks {
+  // 라인 인덱스별 추가 텍스트 (타이밍이 없는 라인도 인덱스를 유지)
+  romanized?: string[];
+  translated?: string[];
+  translatedLang?: string;
+}
+
+export interface TimingExportOptions {
+  level: TimingCueLevel;
+  tracks: TimingExportTracks;
+}
+
+export interface TimingExportResult {
+  contentType: string;
+  fileExtension: string;
+  body: string;
+}
+
+interface SyllableCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  charIndex: number; // originalText 내 위치 (찾지 못하면 -1)
+}
+
+interface LineCue {
+  lineIndex: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+  syllables: SyllableCue[];
+}
+
+// 다음 라인이 멀리 떨어져 있을 때 마지막 음절이 끝난 뒤 라인을 유지하는 시간
+const LINE_TAIL_MS = 1000;
+
+class TimingExportService {
+  public export(
+    lines: LyricWithTimings[],
+    format: TimingExportFormat,
+    options: TimingExportOptions
+  ): TimingExportResult {
+    const cues = this.buildCues(lines);
+
+    switch (format) {
+      case "lrc":
+        return {
+          contentType: "text/plain; charset=utf-8",
+          fileExtension: "lrc",
+          body: this.toLrc(cues, false),
+        };
+      case "elrc":
+        return {
+          contentType: "text/plain; charset=utf-8",
+          fileExtension: "lrc",
+          body: this.toLrc(cues, true),
+        };
+      case "srt":
+        return {
+          contentType: "application/x-subrip; charset=utf-8",
+          fileExtension: "srt",
+          body: this.toSrt(cues, options),
+        };
+      case "vtt":
+        return {
+          contentType: "text/vtt; charset=utf-8",
+          fileExtension: "vtt",
+          body: this.toVtt(cues, options),
+        };
+      case "ttml":
+        return {
+          contentType: "application/ttml+xml; charset=utf-8",
+          fileExtension: "ttml",
+          body: this.toTtml(cues, options),
+        };
+      case "json":
+        return {
+          contentType: "application/json; charset=utf-8",
+          fileExtension: "json",
+          body: JSON.stringify(this.toJson(lines, cues, options)),
+        };
+    }
+  }
+
+  private buildCues(lines: LyricWithTimings[]): LineCue[] {
+    const timedLines = lines
+      .map((line, lineIndex) => ({ line, lineIndex }))
+      .filter(({ line }) => line.timings.length > 0);
+
+    return timedLines.map(({ line, lineIndex }, idx) => {
+      const starts = line.timings.map((t) => Math.round(t.startSeconds * 1000));
+      const lastStart = starts[starts.length - 1];
+      const lastEnd = Math.round(
+        line.timings[line.timings.length - 1].endSeconds * 1000
+      );
+      const nextLineStart =
+        idx + 1 < timedLines.length
+          ? Math.round(timedLines[idx + 1].line.timings[0].startSeconds * 1000)
+          : Infinity;
+      const endMs = Math.max(
+        lastStart,
+        Math.min(nextLineStart, lastEnd + LINE_TAIL_MS)
+      );
+
+      const syllables = line.timings.map((timing, sIdx) => ({
+        startMs: starts[sIdx],
+        endMs: Math.min(Math.round(timing.endSeconds * 1000), endMs),
+        text: timing.text,
+        charIndex: timing.charIndex,
+      }));
+
+      return {
+        lineIndex,
+        startMs: starts[0],
+        endMs,
+        text: line.originalText,
+        syllables,
+      };
+    });
+  }
+
+  private toLrc(cues: LineCue[], enhanced: boolean): string {
+    return cues
+      .map((cue) => {
+        const lineTag = `[${this.formatLrcTime(cue.startMs)}]`;
+        if (!enhanced) {
+          return `${lineTag}${cue.text}`;
+        }
+
+        const body = this.interleaveTimestamps(
+          cue,
+          (ms) => `<${this.formatLrcTime(ms)}>`,
+          (text) => text,
+          true
+        );
+        return `${lineTag}${body} <${this.formatLrcTime(cue.endMs)}>`;
+      })
+      .join("\n");
+  }
+
+  private toSrt(cues: LineCue[], options: TimingExportOptions): string {
+    const entries =
+      options.level === "syllable"
+        ? cues.flatMap((cue) =>
+            cue.syllables.map((s) => ({
+              startMs: s.startMs,
+              endMs: s.endMs,
+              text: s.text,
+            }))
+          )
+        : cues.map((cue) => ({
+            startMs: cue.startMs,
+            endMs: cue.endMs,
+            text: [cue.text, ...this.extraTrackLines(cue, options)].join("\n"),
+          }));
+
+    return entries
+      .map(
+        (entry, idx) =>
+          `${idx + 1}\n${this.formatClock(entry.startMs, ",")} --> ${this.formatClock(
+            entry.endMs,
+            ","
+          )}\n${entry.text}`
+      )
+      .join("\n\n");
+  }
+
+  private toVtt(cues: LineCue[], options: TimingExportOptions): string {
+    const blocks = cues.map((cue) => {
+      // syllable 레벨은 WebVTT karaoke 방식의 cue 내부 타임스탬프로 표현 (cue 시작보다 커야 함)
+      const text =
+        options.level === "syllable"
+          ? this.interleaveTimestamps(
+              cue,
+              (ms) => `<${this.formatClock(ms, ".")}>`,
+              (text) => this.escapeXml(text),
+              false
+            )
+          : this.escapeXml(cue.text);
+      const extra = this.extraTrackLines(cue, options).map((line) =>
+        this.escapeXml(line)
+      );
+
+      return `${this.formatClock(cue.startMs, ".")} --> ${this.formatClock(
+        cue.endMs,
+        "."
+      )}\n${[text, ...extra].join("\n")}`;
+    });
+
+    return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+  }
+
+  private toTtml(cues: LineCue[], options: TimingExportOptions): string {
+    const paragraph = (cue: LineCue, text: string, withSpans: boolean) => {
+      const begin = this.formatClock(cue.startMs, ".");
+      const end = this.formatClock(cue.endMs, ".");
+      if (!withSpans) {
+        return `      <p begin="${begin}" end="${end}">${this.escapeXml(text)}</p>`;
+      }
+      // 자식 요소의 시간은 부모 <p> 시작 기준의 상대 시간
+      const spans = cue.syllables
+        .map(
+          (s) =>
+            `<span begin="${this.formatClock(
+              s.startMs - cue.startMs,
+              "."
+            )}" end="${this.formatClock(
+              s.endMs - cue.startMs,
+              "."
+            )}">${this.escapeXml(s.text)}</span>`
+        )
+        .join("");
+      return `      <p begin="${begin}" end="${end}">${spans}</p>`;
+    };
+
+    const divs = [
+      `    <div xml:lang="ko">\n${cues
+        .map((cue) => paragraph(cue, cue.text, options.level === "syllable"))
+        .join("\n")}\n    </div>`,
+    ];
+    const { romanized, translated, translatedLang } = options.tracks;
+    if (romanized) {
+      divs.push(
+        `    <div xml:lang="ko-Latn">\n${cues
+          .map((cue) => paragraph(cue, romanized[cue.lineIndex] || "", false))
+          .join("\n")}\n    </div>`
+      );
+    }
+    if (translated) {
+      divs.push(
+        `    <div xml:lang="${this.escapeXml(translatedLang || "en")}">\n${cues
+          .map((cue) => paragraph(cue, translated[cue.lineIndex] || "", false))
+          .join("\n")}\n    </div>`
+      );
+    }
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="ko">`,
+      `  <body>`,
+      ...divs,
+      `  </body>`,
+      `</tt>`,
+      "",
+    ].join("\n");
+  }
+
+  private toJson(
+    lines: LyricWithTimings[],
+    cues: LineCue[],
+    options: TimingExportOptions
+  ) {
+    const cueByLine = new Map(cues.map((cue) => [cue.lineIndex, cue]));
+    return lines.map((line, lineIndex) => {
+      const cue = cueByLine.get(lineIndex);
+      return {
+        ...line,
+        startMs: cue ? cue.startMs : null,
+        endMs: cue ? cue.endMs : null,
+        romanized: options.tracks.romanized?.[lineIndex],
+        translated: options.tracks.translated?.[lineIndex],
+      };
+    });
+  }
+
+  /**
+   * 원문 문자 위치 앞에 음절 시작 타임스탬프를 삽입해 원문 띄어쓰기를 유지합니다.
+   * 원문에서 음절을 찾지 못하면 음절 텍스트를 공백으로 이어 붙입니다.
+   */
+  private interleaveTimestamps(
+    cue: LineCue,
+    tag: (ms: number) => string,
+    escape: (text: string) => string,
+    includeLineStart: boolean
+  ): string {
+    const shouldTag = (ms: number) => includeLineStart || ms > cue.startMs;
+    const located = cue.syllables.filter((s) => s.charIndex >= 0);
+
+    if (located.length === 0) {
+      return cue.syllables
+        .map((s) => `${shouldTag(s.startMs) ? tag(s.startMs) : ""}${escape(s.text)}`)
+        .join(" ");
+    }
+
+    let body = "";
+    let cursor = 0;
+    for (const syllable of located) {
+      body += escape(cue.text.slice(cursor, syllable.charIndex));
+      if (shouldTag(syllable.startMs)) {
+        body += tag(syllable.startMs);
+      }
+      cursor = syllable.charIndex;
+    }
+    return body + escape(cue.text.slice(cursor));
+  }
+
+  private extraTrackLines(cue: LineCue, options: TimingExportOptions) {
+    const extra: string[] = [];
+    const { romanized, translated } = options.tracks;
+    if (romanized && romanized[cue.lineIndex]) {
+      extra.push(romanized[cue.lineIndex]);
+    }
+    if (translated && translated[cue.lineIndex]) {
+      extra.push(translated[cue.lineIndex]);
+    }
+    return extra;
+  }
+
+  // mm:ss.xx
+  private formatLrcTime(ms: number): string {
+    const totalCentis = Math.round(Math.max(0, ms) / 10);
+    const minutes = Math.floor(totalCentis / 6000);
+    const seconds = Math.floor((totalCentis % 6000) / 100);
+    const centis = totalCentis % 100;
+    return `${this.pad(minutes, 2)}:${this.pad(seconds, 2)}.${this.pad(
+      centis,
+      2
+    )}`;
+  }
+
+  // HH:MM:SS,mmm (SRT) 또는 HH:MM:SS.mmm (WebVTT, TTML)
+  private formatClock(ms: number, separator: "," | "."): string {
+    const total = Math.round(Math.max(0, ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const millis = total % 1000;
+    return `${this.pad(hours, 2)}:${this.pad(minutes, 2)}:${this.pad(
+      seconds,
+      2
+    )}${separator}${this.pad(millis, 3)}`;
+  }
+
+  private pad(value: number, length: number): string {
+    return String(value).padStart(length, "0");
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
+
+export const timingExportService = new TimingExportService();
@@ -0,0 +1,294 @@
+import mysql from "mysql2/promise";
+import { timingSchemaService } from "./timing-schema";
+import { TimingEditError } from "./errors";
+import { StoredSongTimings } from "./types";
+
+export const TIMING_CHANGE_ACTIONS = [
+  "baseline", // 이력 기록 전부터 song.timings에 있던 타이밍
+  "generate",
+  "edit",
+  "realign",
+  "rollback",
+] as const;
+export type TimingChangeAction = (typeof TIMING_CHANGE_ACTIONS)[number];
+
+export interface TimingChangeMeta {
+  action: TimingChangeAction;
+  author: string;
+  reason?: string | null;
+  // 지정하면 현재 버전이 다를 때 저장하지 않음 (동시 수정 방지)
+  baseVersion?: number;
+  // rollback 대상 버전
+  sourceVersion?: number | null;
+}
+
+interface TimingHistoryRow {
+  history_id: number;
+  song_id: number;
+  version: number;
+  action: TimingChangeAction;
+  author: string;
+  reason: string | null;
+  source_version: number | null;
+  score: number | string | null;
+  timings?: string | object;
+  created_at: Date;
+}
+
+export interface TimingHistoryEntry {
+  historyId: number;
+  songId: number;
+  version: number;
+  action: TimingChangeAction;
+  author: string;
+  reason: string | null;
+  sourceVersion: number | null;
+  score: number | null; // 저장 당시 quality.score
+  createdAt: string;
+}
+
+export interface TimingHistoryVersion extends TimingHistoryEntry {
+  timings: StoredSongTimings;
+}
+
+export interface CurrentSongTimings {
+  songId: number;
+  version: number; // 이력이 없으면 0
+  timings: StoredSongTimings | null;
+}
+
+/**
+ * song.timings의 변경 이력(song_timing_history)을 관리합니다.
+ * 타이밍은 항상 이 서비스를 통해 저장하며, 저장할 때마다 노래별로 1씩 증가하는 버전이 기록됩니다.
+ */
+class TimingHistoryService {
+  private dbPool: mysql.Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor() {
+    this.dbPool = mysql.createPool({
+      host: process.env.DB_HOST || "localhost",
+      user: process.env.DB_USERNAME,
+      password: process.env.DB_PASSWORD,
+      database: process.env.DB_NAME,
+      port: parseInt(process.env.DB_PORT || "3306"),
+      waitForConnections: true,
+      connectionLimit: 5,
+      queueLimit: 0,
+    });
+  }
+
+  /**
+   * 현재 타이밍과 버전을 반환합니다. 노래가 없으면 null입니다.
+   */
+  public async getCurrent(songId: number): Promise<CurrentSongTimings | null> {
+    await this.ensureSchema();
+    const [songRows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT timings FROM song WHERE song_id = ?`,
+      [songId]
+    );
+    if (songRows.length === 0) {
+      return null;
+    }
+    const [versionRows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT COALESCE(MAX(version), 0) AS version
+        FROM song_timing_history
+        WHERE song_id = ?`,
+      [songId]
+    );
+    return {
+      songId,
+      version: Number(versionRows[0].version),
+      timings:
+        timingSchemaService.upgradeSongTimings(songRows[0].timings)?.timings ??
+        null,
+    };
+  }
+
+  public async list(songId: number): Promise<TimingHistoryEntry[]> {
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT history_id, song_id, version, action, author, reason, source_version, score, created_at
+        FROM song_timing_history
+        WHERE song_id = ?
+        ORDER BY version DESC`,
+      [songId]
+    );
+    return (rows as TimingHistoryRow[]).map((row) => this.toEntry(row));
+  }
+
+  public async get(
+    songId: number,
+    version: number
+  ): Promise<TimingHistoryVersion | null> {
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT * FROM song_timing_history WHERE song_id = ? AND version = ?`,
+      [songId, version]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    const row = rows[0] as TimingHistoryRow;
+    // 손상되었거나 비어 있는 이력은 읽을 수 없는 버전으로 응답
+    const upgraded = timingSchemaService.upgradeSongTimings(row.timings);
+    if (!upgraded) {
+      throw new TimingEditError(
+        `버전 ${version}의 타이밍을 읽을 수 없습니다.`,
+        404
+      );
+    }
+    return { ...this.toEntry(row), timings: upgraded.timings };
+  }
+
+  public async save(
+    songId: number,
+    timings: StoredSongTimings,
+    meta: TimingChangeMeta
+  ): Promise<TimingHistoryEntry | null> {
+    return this.commit(songId, () => timings, meta);
+  }
+
+  /**
+   * 현재 타이밍에 change를 적용한 결과를 새 버전으로 저장하고 song.timings를 갱신합니다.
+   * 노래 행을 잠근 트랜잭션 안에서 실행되므로 change는 오래 걸리는 작업을 하면 안 됩니다.
+   * 노래가 없으면 null을 반환합니다.
+   */
+  public async commit(
+    songId: number,
+    change: (current: StoredSongTimings | null) => StoredSongTimings,
+    meta: TimingChangeMeta
+  ): Promise<TimingHistoryEntry | null> {
+    await this.ensureSchema();
+    const connection = await this.dbPool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const [songRows] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT timings FROM song WHERE song_id = ? FOR UPDATE`,
+        [songId]
+      );
+      if (songRows.length === 0) {
+        await connection.rollback();
+        return null;
+      }
+
+      const [versionRows] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT COALESCE(MAX(version), 0) AS version
+          FROM song_timing_history
+          WHERE song_id = ?`,
+        [songId]
+      );
+      let version = Number(versionRows[0].version);
+      if (meta.baseVersion !== undefined && meta.baseVersion !== version) {
+        throw new TimingEditError(
+          `타이밍이 다른 요청으로 수정되었습니다. (기준 버전 ${meta.baseVersion}, 현재 버전 ${version})`,
+          409
+        );
+      }
+
+      const current =
+        timingSchemaService.upgradeSongTimings(songRows[0].timings)?.timings ??
+        null;
+      // 이력 기록 전부터 있던 타이밍도 되돌릴 수 있도록 먼저 기준 버전으로 남김
+      if (version === 0 && current) {
+        version = 1;
+        await this.insert(connection, songId, version, current, {
+          action: "baseline",
+          author: "system",
+        });
+      }
+
+      const next = change(current);
+      version++;
+      await this.insert(connection, songId, version, next, meta);
+      await connection.execute(
+        `UPDATE song SET timings = ? WHERE song_id = ?`,
+        [JSON.stringify(next), songId]
+      );
+      await connection.commit();
+      console.log(
+        `[TimingHistory] songId ${songId}: saved version ${version} (${meta.action} by ${meta.author})`
+      );
+
+      const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+        `SELECT history_id, song_id, version, action, author, reason, source_version, score, created_at
+          FROM song_timing_history
+          WHERE song_id = ? AND version = ?`,
+        [songId, version]
+      );
+      return this.toEntry(rows[0] as TimingHistoryRow);
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async insert(
+    connection: mysql.PoolConnection,
+    songId: number,
+    version: number,
+    timings: StoredSongTimings,
+    meta: TimingChangeMeta
+  ) {
+    await connection.execute(
+      `INSERT INTO song_timing_history
+        (song_id, version, action, author, reason, source_version, score, timings)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        songId,
+        version,
+        meta.action,
+        meta.author,
+        meta.reason ?? null,
+        meta.sourceVersion ?? null,
+        timings.quality.score,
+        JSON.stringify(timings),
+      ]
+    );
+  }
+
+  private toEntry(row: TimingHistoryRow): TimingHistoryEntry {
+    return {
+      historyId: row.history_id,
+      songId: row.song_id,
+      version: row.version,
+      action: row.action,
+      author: row.author,
+      reason: row.reason,
+      sourceVersion: row.source_version,
+      score: row.score === null ? null : Number(row.score),
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.dbPool
+        .execute(
+          `CREATE TABLE IF NOT EXISTS song_timing_history (
+            history_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+            song_id BIGINT NOT NULL,
+            version INT NOT NULL,
+            action VARCHAR(16) NOT NULL,
+            author VARCHAR(128) NOT NULL,
+            reason VARCHAR(512) NULL,
+            source_version INT NULL,
+            score DECIMAL(4, 3) NULL,
+            timings JSON NOT NULL,
+            created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE KEY uq_song_timing_history_version (song_id, version)
+          )`
+        )
+        .then(() => undefined)
+        .catch((error) => {
+          this.schemaReady = null; // 다음 호출에서 재시도
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
+
+export const timingHistoryService = new TimingHistoryService();
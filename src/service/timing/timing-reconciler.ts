@@ -0,0 +1,251 @@
+import { TimedText } from "./timing-schema";
+import { isAlphanumericOrHangul } from "../processor/hangul";
+import { LyricWithTimings } from "./types";
+import { AlignmentLine } from "./aligner/types";
+import { UniformAligner } from "./aligner/uniform-aligner";
+
+export interface ReconciledLine {
+  words: TimedText[];
+  coverage: number; // 라인의 비교 대상 문자 중 같은 문자와 짝지어진 비율
+}
+
+// 서열 정렬 점수 (문자 일치 / 불일치 / 건너뜀)
+const MATCH_SCORE = 2;
+const MISMATCH_SCORE = -1;
+const GAP_SCORE = -1;
+// 단어 시작 시간이 라인의 Spotify 구간을 벗어나면 짝짓기 점수를 깎음 (반복되는 후렴 구분용)
+const OUT_OF_WINDOW_PENALTY = 2;
+const WINDOW_TOLERANCE_MS = 2000;
+// 보간할 때의 최대 라인 길이, 다음 라인 시작 시간이 없는 라인(마지막 라인)의 구간 길이 (uniform 엔진 기본값과 같음)
+const MAX_LINE_WINDOW_MS = 8000;
+const LAST_LINE_WINDOW_MS = 4000;
+// 커버리지가 이보다 낮은 라인은 정렬 실패로 보고 Spotify 구간 안에서 보간
+const MIN_LINE_COVERAGE = 0.3;
+
+// 역추적 방향
+const FROM_DIAGONAL = 1;
+const FROM_UP = 2; // 가사 문자 건너뜀
+const FROM_LEFT = 3; // 정렬 결과 문자 건너뜀
+
+interface SequenceChar {
+  char: string;
+  owner: number; // 가사 쪽은 라인 인덱스, 정렬 결과 쪽은 단어 인덱스
+}
+
+class TimingReconcilerService {
+  /**
+   * 정렬 엔진이 돌려준 단어들을 가사 라인에 다시 배정합니다.
+   * 라인 구분자 토큰에 의존하지 않고, 가사 전체 문자열과 정렬 결과 문자열을 전역 서열 정렬(Needleman-Wunsch)해
+   * 각 단어를 가장 많은 문자가 짝지어진 라인에 넣습니다. Spotify 라인 시작 시간이 있으면 구간 밖 짝짓기에 감점합니다.
+   * lineTexts는 정렬 엔진에 보낸 라인별 텍스트입니다.
+   */
+  public assignWords(
+    words: TimedText[],
+    lines: AlignmentLine[],
+    lineTexts: string[]
+  ): ReconciledLine[] {
+    const expected: SequenceChar[] = lineTexts.flatMap((text, lineIdx) =>
+      this.comparableChars(text).map((char) => ({ char, owner: lineIdx }))
+    );
+    const aligned: SequenceChar[] = words.flatMap((word, wordIdx) =>
+      this.comparableChars(word.text).map((char) => ({ char, owner: wordIdx }))
+    );
+    const windows = this.lineWindows(lines);
+
+    const pairs = this.align(expected, aligned, (e, a) => {
+      let score = e.char === a.char ? MATCH_SCORE : MISMATCH_SCORE;
+      const window = windows[e.owner];
+      const startMs = words[a.owner].startSeconds * 1000;
+      if (
+        window &&
+        (startMs < window.startMs - WINDOW_TOLERANCE_MS ||
+          startMs > window.endMs + WINDOW_TOLERANCE_MS)
+      ) {
+        score -= OUT_OF_WINDOW_PENALTY;
+      }
+      return score;
+    });
+
+    // 단어별로 짝지어진 라인 투표
+    const votes = words.map(() => new Map<number, number>());
+    const matchedChars = lines.map(() => 0);
+    for (const [expectedIdx, alignedIdx] of pairs) {
+      const lineIdx = expected[expectedIdx].owner;
+      const wordVotes = votes[aligned[alignedIdx].owner];
+      wordVotes.set(lineIdx, (wordVotes.get(lineIdx) ?? 0) + 1);
+      if (expected[expectedIdx].char === aligned[alignedIdx].char) {
+        matchedChars[lineIdx]++;
+      }
+    }
+
+    const result: ReconciledLine[] = lineTexts.map((text, lineIdx) => {
+      const total = this.comparableChars(text).length;
+      return {
+        words: [],
+        coverage: total > 0 ? matchedChars[lineIdx] / total : 1,
+      };
+    });
+    let currentLine = 0;
+    let dropped = 0;
+    for (const [wordIdx, word] of words.entries()) {
+      if (this.comparableChars(word.text).length === 0) {
+        // "♪" 같은 기호는 앞 단어와 같은 라인에 둠
+        result[currentLine]?.words.push(word);
+        continue;
+      }
+      const vote = this.topVote(votes[wordIdx]);
+      if (vote === null) {
+        // 어떤 가사 문자와도 짝지어지지 않은 단어 (인식 오류로 끼어든 단어)
+        dropped++;
+        continue;
+      }
+      // 단어 순서가 라인 순서를 거스르지 않도록 유지
+      currentLine = Math.max(currentLine, vote);
+      result[currentLine].words.push(word);
+    }
+
+    if (dropped > 0) {
+      console.warn(
+        `[Reconcile] Dropped ${dropped}/${words.length} aligned words that match no lyric text.`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 정렬에 실패한 라인(커버리지 부족)을 Spotify 라인 구간 안에 음절을 균등 배치한 타이밍으로 채웁니다.
+   * 라인 시작 시간을 알 수 없는 라인은 그대로 둡니다.
+   */
+  public async fillUnaligned(
+    results: LyricWithTimings[],
+    reconciled: ReconciledLine[],
+    lines: AlignmentLine[]
+  ): Promise<LyricWithTimings[]> {
+    const unaligned = lines
+      .map((line, lineIdx) => lineIdx)
+      .filter(
+        (lineIdx) =>
+          lines[lineIdx].text.trim() !== "" &&
+          lines[lineIdx].startTimeMs !== null &&
+          (reconciled[lineIdx].words.length === 0 ||
+            reconciled[lineIdx].coverage < MIN_LINE_COVERAGE)
+      );
+    if (unaligned.length === 0) {
+      return results;
+    }
+
+    const fallback = await new UniformAligner({
+      maxLineDurationMs: MAX_LINE_WINDOW_MS,
+      lastLineDurationMs: LAST_LINE_WINDOW_MS,
+    }).align({ songId: 0, audioPath: null, lines });
+    console.warn(
+      `[Reconcile] Interpolated ${unaligned.length}/${lines.length} unaligned lines inside their Spotify windows.`
+    );
+
+    const filled = [...results];
+    for (const lineIdx of unaligned) {
+      filled[lineIdx] = fallback[lineIdx];
+    }
+    return filled;
+  }
+
+  // 라인별 Spotify 구간 (시작 시간이 없으면 null)
+  private lineWindows(
+    lines: AlignmentLine[]
+  ): ({ startMs: number; endMs: number } | null)[] {
+    return lines.map((line, lineIdx) => {
+      if (line.startTimeMs === null) return null;
+      const nextStart = lines
+        .slice(lineIdx + 1)
+        .find((next) => next.startTimeMs !== null)?.startTimeMs;
+      return {
+        startMs: line.startTimeMs,
+        endMs:
+          nextStart !== undefined && nextStart !== null
+            ? nextStart
+            : line.startTimeMs + LAST_LINE_WINDOW_MS,
+      };
+    });
+  }
+
+  /**
+   * 전역 서열 정렬 후 짝지어진 위치 쌍([가사 인덱스, 정렬 결과 인덱스])을 순서대로 반환합니다.
+   */
+  private align(
+    expected: SequenceChar[],
+    aligned: SequenceChar[],
+    pairScore: (e: SequenceChar, a: SequenceChar) => number
+  ): [number, number][] {
+    const rows = expected.length;
+    const cols = aligned.length;
+    const width = cols + 1;
+    const trace = new Uint8Array((rows + 1) * width);
+
+    let prev = new Int32Array(width);
+    for (let j = 1; j <= cols; j++) {
+      prev[j] = j * GAP_SCORE;
+      trace[j] = FROM_LEFT;
+    }
+    for (let i = 1; i <= rows; i++) {
+      const current = new Int32Array(width);
+      current[0] = i * GAP_SCORE;
+      trace[i * width] = FROM_UP;
+      for (let j = 1; j <= cols; j++) {
+        const diagonal =
+          prev[j - 1] + pairScore(expected[i - 1], aligned[j - 1]);
+        const up = prev[j] + GAP_SCORE;
+        const left = current[j - 1] + GAP_SCORE;
+        if (diagonal >= up && diagonal >= left) {
+          current[j] = diagonal;
+          trace[i * width + j] = FROM_DIAGONAL;
+        } else if (up >= left) {
+          current[j] = up;
+          trace[i * width + j] = FROM_UP;
+        } else {
+          current[j] = left;
+          trace[i * width + j] = FROM_LEFT;
+        }
+      }
+      prev = current;
+    }
+
+    const pairs: [number, number][] = [];
+    let i = rows;
+    let j = cols;
+    while (i > 0 || j > 0) {
+      const from = trace[i * width + j];
+      if (from === FROM_DIAGONAL) {
+        pairs.push([i - 1, j - 1]);
+        i--;
+        j--;
+      } else if (from === FROM_UP) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    return pairs.reverse();
+  }
+
+  // 표가 같으면 앞 라인
+  private topVote(votes: Map<number, number>): number | null {
+    let top: number | null = null;
+    for (const [lineIdx, count] of votes) {
+      if (
+        top === null ||
+        count > votes.get(top)! ||
+        (count === votes.get(top)! && lineIdx < top)
+      ) {
+        top = lineIdx;
+      }
+    }
+    return top;
+  }
+
+  // 공백, 문장 부호 등을 뺀 비교 대상 문자
+  private comparableChars(text: string): string[] {
+    return Array.from(text.toLowerCase()).filter(isAlphanumericOrHangul);
+  }
+}
+
+export const timingReconcilerService = new TimingReconcilerService();
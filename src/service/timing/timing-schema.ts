@@ -0,0 +1,297 @@
+import { timingValidatorService } from "./timing-validator";
+import {
+  LyricWithTimings,
+  LyricWithTimingsV1,
+  StoredLineTimings,
+  StoredSongTimings,
+  SyllableTiming,
+  SyllableTimingV1,
+  TimingSource,
+  TIMING_SCHEMA_VERSION,
+} from "./types";
+
+export interface TimedText {
+  text: string;
+  startSeconds: number;
+  endSeconds?: number | null; // 없으면 다음 음절 시작까지
+  charIndex?: number; // 없으면 originalText에서 찾음
+}
+
+export interface BuildSyllableOptions {
+  originalText?: string;
+  // 마지막 음절이 넘지 않아야 하는 시간 (예: 다음 라인 시작)
+  maxEndSeconds?: number | null;
+}
+
+export interface UpgradeResult<T> {
+  timings: T;
+  upgraded: boolean; // v1에서 변환했으면 true
+}
+
+// 끝 시간을 알 수 없는 마지막 음절에 평균 음절 길이를 구할 수 없을 때 사용하는 길이
+const DEFAULT_LAST_SYLLABLE_SECONDS = 0.5;
+
+class TimingSchemaService {
+  /**
+   * 음절 목록을 v2 타이밍으로 만듭니다.
+   * 끝 시간이 없는 음절은 다음 음절 시작까지로 보고, 마지막 음절은 앞 음절들의 평균 길이만큼 유지합니다.
+   */
+  public buildSyllables(
+    items: TimedText[],
+    source: TimingSource,
+    { originalText, maxEndSeconds = null }: BuildSyllableOptions = {}
+  ): SyllableTiming[] {
+    const located = originalText
+      ? this.locate(
+          originalText,
+          items.map((item) => item.text)
+        )
+      : [];
+
+    const ends = items.map((item, idx) => {
+      if (item.endSeconds !== undefined && item.endSeconds !== null) {
+        return item.endSeconds;
+      }
+      return idx + 1 < items.length ? items[idx + 1].startSeconds : null;
+    });
+    const knownDurations = ends
+      .map((end, idx) => (end === null ? null : end - items[idx].startSeconds))
+      .filter((duration): duration is number => duration !== null);
+    const averageDuration =
+      knownDurations.length > 0
+        ? knownDurations.reduce((sum, d) => sum + d, 0) / knownDurations.length
+        : DEFAULT_LAST_SYLLABLE_SECONDS;
+
+    return items.map((item, idx) => {
+      let end = ends[idx];
+      if (end === null) {
+        end = item.startSeconds + averageDuration;
+        if (maxEndSeconds !== null && maxEndSeconds > item.startSeconds) {
+          end = Math.min(end, maxEndSeconds);
+        }
+      }
+      end = Math.max(end, item.startSeconds);
+
+      const startSeconds = this.round(item.startSeconds);
+      const endSeconds = this.round(end);
+      return {
+        text: item.text,
+        startSeconds,
+        endSeconds,
+        durationSeconds: this.round(endSeconds - startSeconds),
+        source,
+        charIndex: item.charIndex ?? located[idx] ?? -1,
+      };
+    });
+  }
+
+  /**
+   * 음절 텍스트를 원문 문자 위치에 앞에서부터 순서대로 대응시킵니다. (찾지 못한 음절은 -1)
+   */
+  public locate(originalText: string, texts: string[]): number[] {
+    let cursor = 0;
+    return texts.map((text) => {
+      const index = text ? originalText.indexOf(text, cursor) : -1;
+      if (index === -1) return -1;
+      cursor = index + text.length;
+      return index;
+    });
+  }
+
+  /**
+   * 다른 텍스트(예: 정규화 후 합성한 TTS 텍스트) 기준 charIndex를 originalText 기준으로 다시 계산합니다.
+   */
+  public relocate(
+    syllables: SyllableTiming[],
+    originalText: string
+  ): SyllableTiming[] {
+    const located = this.locate(
+      originalText,
+      syllables.map((syllable) => syllable.text)
+    );
+    return syllables.map((syllable, idx) => ({
+      ...syllable,
+      charIndex: located[idx],
+    }));
+  }
+
+  /**
+   * 음절 시간을 offsetSeconds만큼 옮깁니다. (예: 잘라낸 오디오 기준 결과를 원곡 시간으로 되돌림)
+   */
+  public shift(
+    syllables: SyllableTiming[],
+    offsetSeconds: number
+  ): SyllableTiming[] {
+    return syllables.map((syllable) => ({
+      ...syllable,
+      startSeconds: this.round(syllable.startSeconds + offsetSeconds),
+      endSeconds: this.round(syllable.endSeconds + offsetSeconds),
+    }));
+  }
+
+  /**
+   * song.timings 값을 v2로 읽습니다. v1(라인 배열 또는 버전 없는 객체)이면 변환하며, 비어 있으면 null입니다.
+   */
+  public upgradeSongTimings(
+    raw: unknown
+  ): UpgradeResult<StoredSongTimings> | null {
+    const value = this.parseJson(raw);
+    if (!value) {
+      return null;
+    }
+    if (this.isVersioned(value)) {
+      return { timings: value as StoredSongTimings, upgraded: false };
+    }
+
+    // 버전 없는 객체는 정렬 엔진 정보만 추가된 v1
+    const envelope = Array.isArray(value)
+      ? null
+      : (value as Partial<StoredSongTimings>);
+    const v1Lines = (
+      Array.isArray(value) ? value : envelope?.lines || []
+    ) as LyricWithTimingsV1[];
+    const source: TimingSource = envelope?.aligner?.engine ?? "legacy";
+
+    const lines: LyricWithTimings[] = v1Lines.map((line, lineIdx) => {
+      const nextLine = v1Lines
+        .slice(lineIdx + 1)
+        .find((next) => next.timings.length > 0);
+      return {
+        originalText: line.originalText,
+        refinedText: line.refinedText,
+        timings: this.buildSyllables(
+          line.timings.map((t) => ({
+            text: t.markName,
+            startSeconds: t.timeSeconds,
+          })),
+          source,
+          {
+            originalText: line.originalText,
+            maxEndSeconds: nextLine ? nextLine.timings[0].timeSeconds : null,
+          }
+        ),
+      };
+    });
+
+    return {
+      timings: {
+        version: TIMING_SCHEMA_VERSION,
+        aligner: envelope?.aligner ?? null,
+        generatedAt: envelope?.generatedAt ?? new Date().toISOString(),
+        quality:
+          envelope?.quality ??
+          timingValidatorService.validate(
+            lines,
+            lines.map((line) => ({
+              originalText: line.originalText,
+              anchorMs: null,
+            }))
+          ),
+        lines,
+      },
+      upgraded: true,
+    };
+  }
+
+  /**
+   * lyric_line.syllable_timings 값을 v2로 읽습니다.
+   * 타이밍이 아닌 값(예: TTS 실패 시 저장한 { error })이면 null입니다.
+   */
+  public upgradeLineTimings(
+    raw: unknown,
+    originalText: string,
+    source: TimingSource
+  ): UpgradeResult<StoredLineTimings> | null {
+    const value = this.parseJson(raw);
+    if (this.isVersioned(value)) {
+      return { timings: value as StoredLineTimings, upgraded: false };
+    }
+    if (!Array.isArray(value)) {
+      return null;
+    }
+    return {
+      timings: {
+        version: TIMING_SCHEMA_VERSION,
+        syllables: this.upgradeSyllables(value, source, originalText).timings,
+      },
+      upgraded: true,
+    };
+  }
+
+  /**
+   * 음절 타이밍 배열(tts_asset_cache.timings 등)을 v2로 읽습니다.
+   */
+  public upgradeSyllables(
+    raw: unknown,
+    source: TimingSource,
+    originalText?: string
+  ): UpgradeResult<SyllableTiming[]> {
+    const value = this.parseJson(raw);
+    const items = Array.isArray(value) ? value : [];
+    if (items.length === 0) {
+      return { timings: [], upgraded: false };
+    }
+    // 객체가 아닌 항목(숫자, null 등)이 있으면 손상된 값으로 보고 타이밍이 없는 것으로 처리
+    if (!items.every((item) => typeof item === "object" && item !== null)) {
+      console.warn(
+        `[TimingSchema] Ignoring malformed syllable timings: ${JSON.stringify(items).substring(0, 100)}`
+      );
+      return { timings: [], upgraded: false };
+    }
+    if (!("timeSeconds" in items[0])) {
+      return { timings: items as SyllableTiming[], upgraded: false };
+    }
+    return {
+      timings: this.buildSyllables(
+        (items as SyllableTimingV1[]).map((t) => ({
+          text: t.markName,
+          startSeconds: t.timeSeconds,
+        })),
+        source,
+        { originalText }
+      ),
+      upgraded: true,
+    };
+  }
+
+  public toLineTimingsJson(syllables: SyllableTiming[]): string {
+    const timings: StoredLineTimings = {
+      version: TIMING_SCHEMA_VERSION,
+      syllables,
+    };
+    return JSON.stringify(timings);
+  }
+
+  private isVersioned(value: unknown): boolean {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value) &&
+      (value as { version?: number }).version === TIMING_SCHEMA_VERSION
+    );
+  }
+
+  // mysql2는 JSON 컬럼을 객체로 돌려주므로 문자열인 경우에만 파싱 (깨진 JSON은 타이밍이 없는 것으로 봄)
+  private parseJson(raw: unknown): unknown {
+    if (typeof raw !== "string") {
+      return raw ?? null;
+    }
+    if (!raw) {
+      return null;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      console.warn(
+        `[TimingSchema] Ignoring malformed timing JSON: ${raw.substring(0, 100)}`
+      );
+      return null;
+    }
+  }
+
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+}
+
+export const timingSchemaService = new TimingSchemaService();
@@ -0,0 +1,304 @@
+import { isHangulSyllable } from "../processor/hangul";
+import {
+  LyricWithTimings,
+  LineTimingQuality,
+  SyllableTiming,
+  TimingIssue,
+  TimingQuality,
+  TimingSource,
+} from "./types";
+
+export interface ExpectedTimingLine {
+  originalText: string;
+  // Spotify 라인 시작 시간 (매칭된 라인만, 보간한 값은 넣지 않음)
+  anchorMs: number | null;
+}
+
+// 음절 길이(끝 - 시작)가 이보다 짧거나, 앞 음절이 끝나고 다음 음절까지 이보다 길면 비정상으로 봄
+const MIN_SYLLABLE_SECONDS = 0.03;
+const MAX_SYLLABLE_GAP_SECONDS = 5;
+// Spotify 라인 시작 시간과의 차이가 허용 범위를 넘으면 ANCHOR_WINDOW_MS에 걸쳐 점수를 0까지 깎음
+const ANCHOR_TOLERANCE_MS = 1000;
+const ANCHOR_WINDOW_MS = 4000;
+// 오디오를 보지 않고 추정한 음절의 점수 상한 (Spotify 시작 시간에 딱 맞아도 실제 정렬보다 높게 나오지 않도록)
+// 균등 분배로 채운 라인(fillUnaligned, 구간 정렬 실패)도 출처가 uniform이므로 함께 깎임
+const ESTIMATED_SOURCE_CAPS: Partial<Record<TimingSource, number>> = {
+  uniform: 0.5,
+  fake: 0,
+};
+
+class TimingValidatorService {
+  /**
+   * 정렬 결과를 검사해 라인별, 노래 전체 신뢰도 점수(0 ~ 1)를 계산합니다.
+   * 라인 점수 = 음절 커버리지 × 순서 정상 비율 × 음절 길이/간격 정상 비율 × Spotify 시작 시간 일치도 × 출처 상한
+   */
+  public validate(
+    lines: LyricWithTimings[],
+    expected: ExpectedTimingLine[]
+  ): TimingQuality {
+    const issues: TimingIssue[] = [];
+    if (lines.length !== expected.length) {
+      issues.push({
+        type: "line-count-mismatch",
+        message: `라인 수가 다릅니다. (가사 ${expected.length}, 타이밍 ${lines.length})`,
+      });
+    }
+
+    let prevLastSeconds: number | null = null;
+    const lineQualities = expected.map((expectedLine, lineIndex) => {
+      const timings = lines[lineIndex]?.timings ?? [];
+      const quality = this.validateLine(
+        lineIndex,
+        timings,
+        expectedLine,
+        prevLastSeconds
+      );
+      if (timings.length > 0) {
+        prevLastSeconds = timings[timings.length - 1].startSeconds;
+      }
+      return quality;
+    });
+
+    // 음절이 많은 라인의 점수가 더 크게 반영되도록 가중 평균
+    let weightedSum = 0;
+    let weightTotal = 0;
+    for (const [lineIndex, quality] of lineQualities.entries()) {
+      const weight = Math.max(
+        1,
+        this.hangulSyllables(expected[lineIndex].originalText).length
+      );
+      weightedSum += quality.score * weight;
+      weightTotal += weight;
+    }
+    const score = weightTotal > 0 ? weightedSum / weightTotal : 0;
+
+    return { score: this.round(score), lines: lineQualities, issues };
+  }
+
+  /**
+   * 수동으로 수정한 라인의 타이밍을 검사합니다. 결과가 비어 있지 않으면 저장하지 않아야 합니다.
+   * 수정한 라인 내부의 시간 범위와 순서, 앞뒤 라인과의 순서만 확인합니다. (다른 라인에 원래 있던 문제는 무시)
+   */
+  public checkEditedLines(
+    lines: LyricWithTimings[],
+    lineIndexes: number[]
+  ): TimingIssue[] {
+    const issues: TimingIssue[] = [];
+    for (const lineIndex of new Set(lineIndexes)) {
+      const timings = lines[lineIndex]?.timings ?? [];
+      for (const [idx, timing] of timings.entries()) {
+        if (
+          !Number.isFinite(timing.startSeconds) ||
+          !Number.isFinite(timing.endSeconds) ||
+          timing.startSeconds < 0 ||
+          timing.endSeconds < timing.startSeconds
+        ) {
+          issues.push({
+            type: "invalid-range",
+            lineIndex,
+            message: `${idx}번째 음절의 시간 범위가 잘못되었습니다. (${timing.startSeconds}s ~ ${timing.endSeconds}s)`,
+          });
+        }
+        if (idx > 0 && timing.startSeconds < timings[idx - 1].startSeconds) {
+          issues.push({
+            type: "non-monotonic",
+            lineIndex,
+            message: `${idx}번째 음절이 앞 음절보다 먼저 시작합니다.`,
+          });
+        }
+      }
+      if (timings.length === 0) continue;
+
+      const prevLine = lines
+        .slice(0, lineIndex)
+        .reverse()
+        .find((line) => line.timings.length > 0);
+      if (
+        prevLine &&
+        timings[0].startSeconds <
+          prevLine.timings[prevLine.timings.length - 1].startSeconds
+      ) {
+        issues.push({
+          type: "non-monotonic",
+          lineIndex,
+          message: "이전 라인의 마지막 음절보다 먼저 시작합니다.",
+        });
+      }
+      const nextLine = lines
+        .slice(lineIndex + 1)
+        .find((line) => line.timings.length > 0);
+      if (
+        nextLine &&
+        timings[timings.length - 1].startSeconds >
+          nextLine.timings[0].startSeconds
+      ) {
+        issues.push({
+          type: "non-monotonic",
+          lineIndex,
+          message: "마지막 음절이 다음 라인보다 늦게 시작합니다.",
+        });
+      }
+    }
+    return issues;
+  }
+
+  private validateLine(
+    lineIndex: number,
+    timings: SyllableTiming[],
+    { originalText, anchorMs }: ExpectedTimingLine,
+    prevLastSeconds: number | null
+  ): LineTimingQuality {
+    const issues: TimingIssue[] = [];
+    const expectedSyllables = this.hangulSyllables(originalText);
+    const starts = timings.map((t) => t.startSeconds);
+    const alignedText = timings.map((t) => t.text).join("");
+
+    if (starts.length === 0) {
+      if (expectedSyllables.length > 0) {
+        issues.push({
+          type: "empty",
+          lineIndex,
+          message: "타이밍이 없습니다.",
+        });
+      }
+      return {
+        lineIndex,
+        score: expectedSyllables.length > 0 ? 0 : 1,
+        coverage: expectedSyllables.length > 0 ? 0 : 1,
+        issues,
+      };
+    }
+
+    // 커버리지: 원문 음절 순서를 유지한 채 정렬 결과에 나타나는 비율
+    const coverage =
+      expectedSyllables.length > 0
+        ? this.commonSubsequenceLength(
+            expectedSyllables,
+            this.hangulSyllables(alignedText)
+          ) / expectedSyllables.length
+        : 1;
+    if (coverage < 1) {
+      issues.push({
+        type: "missing-syllables",
+        lineIndex,
+        message: `원문 음절의 ${Math.round(coverage * 100)}%만 타이밍이 있습니다.`,
+      });
+    }
+
+    let inversions = 0;
+    if (prevLastSeconds !== null && starts[0] < prevLastSeconds) {
+      inversions++;
+      issues.push({
+        type: "non-monotonic",
+        lineIndex,
+        message: "이전 라인의 마지막 음절보다 먼저 시작합니다.",
+      });
+    }
+
+    let implausible = 0;
+    for (const [idx, timing] of timings.entries()) {
+      if (idx > 0 && starts[idx] < starts[idx - 1]) {
+        inversions++;
+        issues.push({
+          type: "non-monotonic",
+          lineIndex,
+          message: `${idx}번째 음절이 앞 음절보다 먼저 시작합니다.`,
+        });
+      }
+      // 음절 길이는 다음 음절 시작까지가 아니라 실제 끝 시간으로 판단
+      const duration = timing.endSeconds - timing.startSeconds;
+      if (duration < MIN_SYLLABLE_SECONDS) {
+        implausible++;
+        issues.push({
+          type: "short-duration",
+          lineIndex,
+          message: `${idx}번째 음절의 길이가 ${Math.round(duration * 1000)}ms입니다.`,
+        });
+        continue;
+      }
+      const gap = idx > 0 ? starts[idx] - timings[idx - 1].endSeconds : 0;
+      if (gap > MAX_SYLLABLE_GAP_SECONDS) {
+        implausible++;
+        issues.push({
+          type: "long-gap",
+          lineIndex,
+          message: `${idx - 1}번째 음절이 끝나고 ${idx}번째 음절까지 ${gap.toFixed(1)}초 떨어져 있습니다.`,
+        });
+      }
+    }
+    const orderFactor = 1 - inversions / starts.length;
+    const durationFactor = 1 - implausible / starts.length;
+
+    let anchorFactor = 1;
+    if (anchorMs !== null) {
+      const diffMs = Math.abs(starts[0] * 1000 - anchorMs);
+      if (diffMs > ANCHOR_TOLERANCE_MS) {
+        anchorFactor = Math.max(
+          0,
+          1 - (diffMs - ANCHOR_TOLERANCE_MS) / ANCHOR_WINDOW_MS
+        );
+        issues.push({
+          type: "anchor-mismatch",
+          lineIndex,
+          message: `Spotify 라인 시작 시간과 ${Math.round(diffMs)}ms 차이가 납니다.`,
+        });
+      }
+    }
+
+    const sourceCap = this.sourceCap(timings);
+    if (sourceCap < 1) {
+      issues.push({
+        type: "estimated",
+        lineIndex,
+        message: `오디오로 정렬하지 않고 추정한 타이밍입니다. (${Array.from(new Set(timings.map((t) => t.source))).join(", ")})`,
+      });
+    }
+
+    return {
+      lineIndex,
+      score: this.round(
+        Math.min(
+          sourceCap,
+          coverage * orderFactor * durationFactor * anchorFactor
+        )
+      ),
+      coverage: this.round(coverage),
+      issues,
+    };
+  }
+
+  // 음절 수 기준으로 출처별 상한을 평균 (추정 음절이 없으면 1)
+  private sourceCap(timings: SyllableTiming[]): number {
+    const total = timings.reduce(
+      (sum, timing) => sum + (ESTIMATED_SOURCE_CAPS[timing.source] ?? 1),
+      0
+    );
+    return total / timings.length;
+  }
+
+  private hangulSyllables(text: string): string[] {
+    return Array.from(text).filter(isHangulSyllable);
+  }
+
+  private commonSubsequenceLength(a: string[], b: string[]): number {
+    let prev = new Array<number>(b.length + 1).fill(0);
+    for (const charA of a) {
+      const current = [0];
+      for (const [idx, charB] of b.entries()) {
+        current.push(
+          charA === charB
+            ? prev[idx] + 1
+            : Math.max(prev[idx + 1], current[idx])
+        );
+      }
+      prev = current;
+    }
+    return prev[b.length];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const timingValidatorService = new TimingValidatorService();
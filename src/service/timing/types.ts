@@ -0,0 +1,138 @@
+import { AlignerEngine } from "./aligner/types";
+
+// song.timings, lyric_line.syllable_timings, tts_asset_cache.timings에 저장되는 타이밍 스키마 버전
+export const TIMING_SCHEMA_VERSION = 2;
+
+export const TIMING_SOURCES = [
+  "stable-whisper",
+  "uniform",
+  "fake",
+  "google-tts",
+  "elevenlabs-tts",
+  "manual", // 타이밍 수정 API로 직접 입력하거나 옮긴 음절
+  "legacy", // 출처를 알 수 없는 v1 데이터
+] as const;
+export type TimingSource = (typeof TIMING_SOURCES)[number];
+
+export interface SyllableTiming {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  durationSeconds: number;
+  source: TimingSource;
+  charIndex: number; // 원문(TTS는 합성한 텍스트) 내 위치 (찾지 못하면 -1)
+}
+
+export interface LyricWithTimings {
+  originalText: string;
+  refinedText: string;
+  timings: SyllableTiming[];
+}
+
+export type TimingIssueType =
+  | "line-count-mismatch"
+  | "empty"
+  | "missing-syllables"
+  | "non-monotonic"
+  | "short-duration"
+  | "long-gap"
+  | "anchor-mismatch"
+  | "estimated" // 오디오로 정렬하지 않고 추정한 타이밍 (uniform, fake)
+  | "invalid-range"; // 시작/끝 시간이 음수이거나 끝이 시작보다 앞섬 (수동 수정 검사)
+
+export interface TimingIssue {
+  type: TimingIssueType;
+  lineIndex?: number;
+  message: string;
+}
+
+export interface LineTimingQuality {
+  lineIndex: number;
+  score: number; // 0 ~ 1
+  coverage: number; // original_text의 한글 음절 중 타이밍이 있는 비율
+  issues: TimingIssue[];
+}
+
+export interface TimingQuality {
+  score: number; // 라인 점수를 음절 수로 가중 평균한 값 (0 ~ 1)
+  lines: LineTimingQuality[];
+  issues: TimingIssue[]; // 특정 라인에 속하지 않는 문제
+}
+
+// 정렬 전 오디오 전처리 설정 (ffmpeg)
+export interface AudioPreprocessOptions {
+  enabled: boolean;
+  sampleRate: number; // 모노로 변환하며 이 샘플레이트로 리샘플링 (Hz)
+  loudnorm: boolean; // EBU R128 기준 음량 정규화
+  trimSilence: boolean; // 앞뒤 무음 제거
+  silenceThresholdDb: number; // 이보다 작은 소리를 무음으로 봄
+  minSilenceMs: number; // 이보다 짧은 무음은 자르지 않음
+  bandPass: { lowHz: number; highHz: number } | null; // 보컬 대역만 남김
+}
+
+// 저장되는 전처리 기록
+export interface AudioPreprocessingInfo {
+  options: AudioPreprocessOptions;
+  offsetSeconds: number; // 앞 무음을 잘라낸 길이 (정렬 결과에 더해 원곡 시간으로 맞춤)
+  durationSeconds: number | null; // 전처리한 오디오 길이
+  filters: string; // 적용한 ffmpeg 오디오 필터
+}
+
+export const ALIGNMENT_WINDOW_MODES = ["none", "line", "section"] as const;
+export type AlignmentWindowMode = (typeof ALIGNMENT_WINDOW_MODES)[number];
+
+// Spotify 라인 시작 시간으로 오디오를 잘라 구간별로 정렬하는 설정
+export interface AlignmentWindowOptions {
+  mode: AlignmentWindowMode; // none: 노래 전체를 한 번에 정렬
+  overlapMs: number; // 구간 앞뒤로 더 포함할 길이
+  concurrency: number; // 동시에 정렬할 구간 수
+}
+
+export interface AlignmentWindow {
+  fromLine: number;
+  toLine: number; // 포함
+  startSeconds: number; // 원곡 시간 기준
+  endSeconds: number | null; // 마지막 구간은 null (끝까지)
+  fallback: boolean; // 정렬에 실패해 균등 분배로 채움
+}
+
+// 저장되는 구간 정렬 기록
+export interface AlignmentWindowingInfo {
+  options: AlignmentWindowOptions;
+  windows: AlignmentWindow[];
+}
+
+// song.timings에 저장되는 형태
+export interface StoredSongTimings {
+  version: typeof TIMING_SCHEMA_VERSION;
+  // v1에서 변환한 데이터는 엔진 정보가 없을 수 있음
+  aligner: {
+    engine: AlignerEngine;
+    params: Record<string, unknown>;
+  } | null;
+  generatedAt: string; // ISO 8601
+  // 오디오를 쓰지 않는 엔진, 전처리를 끈 요청, v1에서 변환한 데이터는 없음
+  preprocessing?: AudioPreprocessingInfo | null;
+  // 노래 전체를 한 번에 정렬했으면 없음
+  windowing?: AlignmentWindowingInfo | null;
+  quality: TimingQuality;
+  lines: LyricWithTimings[];
+}
+
+// lyric_line.syllable_timings에 저장되는 형태 (TTS 음성 기준 타이밍)
+export interface StoredLineTimings {
+  version: typeof TIMING_SCHEMA_VERSION;
+  syllables: SyllableTiming[];
+}
+
+// v1 스키마 (시작 시간만 있음, 마이그레이션과 이전 데이터 읽기용)
+export interface SyllableTimingV1 {
+  timeSeconds: number;
+  markName: string;
+}
+
+export interface LyricWithTimingsV1 {
+  originalText: string;
+  refinedText: string;
+  timings: SyllableTimingV1[];
+}
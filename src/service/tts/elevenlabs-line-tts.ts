@@ -1,7 +1,13 @@
 import mysql from "mysql2/promise";
 import cron from "node-cron";
-import { ElevenLabsClient, ElevenLabs } from "@elevenlabs/elevenlabs-js";
-import { Storage, Bucket } from "@google-cloud/storage";
+import { getTTSProvider } from "./provider/tts-provider";
+import { ttsAssetCache } from "./tts-asset-cache";
+import { TTSProvider, TTSProviderName } from "./provider/types";
+import {
+  normalizeService,
+  TTS_NORMALIZATION_RULES,
+} from "../processor/normalize";
+import { timingSchemaService } from "../timing/timing-schema";
 
 interface LyricLineRow {
   lyric_line_id: number;
@@ -12,10 +18,6 @@ interface LyricLineRow {
 
 class ElevenLabsTTSProcessor {
   private dbPool: mysql.Pool;
-  private ttsClient: ElevenLabsClient;
-  private bucket: Bucket;
-  private bucketName: string;
-  private readonly KOREAN_VOICE_ID = "ksaI0TCD9BstzEzlxj4q"; //Seulki
 
   constructor() {
     this.dbPool = mysql.createPool({
@@ -28,35 +30,13 @@ class ElevenLabsTTSProcessor {
       connectionLimit: 10,
       queueLimit: 0,
     });
-
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "ELEVENLABS_API_KEY가 .env 파일에 설정되지 않았습니다. ElevenLabs API 키를 확인해주세요."
-      );
-    }
-
-    this.ttsClient = new ElevenLabsClient({ apiKey });
-
-    const gcpProjectId = process.env.GCP_PROJECT_ID;
-    const gcsBucketName = process.env.GCS_BUCKET_NAME;
-    const gcpKeyFilePath = process.env.GCP_SERVICE_KEY_PATH;
-
-    if (!gcpProjectId || !gcsBucketName || !gcpKeyFilePath) {
-      throw new Error(
-        "GCP_PROJECT_ID, GCS_BUCKET_NAME, GCP_SERVICE_KEY_PATH가 .env에 모두 설정되어야 합니다."
-      );
-    }
-
-    const storage = new Storage({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-    this.bucketName = gcsBucketName;
-    this.bucket = storage.bucket(this.bucketName);
   }
 
-  public async retryOne(lyricLineId: number, lyricText: string) {
+  public async retryOne(
+    lyricLineId: number,
+    lyricText: string,
+    providerName: TTSProviderName = "elevenlabs"
+  ) {
     console.log(`[${new Date().toISOString()}] TTS Job started...`);
     let connection: mysql.PoolConnection | null = null;
     try {
@@ -66,7 +46,12 @@ class ElevenLabsTTSProcessor {
         console.log(`Fetch Lyric By Id Failed ${lyricLineId}`);
         return;
       }
-      await this.processSingleLine(connection, rows[0], lyricText);
+      await this.processSingleLine(
+        connection,
+        rows[0],
+        lyricText,
+        getTTSProvider(providerName)
+      );
     } catch (error) {
       console.error("Critical error during job execution:", error);
     } finally {
@@ -92,11 +77,13 @@ class ElevenLabsTTSProcessor {
     });
   }
 
+  // google-lyrics 음성을 ElevenLabs 음성으로 교체하는 작업이므로 provider는 고정
   public async runJob() {
     console.log(`[${new Date().toISOString()}] TTS Job started...`);
     let connection: mysql.PoolConnection | null = null;
 
     try {
+      const provider = getTTSProvider("elevenlabs");
       connection = await this.dbPool.getConnection();
       const rows = await this.fetchLyricsToProcess(connection, 1);
       if (rows.length === 0) {
@@ -105,8 +92,11 @@ class ElevenLabsTTSProcessor {
       }
 
       for (const row of rows) {
-        const refinedText = this.refineLyric(row.original_text);
-        await this.processSingleLine(connection, row, refinedText);
+        const refinedText = normalizeService.normalize(
+          row.original_text,
+          TTS_NORMALIZATION_RULES
+        ).text;
+        await this.processSingleLine(connection, row, refinedText, provider);
       }
     } catch (error) {
       console.error("Critical error during job execution:", error);
@@ -120,7 +110,8 @@ class ElevenLabsTTSProcessor {
   private async processSingleLine(
     connection: mysql.PoolConnection,
     row: LyricLineRow,
-    refinedText: string
+    refinedText: string,
+    provider: TTSProvider
   ) {
     const { lyric_line_id, original_text } = row;
     console.log(`Processing ID: ${lyric_line_id} ("${original_text}")`);
@@ -134,7 +125,7 @@ class ElevenLabsTTSProcessor {
         connection,
         original_text,
         "", // native_audio_url: 빈 문자열
-        "[]" // syllable_timings: 빈 JSON 배열
+        timingSchemaService.toLineTimingsJson([]) // syllable_timings: 빈 v2 타이밍
       );
 
       return;
@@ -145,37 +136,16 @@ class ElevenLabsTTSProcessor {
     );
 
     try {
-      const tts = await this.ttsClient.textToSpeech.convertWithTimestamps(
-        this.KOREAN_VOICE_ID,
-        {
-          text: refinedText,
-          modelId: "eleven_multilingual_v2",
-          voiceSettings: {
-            speed: 0.7,
-            stability: 0.9, // 감정/억양
-            useSpeakerBoost: true,
-            similarityBoost: 0.75, // 목소리 유사도 유지
-            style: 0, // 과장 없음
-          },
-        }
+      const tts = await ttsAssetCache.synthesize(
+        provider,
+        { text: refinedText, mode: "line" },
+        `${provider.name}-lyrics`
       );
-
-      if (!tts.alignment) {
-        console.warn(`[WARN] 타임스탬프 없음: ID ${lyric_line_id}.`);
-      }
-
-      if (!tts.audioBase64) {
-        throw new Error("TTS API did not return audio content.");
-      }
-
-      const audioBase64String: string = tts.audioBase64;
-      const audioBuffer: Buffer = Buffer.from(audioBase64String, "base64");
-
-      const ttsUrl = await this.uploadToGcs(
-        audioBuffer,
-        `lyric-${lyric_line_id}-${Date.now()}`
+      const ttsUrl = tts.audioUrl;
+      // 캐시 타이밍은 합성한 텍스트 기준이므로 lyric_line 원문 기준으로 위치를 다시 맞춤
+      const syllableTimingsJson = timingSchemaService.toLineTimingsJson(
+        timingSchemaService.relocate(tts.timings, original_text)
       );
-      const syllableTimingsJson = this.parseTimings(tts);
 
       await this.updateLyricLine(
         connection,
@@ -203,51 +173,6 @@ class ElevenLabsTTSProcessor {
     }
   }
 
-  private parseTimings(tts: ElevenLabs.AudioWithTimestampsResponse) {
-    if (
-      !tts.alignment ||
-      !tts.alignment.characters ||
-      !tts.alignment.characterStartTimesSeconds
-    ) {
-      console.warn(`타임 스탬프 없음 ${tts}`);
-      return "[]";
-    }
-
-    const syllableTimings = tts.alignment.characters
-      .map((char, index) => {
-        return {
-          timeSeconds: tts.alignment!.characterStartTimesSeconds[index],
-          markName: char,
-        };
-      })
-      .filter((item) => item.markName !== " ");
-    return JSON.stringify(syllableTimings);
-  }
-
-  private async uploadToGcs(
-    audioBuffer: Buffer,
-    fileName: string
-  ): Promise<string> {
-    const gcsFilePath = `tts/elevenlabs-lyrics/${fileName}.mp3`;
-    const file = this.bucket.file(gcsFilePath);
-
-    await file.save(audioBuffer, {
-      contentType: "audio/mpeg",
-    });
-
-    return file.publicUrl();
-  }
-
-  private refineLyric(text: string): string {
-    // 1. [^가-힣 ] : 한글과 공백이 아닌(^) 모든 문자를 찾습니다.
-    // 2. g (global) : 문자열 전체에서 찾습니다.
-    // 3. '' : 찾은 문자를 빈 문자열(삭제)로 대체합니다.
-    const refined = text.replace(/[^가-힣 ]/g, "");
-
-    // 4. 혹시 모를 연속 공백을 하나로 합치고, 양 끝 공백을 제거합니다.
-    return refined.replace(/ +/g, " ").trim();
-  }
-
   private async fetchLyricsToProcess(
     connection: mysql.PoolConnection,
     limit: number
@@ -1,9 +1,12 @@
 import mysql from "mysql2/promise";
 import cron from "node-cron";
-import textToSpeech from "@google-cloud/text-to-speech";
-import { v1beta1 } from "@google-cloud/text-to-speech";
-import { Bucket, Storage } from "@google-cloud/storage";
-import { standardizePronunciation } from "es-hangul";
+import { getTTSProvider } from "./provider/tts-provider";
+import { ttsAssetCache } from "./tts-asset-cache";
+import { isTransientFailure } from "../resilience/errors";
+import { TTSProvider, TTSProviderName } from "./provider/types";
+import { hasHangulSyllable } from "../processor/hangul";
+import { normalizeService } from "../processor/normalize";
+import { timingSchemaService } from "../timing/timing-schema";
 
 interface LyricLineRow {
   lyric_line_id: number;
@@ -12,16 +15,8 @@ interface LyricLineRow {
   syllable_timings: string;
 }
 
-interface SSMLResult {
-  ssml: string;
-  indexToSyllableMap: Record<string, string>; // split() 결과 인덱스, 해당 문자
-}
-
 class GoogleLineTTSProcessor {
   private dbPool: mysql.Pool;
-  private ttsClient: v1beta1.TextToSpeechClient;
-  private bucket: Bucket;
-  private bucketName: string;
 
   constructor() {
     this.dbPool = mysql.createPool({
@@ -34,34 +29,14 @@ class GoogleLineTTSProcessor {
       connectionLimit: 10,
       queueLimit: 0,
     });
-
-    const gcpProjectId = process.env.GCP_PROJECT_ID;
-    const gcsBucketName = process.env.GCS_BUCKET_NAME;
-    const gcpKeyFilePath = process.env.GCP_SERVICE_KEY_PATH;
-
-    this.ttsClient = new textToSpeech.v1beta1.TextToSpeechClient({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-
-    if (!gcpProjectId || !gcsBucketName || !gcpKeyFilePath) {
-      throw new Error(
-        "GCP_PROJECT_ID, GCS_BUCKET_NAME, GCP_SERVICE_KEY_PATH가 .env에 모두 설정되어야 합니다."
-      );
-    }
-
-    const storage = new Storage({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-    this.bucketName = gcsBucketName;
-    this.bucket = storage.bucket(this.bucketName);
   }
 
-  public startCron(schedule: string) {
-    console.log(`Cron job scheduled with schedule: "${schedule}"`);
+  public startCron(schedule: string, providerName: TTSProviderName = "google") {
+    console.log(
+      `Cron job scheduled with schedule: "${schedule}" (provider: ${providerName})`
+    );
     cron.schedule(schedule, () => {
-      this.runJob().catch((err) => {
+      this.runJob(providerName).catch((err) => {
         let errorMessage = "Cron job execution failed";
         if (err instanceof Error) errorMessage = err.message;
         console.error(
@@ -73,11 +48,12 @@ class GoogleLineTTSProcessor {
     });
   }
 
-  public async runJob() {
+  public async runJob(providerName: TTSProviderName = "google") {
     console.log(`[${new Date().toISOString()}] TTS Job started...`);
     let connection: mysql.PoolConnection | null = null;
 
     try {
+      const provider = getTTSProvider(providerName);
       connection = await this.dbPool.getConnection();
       const rows = await this.fetchLyricsToProcess(connection, 2);
       if (rows.length === 0) {
@@ -86,7 +62,7 @@ class GoogleLineTTSProcessor {
       }
 
       for (const row of rows) {
-        await this.processSingleLine(connection, row);
+        await this.processSingleLine(connection, row, provider);
       }
     } catch (error) {
       console.error("Critical error during job execution:", error);
@@ -100,14 +76,16 @@ class GoogleLineTTSProcessor {
 
   private async processSingleLine(
     connection: mysql.PoolConnection,
-    row: LyricLineRow
+    row: LyricLineRow,
+    provider: TTSProvider
   ) {
     const { lyric_line_id, original_text } = row;
     console.log(`Processing ID: ${lyric_line_id} ("${original_text}")`);
-    const HANGUL_REGEX = /[가-힣]/;
+    // SSML 마크는 글자 단위로 만들어지므로 NFD 한글, 제로폭 문자 등을 먼저 정리
+    const text = normalizeService.normalize(original_text).text;
 
     try {
-      if (!HANGUL_REGEX.test(original_text)) {
+      if (!hasHangulSyllable(text)) {
         console.log(
           `[SKIP] 한글 없음: ID ${lyric_line_id} ("${original_text}")`
         );
@@ -116,7 +94,7 @@ class GoogleLineTTSProcessor {
           connection,
           lyric_line_id,
           "", // native_audio_url: 빈 문자열
-          "[]" // syllable_timings: 빈 JSON 배열
+          timingSchemaService.toLineTimingsJson([]) // syllable_timings: 빈 v2 타이밍
         );
         return;
       }
@@ -125,36 +103,17 @@ class GoogleLineTTSProcessor {
         `[PROCESS] 한글 포함: ID ${lyric_line_id} ("${original_text}")`
       );
 
-      const { ssml, indexToSyllableMap } = this.generateSSML(original_text);
-      const [response] = await this.ttsClient.synthesizeSpeech({
-        input: { ssml },
-        voice: { languageCode: "ko-KR", name: "ko-KR-Wavenet-B" },
-        audioConfig: { audioEncoding: "MP3" },
-        enableTimePointing: ["SSML_MARK"] as any,
-      });
-
-      if (!response.timepoints) {
-        console.warn(`[WARN] 타임스탬프 없음: ID ${lyric_line_id}.`);
-      }
-      if (!response.audioContent) {
-        throw new Error("TTS API did not return audio content.");
-      }
-
-      const ttsUrl = await this.uploadToGcs(
-        response.audioContent as Buffer,
-        `lyric-${lyric_line_id}-${Date.now()}`
+      const tts = await ttsAssetCache.synthesize(
+        provider,
+        { text, mode: "line" },
+        `${provider.name}-lyrics`
       );
+      const ttsUrl = tts.audioUrl;
 
-      const timingsArray = (response.timepoints || []).map((point) => {
-        const indexMark = point.markName || "";
-        const syllableMark = indexToSyllableMap[indexMark] || "?";
-        return {
-          timeSeconds: point.timeSeconds || 0,
-          markName: syllableMark,
-        };
-      });
-
-      const syllableTimingsJson = JSON.stringify(timingsArray);
+      // 캐시 타이밍은 합성한 텍스트 기준이므로 lyric_line 원문 기준으로 위치를 다시 맞춤
+      const syllableTimingsJson = timingSchemaService.toLineTimingsJson(
+        timingSchemaService.relocate(tts.timings, original_text)
+      );
 
       await this.updateLyricLine(
         connection,
@@ -171,6 +130,13 @@ class GoogleLineTTSProcessor {
       console.error(
         `❌ FAILED: ID ${lyric_line_id} ("${original_text}"). Error: ${errorMessage}`
       );
+      // provider 장애(재시도 소진, circuit open)는 ERROR로 덮어쓰지 않고 다음 실행에서 재처리
+      if (isTransientFailure(error)) {
+        console.warn(
+          `[RETRY LATER] ID ${lyric_line_id}: transient provider failure.`
+        );
+        return;
+      }
       await this.updateLyricLine(
         connection,
         lyric_line_id,
@@ -180,57 +146,6 @@ class GoogleLineTTSProcessor {
     }
   }
 
-  private async uploadToGcs(
-    audioBuffer: Buffer,
-    fileName: string
-  ): Promise<string> {
-    const gcsFilePath = `tts/google-lyrics/${fileName}.mp3`;
-    const file = this.bucket.file(gcsFilePath);
-
-    await file.save(audioBuffer, {
-      contentType: "audio/mpeg",
-    });
-
-    return file.publicUrl();
-  }
-
-  private generateSSML(text: string): SSMLResult {
-    const originalGraphemes = text.split("");
-    const pronouncedText = standardizePronunciation(text, {
-      hardConversion: false,
-    });
-    const pronouncedGraphemes = pronouncedText.split("");
-    console.log(`[eshangul] "${text}" -> "${pronouncedText}"`);
-
-    if (originalGraphemes.length !== pronouncedGraphemes.length) {
-      const errorMessage = `[generateSSML] 원본/발음 글자 수 불일치: 원본("${text}", ${originalGraphemes.length}자) vs 발음("${pronouncedText}", ${pronouncedGraphemes.length}자)`;
-      console.error(errorMessage);
-      throw new Error(errorMessage);
-    }
-
-    const hangulRegex = /[가-힣]/;
-    let ssmlBody = "";
-    const indexToSyllableMap: Record<string, string> = {};
-
-    for (let i = 0; i < originalGraphemes.length; i++) {
-      const original = originalGraphemes[i];
-      const pronounced = pronouncedGraphemes[i];
-
-      if (hangulRegex.test(original)) {
-        const markIndex = String(i);
-        ssmlBody += `<mark name="${markIndex}"/>${pronounced}`;
-        indexToSyllableMap[markIndex] = original;
-      } else if (original === " ") {
-        ssmlBody += " ";
-      }
-      //영문, 구두점 모두 담지 않음
-    }
-    return {
-      ssml: `<speak><prosody rate="x-slow">${ssmlBody}</prosody></speak>`,
-      indexToSyllableMap: indexToSyllableMap,
-    };
-  }
-
   private async fetchLyricsToProcess(
     connection: mysql.PoolConnection,
     limit: number
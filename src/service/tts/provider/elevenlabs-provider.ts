@@ -0,0 +1,99 @@
+import { ElevenLabsClient, ElevenLabs } from "@elevenlabs/elevenlabs-js";
+import { TTSProvider, TTSRequest, TTSResult, TTSVoiceProfile } from "./types";
+import { timingSchemaService } from "../../timing/timing-schema";
+import { SyllableTiming } from "../../timing/types";
+import { resilienceService } from "../../resilience/resilience";
+import { isHangulSyllable } from "../../processor/hangul";
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  public readonly name = "elevenlabs";
+  private client: ElevenLabsClient;
+  private readonly KOREAN_VOICE_ID = "ksaI0TCD9BstzEzlxj4q"; //Seulki
+  private readonly MODEL_ID = "eleven_multilingual_v2";
+  private readonly VOICE_SETTINGS: ElevenLabs.VoiceSettings = {
+    speed: 0.7,
+    stability: 0.9, // 감정/억양
+    useSpeakerBoost: true,
+    similarityBoost: 0.75, // 목소리 유사도 유지
+    style: 0, // 과장 없음
+  };
+
+  constructor() {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "ELEVENLABS_API_KEY가 .env 파일에 설정되지 않았습니다. ElevenLabs API 키를 확인해주세요."
+      );
+    }
+
+    this.client = new ElevenLabsClient({ apiKey });
+  }
+
+  public getVoiceProfile(_request: TTSRequest): TTSVoiceProfile {
+    return {
+      provider: this.name,
+      voiceId: this.KOREAN_VOICE_ID,
+      modelId: this.MODEL_ID,
+      settings: { ...this.VOICE_SETTINGS },
+    };
+  }
+
+  public async synthesize(request: TTSRequest): Promise<TTSResult> {
+    const voice = this.getVoiceProfile(request);
+    const tts = await resilienceService.execute(
+      "elevenlabs",
+      "convertWithTimestamps",
+      () =>
+        this.client.textToSpeech.convertWithTimestamps(
+          this.KOREAN_VOICE_ID,
+          {
+            text: request.text,
+            modelId: this.MODEL_ID,
+            voiceSettings: this.VOICE_SETTINGS,
+          },
+          { maxRetries: 0 } // 재시도는 resilienceService가 담당
+        )
+    );
+
+    if (!tts.alignment) {
+      console.warn(`[ElevenLabsTTS] 타임스탬프 없음: "${request.text}"`);
+    }
+
+    if (!tts.audioBase64) {
+      throw new Error("TTS API did not return audio content.");
+    }
+
+    return {
+      audio: Buffer.from(tts.audioBase64, "base64"),
+      contentType: "audio/mpeg",
+      voice,
+      timings: this.parseTimings(tts),
+    };
+  }
+
+  // 문자 단위 타이밍 중 한글 음절만 남겨 Google SSML mark 결과와 같은 형태로 맞춤
+  private parseTimings(
+    tts: ElevenLabs.AudioWithTimestampsResponse
+  ): SyllableTiming[] {
+    if (
+      !tts.alignment ||
+      !tts.alignment.characters ||
+      !tts.alignment.characterStartTimesSeconds
+    ) {
+      return [];
+    }
+
+    const alignment = tts.alignment;
+    return timingSchemaService.buildSyllables(
+      alignment.characters
+        .map((char, index) => ({
+          text: char,
+          startSeconds: alignment.characterStartTimesSeconds[index],
+          endSeconds: alignment.characterEndTimesSeconds[index],
+          charIndex: index,
+        }))
+        .filter((item) => isHangulSyllable(item.text)),
+      "elevenlabs-tts"
+    );
+  }
+}
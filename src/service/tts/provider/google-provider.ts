@@ -0,0 +1,154 @@
+import textToSpeech from "@google-cloud/text-to-speech";
+import { v1beta1 } from "@google-cloud/text-to-speech";
+import { standardizePronunciation } from "es-hangul";
+import { isHangulSyllable } from "../../processor/hangul";
+import { TTSProvider, TTSRequest, TTSResult, TTSVoiceProfile } from "./types";
+import { timingSchemaService } from "../../timing/timing-schema";
+import { resilienceService } from "../../resilience/resilience";
+
+// 재시도는 resilienceService가 담당하므로 gax 자체 재시도는 끔
+const CALL_OPTIONS = { retry: null };
+
+interface SSMLResult {
+  ssml: string;
+  indexToSyllableMap: Record<string, string>; // split() 결과 인덱스, 해당 문자
+}
+
+export class GoogleTTSProvider implements TTSProvider {
+  public readonly name = "google";
+  private ttsClient: v1beta1.TextToSpeechClient;
+  private readonly VOICE_NAME = "ko-KR-Wavenet-B";
+
+  constructor() {
+    this.ttsClient = new textToSpeech.v1beta1.TextToSpeechClient({
+      projectId: process.env.GCP_PROJECT_ID,
+      keyFilename: process.env.GCP_SERVICE_KEY_PATH,
+    });
+  }
+
+  public getVoiceProfile(request: TTSRequest): TTSVoiceProfile {
+    return {
+      provider: this.name,
+      voiceId: this.VOICE_NAME,
+      modelId: "wavenet",
+      settings: {
+        speakingRate: request.mode === "line" ? "x-slow" : "slow",
+        pronunciation: request.mode === "line" ? "standardized" : "spelling",
+      },
+    };
+  }
+
+  public async synthesize(request: TTSRequest): Promise<TTSResult> {
+    const voice = this.getVoiceProfile(request);
+
+    if (request.mode === "syllable") {
+      const [response] = await resilienceService.execute(
+        "google-tts",
+        "synthesizeSpeech",
+        () =>
+          this.ttsClient.synthesizeSpeech(
+            {
+              input: {
+                ssml: `<speak><prosody rate="slow">${request.text}</prosody></speak>`,
+              },
+              voice: { languageCode: "ko-KR", name: this.VOICE_NAME },
+              audioConfig: { audioEncoding: "MP3" },
+            },
+            CALL_OPTIONS
+          )
+      );
+
+      return {
+        audio: this.toAudioBuffer(response.audioContent),
+        contentType: "audio/mpeg",
+        voice,
+        timings: [],
+      };
+    }
+
+    const { ssml, indexToSyllableMap } = this.generateSSML(request.text);
+    const [response] = await resilienceService.execute(
+      "google-tts",
+      "synthesizeSpeech",
+      () =>
+        this.ttsClient.synthesizeSpeech(
+          {
+            input: { ssml },
+            voice: { languageCode: "ko-KR", name: this.VOICE_NAME },
+            audioConfig: { audioEncoding: "MP3" },
+            enableTimePointing: ["SSML_MARK"] as any,
+          },
+          CALL_OPTIONS
+        )
+    );
+
+    if (!response.timepoints) {
+      console.warn(`[GoogleTTS] 타임스탬프 없음: "${request.text}"`);
+    }
+
+    // mark 이름이 원문 글자 인덱스이므로 charIndex로 그대로 사용, 끝 시간은 다음 mark까지
+    const timings = timingSchemaService.buildSyllables(
+      (response.timepoints || []).map((point) => {
+        const indexMark = point.markName || "";
+        return {
+          text: indexToSyllableMap[indexMark] || "?",
+          startSeconds: point.timeSeconds || 0,
+          charIndex: indexMark ? Number(indexMark) : -1,
+        };
+      }),
+      "google-tts"
+    );
+
+    return {
+      audio: this.toAudioBuffer(response.audioContent),
+      contentType: "audio/mpeg",
+      voice,
+      timings,
+    };
+  }
+
+  private toAudioBuffer(
+    audioContent: string | Uint8Array | null | undefined
+  ): Buffer {
+    if (!audioContent) {
+      throw new Error("TTS API did not return audio content.");
+    }
+    return Buffer.from(audioContent as Uint8Array);
+  }
+
+  private generateSSML(text: string): SSMLResult {
+    const originalGraphemes = text.split("");
+    const pronouncedText = standardizePronunciation(text, {
+      hardConversion: false,
+    });
+    const pronouncedGraphemes = pronouncedText.split("");
+    console.log(`[eshangul] "${text}" -> "${pronouncedText}"`);
+
+    if (originalGraphemes.length !== pronouncedGraphemes.length) {
+      const errorMessage = `[generateSSML] 원본/발음 글자 수 불일치: 원본("${text}", ${originalGraphemes.length}자) vs 발음("${pronouncedText}", ${pronouncedGraphemes.length}자)`;
+      console.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    let ssmlBody = "";
+    const indexToSyllableMap: Record<string, string> = {};
+
+    for (let i = 0; i < originalGraphemes.length; i++) {
+      const original = originalGraphemes[i];
+      const pronounced = pronouncedGraphemes[i];
+
+      if (isHangulSyllable(original)) {
+        const markIndex = String(i);
+        ssmlBody += `<mark name="${markIndex}"/>${pronounced}`;
+        indexToSyllableMap[markIndex] = original;
+      } else if (original === " ") {
+        ssmlBody += " ";
+      }
+      //영문, 구두점 모두 담지 않음
+    }
+    return {
+      ssml: `<speak><prosody rate="x-slow">${ssmlBody}</prosody></speak>`,
+      indexToSyllableMap: indexToSyllableMap,
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { TTSProvider, TTSProviderName } from "./types";
+import { GoogleTTSProvider } from "./google-provider";
+import { ElevenLabsTTSProvider } from "./elevenlabs-provider";
+
+// 각 provider는 API 키가 필요하므로 실제로 사용될 때 생성
+const providers = new Map<TTSProviderName, TTSProvider>();
+
+function createProvider(name: TTSProviderName): TTSProvider {
+  switch (name) {
+    case "google":
+      return new GoogleTTSProvider();
+    case "elevenlabs":
+      return new ElevenLabsTTSProvider();
+    default:
+      throw new Error(`지원하지 않는 TTS provider입니다: "${name}"`);
+  }
+}
+
+export function getTTSProvider(name: TTSProviderName): TTSProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,36 @@
+import { SyllableTiming } from "../../timing/types";
+
+export const TTS_PROVIDER_NAMES = ["google", "elevenlabs"] as const;
+
+export type TTSProviderName = (typeof TTS_PROVIDER_NAMES)[number];
+
+// line: 소절 전체(음절 타이밍 포함), syllable: 단일 음절 발음
+export type TTSMode = "line" | "syllable";
+
+export interface TTSRequest {
+  text: string;
+  mode: TTSMode;
+}
+
+export interface TTSVoiceProfile {
+  provider: TTSProviderName;
+  voiceId: string;
+  modelId: string;
+  settings: Record<string, unknown>;
+}
+
+export interface TTSResult {
+  audio: Buffer;
+  contentType: string;
+  voice: TTSVoiceProfile;
+  // 한글 음절 단위로 정규화된 타이밍, charIndex는 합성한 텍스트 기준 (syllable 모드에서는 빈 배열일 수 있음)
+  timings: SyllableTiming[];
+}
+
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+
+  getVoiceProfile(request: TTSRequest): TTSVoiceProfile;
+
+  synthesize(request: TTSRequest): Promise<TTSResult>;
+}
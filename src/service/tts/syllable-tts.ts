@@ -1,8 +1,8 @@
 import mysql from "mysql2/promise";
 import cron from "node-cron";
-import textToSpeech from "@google-cloud/text-to-speech";
-import { v1beta1 } from "@google-cloud/text-to-speech";
-import { Bucket, Storage } from "@google-cloud/storage";
+import { getTTSProvider } from "./provider/tts-provider";
+import { ttsAssetCache } from "./tts-asset-cache";
+import { TTSProvider, TTSProviderName } from "./provider/types";
 
 interface LyricSyllableRow {
   lyric_syllable_id: number;
@@ -12,9 +12,6 @@ interface LyricSyllableRow {
 
 class SyllableTTSService {
   private dbPool: mysql.Pool;
-  private ttsClient: v1beta1.TextToSpeechClient;
-  private bucket: Bucket;
-  private bucketName: string;
 
   constructor() {
     this.dbPool = mysql.createPool({
@@ -27,34 +24,14 @@ class SyllableTTSService {
       connectionLimit: 10,
       queueLimit: 0,
     });
-
-    const gcpProjectId = process.env.GCP_PROJECT_ID;
-    const gcsBucketName = process.env.GCS_BUCKET_NAME;
-    const gcpKeyFilePath = process.env.GCP_SERVICE_KEY_PATH;
-
-    this.ttsClient = new textToSpeech.v1beta1.TextToSpeechClient({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-
-    if (!gcpProjectId || !gcsBucketName || !gcpKeyFilePath) {
-      throw new Error(
-        "GCP_PROJECT_ID, GCS_BUCKET_NAME, GCP_SERVICE_KEY_PATH가 .env에 모두 설정되어야 합니다."
-      );
-    }
-
-    const storage = new Storage({
-      projectId: gcpProjectId,
-      keyFilename: gcpKeyFilePath,
-    });
-    this.bucketName = gcsBucketName;
-    this.bucket = storage.bucket(this.bucketName);
   }
 
-  public startCron(schedule: string) {
-    console.log(`Cron job scheduled with schedule: "${schedule}"`);
+  public startCron(schedule: string, providerName: TTSProviderName = "google") {
+    console.log(
+      `Cron job scheduled with schedule: "${schedule}" (provider: ${providerName})`
+    );
     cron.schedule(schedule, () => {
-      this.runJob().catch((err) => {
+      this.runJob(providerName).catch((err) => {
         let errorMessage = "Cron job execution failed";
         if (err instanceof Error) errorMessage = err.message;
         console.error(
@@ -66,11 +43,12 @@ class SyllableTTSService {
     });
   }
 
-  public async runJob() {
+  public async runJob(providerName: TTSProviderName = "google") {
     console.log(`[${new Date().toISOString()}] TTS Job started...`);
     let connection: mysql.PoolConnection | null = null;
 
     try {
+      const provider = getTTSProvider(providerName);
       connection = await this.dbPool.getConnection();
       const rows = await this.fetchSyllableToProcess(connection, 2);
       if (rows.length === 0) {
@@ -79,7 +57,7 @@ class SyllableTTSService {
       }
 
       for (const row of rows) {
-        await this.processSyllable(connection, row);
+        await this.processSyllable(connection, row, provider);
       }
     } catch (error) {
       console.error("Critical error during job execution:", error);
@@ -93,27 +71,19 @@ class SyllableTTSService {
 
   private async processSyllable(
     connection: mysql.PoolConnection,
-    row: LyricSyllableRow
+    row: LyricSyllableRow,
+    provider: TTSProvider
   ) {
     const { lyric_syllable_id, text_kor } = row;
     console.log(`Processing ID: ${lyric_syllable_id} all ("${text_kor}")`);
 
     try {
-      const ssml = this.generateSSML(text_kor);
-      const [response] = await this.ttsClient.synthesizeSpeech({
-        input: { ssml },
-        voice: { languageCode: "ko-KR", name: "ko-KR-Wavenet-B" },
-        audioConfig: { audioEncoding: "MP3" },
-      });
-
-      if (!response.audioContent) {
-        throw new Error("TTS API did not return audio content.");
-      }
-
-      const ttsUrl = await this.uploadToGcs(
-        response.audioContent as Buffer,
-        `syllable-${lyric_syllable_id}-${Date.now()}`
+      const tts = await ttsAssetCache.synthesize(
+        provider,
+        { text: text_kor, mode: "syllable" },
+        `${provider.name}-lyrics-syllables`
       );
+      const ttsUrl = tts.audioUrl;
 
       await this.updateSyllables(connection, ttsUrl, text_kor);
       console.log(
@@ -130,17 +100,6 @@ class SyllableTTSService {
     }
   }
 
-  private async uploadToGcs(audioBuffer: Buffer, fileName: string) {
-    const gcsFilePath = `tts/google-lyrics-syllables/${fileName}.mp3`;
-    const file = this.bucket.file(gcsFilePath);
-    await file.save(audioBuffer, { contentType: "audio/mpeg" });
-    return file.publicUrl();
-  }
-
-  private generateSSML(text: string) {
-    return `<speak><prosody rate="slow">${text}</prosody></speak>`;
-  }
-
   private async fetchSyllableToProcess(
     connection: mysql.PoolConnection,
     limit: number
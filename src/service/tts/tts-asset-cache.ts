@@ -0,0 +1,497 @@
+import mysql from "mysql2/promise";
+import * as crypto from "crypto";
+import { audioStorage } from "../storage/audio-storage";
+import {
+  TTSProvider,
+  TTSRequest,
+  TTSResult,
+  TTSVoiceProfile,
+} from "./provider/types";
+import {
+  ProcessedTTSAudio,
+  TTSAudioFormat,
+  TTSPostProcessProfile,
+  ttsAudioProcessor,
+} from "./tts-audio-processor";
+import { timingSchemaService } from "../timing/timing-schema";
+import { SyllableTiming } from "../timing/types";
+
+// 형식별로 저장한 음성 파일 (첫 번째가 audioUrl로 쓰는 기본 형식)
+export interface TTSAssetFormat {
+  format: TTSAudioFormat;
+  objectPath: string;
+  audioUrl: string;
+  contentType: string;
+  durationSeconds: number | null; // 후처리 전에 저장한 자산은 null
+}
+
+interface TTSAssetRow {
+  cache_key: string;
+  provider: string;
+  voice_id: string;
+  model_id: string;
+  voice_settings: string | Record<string, unknown>;
+  text: string;
+  object_path: string;
+  audio_url: string;
+  content_type: string;
+  timings: string | unknown[]; // v1 형식이 남아 있을 수 있음
+  formats: string | TTSAssetFormat[] | null; // 후처리 전에 저장한 자산은 null
+  hit_count: number;
+  created_at: Date;
+  last_used_at: Date;
+}
+
+export interface TTSAsset {
+  cacheKey: string;
+  provider: string;
+  voiceId: string;
+  modelId: string;
+  voiceSettings: Record<string, unknown>;
+  text: string;
+  objectPath: string;
+  audioUrl: string;
+  contentType: string;
+  durationSeconds: number | null;
+  formats: TTSAssetFormat[];
+  timings: SyllableTiming[];
+  hitCount: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// 스토리지에 저장한 음성 (storedKey는 실제로 캐시에 기록할 키)
+interface StoredTTSAudio {
+  storedKey: string;
+  formats: TTSAssetFormat[];
+  timings: SyllableTiming[];
+}
+
+export interface TTSAssetQuery {
+  provider?: string;
+  text?: string;
+  limit: number;
+}
+
+class TTSAssetCacheService {
+  private dbPool: mysql.Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor() {
+    this.dbPool = mysql.createPool({
+      host: process.env.DB_HOST || "localhost",
+      user: process.env.DB_USERNAME,
+      password: process.env.DB_PASSWORD,
+      database: process.env.DB_NAME,
+      port: parseInt(process.env.DB_PORT || "3306"),
+      waitForConnections: true,
+      connectionLimit: 5,
+      queueLimit: 0,
+    });
+  }
+
+  /**
+   * 캐시에 같은 음성 자산이 있으면 재사용하고, 없으면 provider로 합성해 스토리지와 캐시에 저장합니다.
+   * folder는 스토리지 내 저장 위치(예: "google-lyrics")입니다.
+   */
+  public async synthesize(
+    provider: TTSProvider,
+    request: TTSRequest,
+    folder: string
+  ): Promise<TTSAsset & { cached: boolean }> {
+    const text = this.normalizeText(request.text);
+    const voice = provider.getVoiceProfile(request);
+    const cacheKey = this.buildKey(voice, text, ttsAudioProcessor.profile);
+    const rawKey = this.buildKey(voice, text, null);
+
+    const cachedAsset = await this.get(cacheKey);
+    if (cachedAsset) {
+      console.log(`[TTSCache] HIT ${cacheKey.slice(0, 12)} ("${text}")`);
+      await this.touch(cacheKey);
+      return { ...cachedAsset, cached: true };
+    }
+
+    // 후처리 전(또는 후처리에 실패해 원본 키로) 저장한 음성이 있으면 다시 합성하지 않고 후처리만 함
+    if (cacheKey !== rawKey) {
+      const rawAsset = await this.get(rawKey);
+      if (rawAsset) {
+        return this.upgrade(rawAsset, folder, cacheKey);
+      }
+    }
+
+    console.log(`[TTSCache] MISS ${cacheKey.slice(0, 12)} ("${text}")`);
+    const tts = await provider.synthesize({ ...request, text });
+    // 후처리에 실패하면 원본 키로 저장되므로 실제로 저장한 키로 캐시에 기록
+    const stored = await this.upload(tts, folder, cacheKey, rawKey);
+    return {
+      ...(await this.insert(stored, tts.voice, text)),
+      cached: false,
+    };
+  }
+
+  /**
+   * 원본 키로 캐시된 음성을 스토리지에서 읽어 후처리하고 cacheKey로 저장합니다.
+   * 읽기나 후처리에 실패하면 원본 자산을 그대로 반환합니다. (다음 요청에서 다시 시도)
+   */
+  private async upgrade(
+    rawAsset: TTSAsset,
+    folder: string,
+    cacheKey: string
+  ): Promise<TTSAsset & { cached: boolean }> {
+    let processed: ProcessedTTSAudio;
+    try {
+      processed = await ttsAudioProcessor.process(
+        await audioStorage.load(rawAsset.objectPath),
+        rawAsset.timings
+      );
+    } catch (error) {
+      console.warn(
+        `[TTSCache] Post-processing failed for cached ${rawAsset.cacheKey.slice(0, 12)}. Serving the original audio.`,
+        error
+      );
+      await this.touch(rawAsset.cacheKey);
+      return { ...rawAsset, cached: true };
+    }
+
+    console.log(
+      `[TTSCache] UPGRADE ${rawAsset.cacheKey.slice(0, 12)} -> ${cacheKey.slice(0, 12)} ("${rawAsset.text}")`
+    );
+    const stored = await this.uploadProcessed(processed, folder, cacheKey);
+    const voice: TTSVoiceProfile = {
+      provider: rawAsset.provider as TTSVoiceProfile["provider"],
+      voiceId: rawAsset.voiceId,
+      modelId: rawAsset.modelId,
+      settings: rawAsset.voiceSettings,
+    };
+    return {
+      ...(await this.insert(stored, voice, rawAsset.text)),
+      cached: true,
+    };
+  }
+
+  private async insert(
+    stored: StoredTTSAudio,
+    voice: TTSVoiceProfile,
+    text: string
+  ): Promise<TTSAsset> {
+    const { storedKey, formats, timings } = stored;
+    const primary = formats[0];
+
+    await this.dbPool.execute(
+      `INSERT INTO tts_asset_cache
+        (cache_key, provider, voice_id, model_id, voice_settings, text, object_path, audio_url, content_type, timings, formats)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+          object_path = VALUES(object_path),
+          audio_url = VALUES(audio_url),
+          content_type = VALUES(content_type),
+          timings = VALUES(timings),
+          formats = VALUES(formats),
+          last_used_at = CURRENT_TIMESTAMP`,
+      [
+        storedKey,
+        voice.provider,
+        voice.voiceId,
+        voice.modelId,
+        JSON.stringify(voice.settings),
+        text,
+        primary.objectPath,
+        primary.audioUrl,
+        primary.contentType,
+        JSON.stringify(timings),
+        JSON.stringify(formats),
+      ]
+    );
+
+    const now = new Date().toISOString();
+    return {
+      cacheKey: storedKey,
+      provider: voice.provider,
+      voiceId: voice.voiceId,
+      modelId: voice.modelId,
+      voiceSettings: voice.settings,
+      text,
+      objectPath: primary.objectPath,
+      audioUrl: primary.audioUrl,
+      contentType: primary.contentType,
+      durationSeconds: primary.durationSeconds,
+      formats,
+      timings,
+      hitCount: 0,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+  }
+
+  public async get(cacheKey: string): Promise<TTSAsset | null> {
+    await this.ensureSchema();
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT * FROM tts_asset_cache WHERE cache_key = ?`,
+      [cacheKey]
+    );
+    return rows.length > 0 ? this.toAsset(rows[0] as TTSAssetRow) : null;
+  }
+
+  public async list(query: TTSAssetQuery): Promise<TTSAsset[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.provider) {
+      conditions.push("provider = ?");
+      params.push(query.provider);
+    }
+    if (query.text) {
+      conditions.push("text = ?");
+      params.push(this.normalizeText(query.text));
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const [rows] = await this.dbPool.query<mysql.RowDataPacket[]>(
+      `SELECT * FROM tts_asset_cache
+        ${where}
+        ORDER BY last_used_at DESC
+        LIMIT ?`,
+      [...params, query.limit]
+    );
+    return (rows as TTSAssetRow[]).map((row) => this.toAsset(row));
+  }
+
+  /**
+   * 캐시 항목을 삭제합니다. purge가 true이면 스토리지의 오디오 파일도 함께 삭제합니다.
+   * (이미 lyric_line 등에 저장된 URL이 깨질 수 있으므로 기본값은 false)
+   */
+  public async invalidate(cacheKey: string, purge: boolean): Promise<boolean> {
+    const asset = await this.get(cacheKey);
+    if (!asset) {
+      return false;
+    }
+
+    await this.dbPool.execute(
+      `DELETE FROM tts_asset_cache WHERE cache_key = ?`,
+      [cacheKey]
+    );
+    if (purge) {
+      for (const format of asset.formats) {
+        await audioStorage.delete(format.objectPath);
+      }
+    }
+    console.log(
+      `[TTSCache] Invalidated ${cacheKey.slice(0, 12)} (purge: ${purge})`
+    );
+    return true;
+  }
+
+  /**
+   * 합성한 음성을 후처리해 형식별로 스토리지에 저장합니다.
+   * 후처리를 껐거나 후처리(ffmpeg)에 실패하면 이미 비용을 낸 합성 결과를 버리지 않고 provider의 MP3를 그대로 저장합니다.
+   * 실패한 경우에는 후처리 결과로 캐시되지 않도록 원본 키(rawKey)로 저장해, 다음 요청에서 후처리를 다시 시도합니다.
+   */
+  private async upload(
+    tts: TTSResult,
+    folder: string,
+    cacheKey: string,
+    rawKey: string
+  ): Promise<StoredTTSAudio> {
+    if (!ttsAudioProcessor.profile) {
+      return {
+        storedKey: cacheKey,
+        ...(await this.uploadRaw(tts, folder, cacheKey)),
+      };
+    }
+
+    let processed: ProcessedTTSAudio;
+    try {
+      processed = await ttsAudioProcessor.process(tts.audio, tts.timings);
+    } catch (error) {
+      console.warn(
+        `[TTSCache] Post-processing failed for ${cacheKey.slice(0, 12)}. Storing the original audio under ${rawKey.slice(0, 12)} instead.`,
+        error
+      );
+      return {
+        storedKey: rawKey,
+        ...(await this.uploadRaw(tts, folder, rawKey)),
+      };
+    }
+    return this.uploadProcessed(processed, folder, cacheKey);
+  }
+
+  // 기본 형식(MP3, 없으면 첫 번째 형식)이 첫 번째가 되도록 정렬해 반환
+  private async uploadProcessed(
+    processed: ProcessedTTSAudio,
+    folder: string,
+    cacheKey: string
+  ): Promise<StoredTTSAudio> {
+    const formats: TTSAssetFormat[] = [];
+    for (const encoding of processed.encodings) {
+      const objectPath = `tts/${folder}/${cacheKey}.${encoding.extension}`;
+      formats.push({
+        format: encoding.format,
+        objectPath,
+        audioUrl: await audioStorage.save(
+          objectPath,
+          encoding.audio,
+          encoding.contentType
+        ),
+        contentType: encoding.contentType,
+        durationSeconds: encoding.durationSeconds,
+      });
+    }
+    const primaryIdx = Math.max(
+      0,
+      formats.findIndex((format) => format.format === "mp3")
+    );
+    return {
+      storedKey: cacheKey,
+      formats: [
+        formats[primaryIdx],
+        ...formats.filter((format, idx) => idx !== primaryIdx),
+      ],
+      timings: processed.timings,
+    };
+  }
+
+  private async uploadRaw(
+    tts: TTSResult,
+    folder: string,
+    cacheKey: string
+  ): Promise<Omit<StoredTTSAudio, "storedKey">> {
+    const objectPath = `tts/${folder}/${cacheKey}.mp3`;
+    const audioUrl = await audioStorage.save(
+      objectPath,
+      tts.audio,
+      tts.contentType
+    );
+    return {
+      formats: [
+        {
+          format: "mp3",
+          objectPath,
+          audioUrl,
+          contentType: tts.contentType,
+          durationSeconds: null,
+        },
+      ],
+      timings: tts.timings,
+    };
+  }
+
+  private async touch(cacheKey: string) {
+    await this.dbPool.execute(
+      `UPDATE tts_asset_cache
+        SET hit_count = hit_count + 1, last_used_at = CURRENT_TIMESTAMP
+        WHERE cache_key = ?`,
+      [cacheKey]
+    );
+  }
+
+  // profile이 null이면 후처리하지 않은 원본 음성의 키
+  private buildKey(
+    voice: TTSVoiceProfile,
+    text: string,
+    profile: TTSPostProcessProfile | null
+  ): string {
+    const material = JSON.stringify([
+      voice.provider,
+      voice.voiceId,
+      voice.modelId,
+      this.sortKeys(voice.settings),
+      text,
+      // 후처리를 끈 경우의 키는 후처리 도입 전과 같음 (후처리를 켜면 이 키의 음성을 다시 합성하지 않고 후처리해 사용)
+      ...(profile ? [profile] : []),
+    ]);
+    return crypto.createHash("sha256").update(material).digest("hex");
+  }
+
+  // 설정 객체의 키 순서가 달라도 같은 키가 나오도록 정렬
+  private sortKeys(settings: Record<string, unknown>): [string, unknown][] {
+    return Object.keys(settings)
+      .sort()
+      .map((key) => [key, settings[key]]);
+  }
+
+  private normalizeText(text: string): string {
+    return text.normalize("NFC").replace(/\s+/g, " ").trim();
+  }
+
+  private toAsset(row: TTSAssetRow): TTSAsset {
+    const formats: TTSAssetFormat[] = row.formats
+      ? this.parseJson(row.formats)
+      : [
+          {
+            format: "mp3",
+            objectPath: row.object_path,
+            audioUrl: row.audio_url,
+            contentType: row.content_type,
+            durationSeconds: null,
+          },
+        ];
+    return {
+      cacheKey: row.cache_key,
+      provider: row.provider,
+      voiceId: row.voice_id,
+      modelId: row.model_id,
+      voiceSettings: this.parseJson(row.voice_settings),
+      text: row.text,
+      objectPath: row.object_path,
+      audioUrl: row.audio_url,
+      contentType: row.content_type,
+      durationSeconds: formats[0].durationSeconds,
+      formats,
+      timings: timingSchemaService.upgradeSyllables(
+        row.timings,
+        row.provider === "elevenlabs" ? "elevenlabs-tts" : "google-tts"
+      ).timings,
+      hitCount: row.hit_count,
+      createdAt: new Date(row.created_at).toISOString(),
+      lastUsedAt: new Date(row.last_used_at).toISOString(),
+    };
+  }
+
+  // mysql2는 JSON 컬럼을 객체로 돌려주므로 문자열인 경우에만 파싱
+  private parseJson<T>(value: string | T): T {
+    return typeof value === "string" ? (JSON.parse(value) as T) : value;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.dbPool
+        .execute(
+          `CREATE TABLE IF NOT EXISTS tts_asset_cache (
+            cache_key CHAR(64) NOT NULL PRIMARY KEY,
+            provider VARCHAR(32) NOT NULL,
+            voice_id VARCHAR(128) NOT NULL,
+            model_id VARCHAR(128) NOT NULL,
+            voice_settings JSON NOT NULL,
+            text VARCHAR(1024) NOT NULL,
+            object_path VARCHAR(512) NOT NULL,
+            audio_url VARCHAR(1024) NOT NULL,
+            content_type VARCHAR(64) NOT NULL,
+            timings JSON NOT NULL,
+            formats JSON NULL,
+            hit_count INT NOT NULL DEFAULT 0,
+            created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            last_used_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            INDEX idx_tts_asset_cache_text (text(191))
+          )`
+        )
+        // 후처리 도입 전에 만든 테이블에 formats 컬럼 추가
+        .then(() =>
+          this.dbPool
+            .execute(`ALTER TABLE tts_asset_cache ADD COLUMN formats JSON NULL`)
+            .catch((error) => {
+              if (error.code !== "ER_DUP_FIELDNAME") {
+                throw error;
+              }
+            })
+        )
+        .then(() => undefined)
+        .catch((error) => {
+          this.schemaReady = null; // 다음 호출에서 재시도
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
+
+export const ttsAssetCache = new TTSAssetCacheService();
@@ -0,0 +1,218 @@
+import fs from "fs";
+import path from "path";
+import * as crypto from "crypto";
+import { audioPreprocessorService } from "../timing/audio-preprocessor";
+import { timingSchemaService } from "../timing/timing-schema";
+import { SyllableTiming } from "../timing/types";
+
+export const TTS_AUDIO_FORMATS = ["mp3", "aac", "opus"] as const;
+export type TTSAudioFormat = (typeof TTS_AUDIO_FORMATS)[number];
+
+interface TTSAudioEncoder {
+  extension: string;
+  contentType: string;
+  args: string[]; // ffmpeg 출력 코덱 옵션
+}
+
+const ENCODERS: Record<TTSAudioFormat, TTSAudioEncoder> = {
+  mp3: {
+    extension: "mp3",
+    contentType: "audio/mpeg",
+    args: ["-ar", "44100", "-c:a", "libmp3lame", "-b:a", "128k"],
+  },
+  aac: {
+    extension: "m4a",
+    contentType: "audio/mp4",
+    args: [
+      "-ar",
+      "44100",
+      "-c:a",
+      "aac",
+      "-b:a",
+      "128k",
+      "-movflags",
+      "+faststart",
+    ],
+  },
+  opus: {
+    extension: "opus",
+    contentType: "audio/ogg",
+    args: ["-ar", "48000", "-c:a", "libopus", "-b:a", "64k"],
+  },
+};
+
+// 후처리 방식(필터, 인코더 옵션)을 바꾸면 올려서 이전 방식으로 만든 캐시를 쓰지 않게 함
+const POSTPROCESS_VERSION = 1;
+
+// 후처리 설정 (캐시 키에 포함되어, 바뀌면 새로 후처리)
+export interface TTSPostProcessProfile {
+  version: number;
+  targetLufs: number;
+  trimSilence: boolean;
+  formats: TTSAudioFormat[];
+}
+
+export interface TTSAudioEncoding {
+  format: TTSAudioFormat;
+  extension: string;
+  contentType: string;
+  audio: Buffer;
+  durationSeconds: number | null;
+}
+
+export interface ProcessedTTSAudio {
+  encodings: TTSAudioEncoding[];
+  timings: SyllableTiming[]; // 잘라낸 앞 무음만큼 당긴 타이밍
+  trimmedSeconds: number;
+}
+
+// TTS 음성은 짧으므로 노래 전처리보다 짧은 무음도 자름
+const SILENCE_THRESHOLD_DB = -50;
+const MIN_SILENCE_MS = 100;
+
+/**
+ * 합성한 TTS 음성을 로컬 ffmpeg로 후처리합니다.
+ * 앞뒤 무음을 자르고(음절 타이밍도 같이 당김) 목표 음량(LUFS)으로 맞춘 뒤 여러 형식(MP3, AAC, Opus)으로 인코딩합니다.
+ * provider마다 다른 음량과 앞 무음을 맞추기 위한 단계이며, TTS_POSTPROCESS=false로 끌 수 있습니다.
+ */
+class TTSAudioProcessorService {
+  public readonly profile: TTSPostProcessProfile | null;
+  private readonly TEMP_DIR: string;
+
+  constructor() {
+    this.TEMP_DIR = process.env.TEMP_DIR || "/tmp"; // 임시 파일 저장소
+    this.profile =
+      process.env.TTS_POSTPROCESS === "false"
+        ? null
+        : {
+            version: POSTPROCESS_VERSION,
+            targetLufs: parseFloat(process.env.TTS_TARGET_LUFS || "-16"),
+            trimSilence: process.env.TTS_TRIM_SILENCE !== "false",
+            formats: this.parseFormats(
+              process.env.TTS_AUDIO_FORMATS || "mp3,aac,opus"
+            ),
+          };
+  }
+
+  public async process(
+    audio: Buffer,
+    timings: SyllableTiming[]
+  ): Promise<ProcessedTTSAudio> {
+    const profile = this.profile;
+    if (!profile) {
+      throw new Error("TTS 후처리가 꺼져 있습니다. (TTS_POSTPROCESS=false)");
+    }
+
+    const basePath = path.join(
+      this.TEMP_DIR,
+      `${Date.now()}_${crypto.randomBytes(4).toString("hex")}.tts`
+    );
+    const inputPath = `${basePath}.source`;
+    const outputPaths: string[] = [];
+    try {
+      await fs.promises.writeFile(inputPath, audio);
+      const range = profile.trimSilence
+        ? await audioPreprocessorService.detectVoicedRange(inputPath, {
+            silenceThresholdDb: SILENCE_THRESHOLD_DB,
+            minSilenceMs: MIN_SILENCE_MS,
+          })
+        : { startSeconds: 0, endSeconds: null, totalSeconds: null };
+      const durationSeconds =
+        range.endSeconds === null
+          ? null
+          : range.endSeconds - range.startSeconds;
+
+      // 형식마다 순서대로 인코딩 (ffmpeg 동시 실행 수 제한)
+      const encodings: TTSAudioEncoding[] = [];
+      for (const format of profile.formats) {
+        const encoder = ENCODERS[format];
+        const outputPath = `${basePath}.${encoder.extension}`;
+        outputPaths.push(outputPath);
+        await audioPreprocessorService.encode(
+          inputPath,
+          outputPath,
+          range.startSeconds,
+          durationSeconds,
+          [
+            "-af",
+            `loudnorm=I=${profile.targetLufs}:TP=-1.5:LRA=11`,
+            "-ac",
+            "1",
+            ...encoder.args,
+          ]
+        );
+        encodings.push({
+          format,
+          extension: encoder.extension,
+          contentType: encoder.contentType,
+          audio: await fs.promises.readFile(outputPath),
+          durationSeconds: (await audioPreprocessorService.probe(outputPath))
+            .durationSeconds,
+        });
+      }
+
+      console.log(
+        `[TTSAudio] Trimmed ${range.startSeconds}s, normalized to ${profile.targetLufs} LUFS, encoded ${profile.formats.join("/")}`
+      );
+      return {
+        encodings,
+        timings: this.shiftTimings(
+          timings,
+          range.startSeconds,
+          encodings[0].durationSeconds ?? durationSeconds
+        ),
+        trimmedSeconds: range.startSeconds,
+      };
+    } finally {
+      for (const filePath of [inputPath, ...outputPaths]) {
+        await fs.promises.unlink(filePath).catch(() => undefined);
+      }
+    }
+  }
+
+  // 잘라낸 앞뒤 무음 안에 걸친 음절은 인코딩한 음성의 범위(0초 ~ durationSeconds) 안으로 맞춤
+  private shiftTimings(
+    timings: SyllableTiming[],
+    trimmedSeconds: number,
+    durationSeconds: number | null
+  ): SyllableTiming[] {
+    const maxSeconds = durationSeconds ?? Infinity;
+    return timingSchemaService.shift(timings, -trimmedSeconds).map((timing) => {
+      const startSeconds = Math.min(
+        Math.max(0, timing.startSeconds),
+        maxSeconds
+      );
+      const endSeconds = Math.min(
+        Math.max(startSeconds, timing.endSeconds),
+        maxSeconds
+      );
+      return startSeconds === timing.startSeconds &&
+        endSeconds === timing.endSeconds
+        ? timing
+        : {
+            ...timing,
+            startSeconds,
+            endSeconds,
+            durationSeconds: endSeconds - startSeconds,
+          };
+    });
+  }
+
+  private parseFormats(value: string): TTSAudioFormat[] {
+    const formats = value
+      .split(",")
+      .map((format) => format.trim())
+      .filter(Boolean);
+    const unknown = formats.filter(
+      (format) => !(TTS_AUDIO_FORMATS as readonly string[]).includes(format)
+    );
+    if (formats.length === 0 || unknown.length > 0) {
+      throw new Error(
+        `지원하지 않는 TTS_AUDIO_FORMATS입니다: "${value}" (mp3 | aac | opus)`
+      );
+    }
+    return Array.from(new Set(formats)) as TTSAudioFormat[];
+  }
+}
+
+export const ttsAudioProcessor = new TTSAudioProcessorService();
@@ -0,0 +1,362 @@
+import {
+  CHO,
+  JUNG,
+  JONG,
+  HangulSyllable,
+  composeHangul,
+  decomposeHangul,
+} from "../processor/hangul";
+import { GrammarTag } from "./grammar";
+
+// 불규칙 활용 종류: ㅂ(춥다), ㄷ(듣다), ㅅ(낫다), ㅎ(하얗다), 르(모르다)
+export type IrregularType = "b" | "d" | "s" | "h" | "reu";
+
+export interface ConjugationStem {
+  stem: string; // 기본형에서 "다"를 뗀 어간
+  pos: "verb" | "adjective";
+  irregular?: IrregularType;
+}
+
+export interface EndingMorpheme {
+  form: string;
+  tag: GrammarTag;
+}
+
+export interface ConjugatedForm {
+  surface: string;
+  endings: EndingMorpheme[];
+}
+
+// 어간 끝에 붙는 (으) 계열 어미의 시작 형태
+type EuSuffix = "ㄴ" | "ㄹ" | "면" | "니까" | "세요";
+
+interface EndingRule {
+  build: (stem: ConjugationStem) => string | null;
+  endings: EndingMorpheme[];
+}
+
+const BRIGHT_JUNG = [JUNG.A, JUNG.YA, JUNG.O];
+const PAST: EndingMorpheme = { form: "-았/었-", tag: "past" };
+
+function splitLast(text: string): { head: string; last: HangulSyllable } {
+  return {
+    head: text.slice(0, -1),
+    last: decomposeHangul(text.slice(-1))!,
+  };
+}
+
+function withJong(text: string, jong: number): string {
+  const { head, last } = splitLast(text);
+  return head + composeHangul({ ...last, jong });
+}
+
+// 모음조화: 마지막 모음이 ㅏ, ㅗ이면 "아", 그 외는 "어" (ㅡ는 앞 음절을 따름)
+function isBright(stem: string): boolean {
+  for (let idx = stem.length - 1; idx >= 0; idx--) {
+    const syllable = decomposeHangul(stem[idx])!;
+    if (syllable.jung !== JUNG.EU || idx === 0) {
+      return BRIGHT_JUNG.includes(syllable.jung);
+    }
+  }
+  return false;
+}
+
+// -아/어 활용형 (먹어, 가, 해, 추워, 몰라)
+function infinitive({ stem, irregular }: ConjugationStem): string {
+  const { head, last } = splitLast(stem);
+  const suffix = isBright(stem) ? "아" : "어";
+  if (stem.endsWith("하")) {
+    return head + "해";
+  }
+
+  switch (irregular) {
+    case "reu": {
+      const prev = splitLast(head);
+      const lead = withJong(head, JONG.RIEUL);
+      return lead + (BRIGHT_JUNG.includes(prev.last.jung) ? "라" : "러");
+    }
+    case "b":
+      return withJong(stem, JONG.NONE) + "워";
+    case "d":
+      return withJong(stem, JONG.RIEUL) + suffix;
+    case "s":
+      return withJong(stem, JONG.NONE) + suffix;
+    case "h": {
+      const jung = last.jung === JUNG.YA ? JUNG.YAE : JUNG.AE;
+      return head + composeHangul({ ...last, jung, jong: JONG.NONE });
+    }
+  }
+
+  if (last.jong !== JONG.NONE) {
+    return stem + suffix;
+  }
+  const contracted: Record<number, number> = {
+    [JUNG.O]: JUNG.WA,
+    [JUNG.U]: JUNG.WO,
+    [JUNG.I]: JUNG.YEO,
+    [JUNG.OE]: JUNG.WAE,
+    [JUNG.EU]: isBright(stem) && head ? JUNG.A : JUNG.EO,
+  };
+  if ([JUNG.A, JUNG.EO, JUNG.AE, JUNG.E, JUNG.YEO].includes(last.jung)) {
+    return stem;
+  }
+  if (last.jung in contracted) {
+    return head + composeHangul({ ...last, jung: contracted[last.jung] });
+  }
+  return stem + "어";
+}
+
+function past(stem: ConjugationStem): string {
+  return withJong(infinitive(stem), JONG.SSANGSIOS);
+}
+
+// 매개모음 "으"가 필요한 어미 (먹은, 간, 들은, 추운, 산, 알면)
+function attachEu(
+  { stem, irregular }: ConjugationStem,
+  suffix: EuSuffix
+): string {
+  const { last } = splitLast(stem);
+  let base: string;
+  if (irregular === "b") {
+    base = withJong(stem, JONG.NONE) + "우";
+  } else if (irregular === "d") {
+    base = withJong(stem, JONG.RIEUL) + "으";
+  } else if (irregular === "s") {
+    base = withJong(stem, JONG.NONE) + "으";
+  } else if (irregular === "h") {
+    base = withJong(stem, JONG.NONE);
+  } else if (last.jong === JONG.RIEUL) {
+    // ㄹ 받침은 매개모음 없이 붙고, ㄴ·ㅅ 앞에서는 탈락 (알면, 알, 안, 아세요)
+    if (suffix === "ㄹ") return stem;
+    if (suffix === "면") return stem + suffix;
+    base = withJong(stem, JONG.NONE);
+  } else {
+    base = last.jong === JONG.NONE ? stem : stem + "으";
+  }
+
+  if (suffix === "ㄴ") return withJong(base, JONG.NIEUN);
+  if (suffix === "ㄹ") return withJong(base, JONG.RIEUL);
+  return base + suffix;
+}
+
+// 자음으로 시작하는 어미 (먹고, 가지만). ㄹ 받침은 ㄴ 앞에서 탈락 (사는, 아네)
+function attachConsonant({ stem, irregular }: ConjugationStem, ending: string) {
+  const { last } = splitLast(stem);
+  const next = decomposeHangul(ending[0]);
+  if (!irregular && last.jong === JONG.RIEUL && next?.cho === CHO.NIEUN) {
+    return withJong(stem, JONG.NONE) + ending;
+  }
+  return stem + ending;
+}
+
+// 하십시오체: 받침 없으면 -ㅂ니다, 있으면 -습니다 (ㄹ 받침은 탈락: 압니다)
+function attachFormal(stem: ConjugationStem, ending: "니다" | "니까") {
+  const { last } = splitLast(stem.stem);
+  if (
+    last.jong === JONG.NONE ||
+    (!stem.irregular && last.jong === JONG.RIEUL)
+  ) {
+    return withJong(stem.stem, JONG.BIEUP) + ending;
+  }
+  return stem.stem + "습" + ending;
+}
+
+// 동사와 "있다/없다"만 -는 계열 어미를 취함
+function takesNeun({ stem, pos }: ConjugationStem): boolean {
+  return pos === "verb" || isExistential(stem);
+}
+
+function isExistential(stem: string): boolean {
+  return stem.endsWith("있") || stem.endsWith("없");
+}
+
+// 동사 해라체 현재: 받침 없으면 -ㄴ다, 있으면 -는다 (간다, 먹는다, 산다)
+function plainPresent(stem: ConjugationStem): string | null {
+  if (stem.pos !== "verb" || isExistential(stem.stem)) {
+    return null;
+  }
+  const { last } = splitLast(stem.stem);
+  if (
+    last.jong === JONG.NONE ||
+    (!stem.irregular && last.jong === JONG.RIEUL)
+  ) {
+    return attachEu(stem, "ㄴ") + "다";
+  }
+  return stem.stem + "는다";
+}
+
+const ending = (form: string, tag: GrammarTag): EndingMorpheme => ({
+  form,
+  tag,
+});
+
+const ENDING_RULES: EndingRule[] = [
+  // -아/어 계열
+  { build: infinitive, endings: [ending("-아/어", "intimate")] },
+  {
+    build: (s) => infinitive(s) + "요",
+    endings: [ending("-아/어요", "polite")],
+  },
+  {
+    build: (s) => infinitive(s) + "서",
+    endings: [ending("-아/어서", "reason")],
+  },
+  {
+    build: (s) => infinitive(s) + "도",
+    endings: [ending("-아/어도", "concession")],
+  },
+  {
+    build: (s) => infinitive(s) + "야",
+    endings: [ending("-아/어야", "condition")],
+  },
+  { build: (s) => past(s) + "어", endings: [PAST, ending("-어", "intimate")] },
+  {
+    build: (s) => past(s) + "어요",
+    endings: [PAST, ending("-어요", "polite")],
+  },
+  { build: (s) => past(s) + "다", endings: [PAST, ending("-다", "plain")] },
+  {
+    build: (s) => past(s) + "는데",
+    endings: [PAST, ending("-는데", "connective")],
+  },
+  { build: (s) => past(s) + "지", endings: [PAST, ending("-지", "intimate")] },
+  {
+    build: (s) => past(s) + "고",
+    endings: [PAST, ending("-고", "connective")],
+  },
+  {
+    build: (s) => past(s) + "습니다",
+    endings: [PAST, ending("-습니다", "formal")],
+  },
+  {
+    build: (s) => past(s) + "던",
+    endings: [PAST, ending("-던", "modifier")],
+  },
+  // 자음 어미
+  {
+    build: (s) => attachConsonant(s, "다"),
+    endings: [ending("-다", "plain")],
+  },
+  {
+    build: (s) => attachConsonant(s, "고"),
+    endings: [ending("-고", "connective")],
+  },
+  {
+    build: (s) => attachConsonant(s, "지"),
+    endings: [ending("-지", "intimate")],
+  },
+  {
+    build: (s) => attachConsonant(s, "지만"),
+    endings: [ending("-지만", "contrast")],
+  },
+  {
+    build: (s) => attachConsonant(s, "죠"),
+    endings: [ending("-지요", "polite")],
+  },
+  {
+    build: (s) => attachConsonant(s, "게"),
+    endings: [ending("-게", "adverbial")],
+  },
+  {
+    build: (s) => attachConsonant(s, "기"),
+    endings: [ending("-기", "nominalizer")],
+  },
+  {
+    build: (s) => attachConsonant(s, "네"),
+    endings: [ending("-네", "exclamation")],
+  },
+  {
+    build: (s) => attachConsonant(s, "니"),
+    endings: [ending("-니", "question")],
+  },
+  {
+    build: (s) => attachConsonant(s, "잖아"),
+    endings: [ending("-잖아", "intimate")],
+  },
+  {
+    build: (s) => attachConsonant(s, "겠어"),
+    endings: [ending("-겠-", "future"), ending("-어", "intimate")],
+  },
+  {
+    build: (s) => attachFormal(s, "니다"),
+    endings: [ending("-(스)ㅂ니다", "formal")],
+  },
+  {
+    build: (s) => attachFormal(s, "니까"),
+    endings: [ending("-(스)ㅂ니까", "question")],
+  },
+  {
+    build: (s) => (takesNeun(s) ? attachConsonant(s, "는") : null),
+    endings: [ending("-는", "modifier")],
+  },
+  {
+    build: (s) => (takesNeun(s) ? attachConsonant(s, "는데") : null),
+    endings: [ending("-는데", "connective")],
+  },
+  {
+    build: (s) =>
+      takesNeun(s) ? attachConsonant(s, "는지") : attachEu(s, "ㄴ") + "지",
+    endings: [ending("-는지/(으)ㄴ지", "connective")],
+  },
+  {
+    build: (s) => (s.pos === "verb" ? attachConsonant(s, "자") : null),
+    endings: [ending("-자", "propositive")],
+  },
+  {
+    build: plainPresent,
+    endings: [ending("-(느)ㄴ다", "plain")],
+  },
+  // (으) 계열 어미
+  { build: (s) => attachEu(s, "ㄴ"), endings: [ending("-(으)ㄴ", "modifier")] },
+  { build: (s) => attachEu(s, "ㄹ"), endings: [ending("-(으)ㄹ", "modifier")] },
+  {
+    build: (s) => (s.pos === "adjective" ? attachEu(s, "ㄴ") + "데" : null),
+    endings: [ending("-(으)ㄴ데", "connective")],
+  },
+  {
+    build: (s) => attachEu(s, "ㄹ") + "게",
+    endings: [ending("-(으)ㄹ게", "intention")],
+  },
+  {
+    build: (s) => attachEu(s, "ㄹ") + "게요",
+    endings: [ending("-(으)ㄹ게요", "intention")],
+  },
+  {
+    build: (s) => attachEu(s, "ㄹ") + "까",
+    endings: [ending("-(으)ㄹ까", "question")],
+  },
+  {
+    build: (s) => attachEu(s, "ㄹ") + "까요",
+    endings: [ending("-(으)ㄹ까요", "question")],
+  },
+  {
+    build: (s) => attachEu(s, "ㄹ") + "래",
+    endings: [ending("-(으)ㄹ래", "intention")],
+  },
+  {
+    build: (s) => attachEu(s, "면"),
+    endings: [ending("-(으)면", "condition")],
+  },
+  {
+    build: (s) => attachEu(s, "니까"),
+    endings: [ending("-(으)니까", "reason")],
+  },
+  {
+    build: (s) => attachEu(s, "세요"),
+    endings: [ending("-(으)시-", "honorific"), ending("-어요", "polite")],
+  },
+];
+
+/**
+ * 어간에서 가사에 자주 쓰이는 활용형을 만들어 냅니다. 같은 형태가 여러 규칙에서 나오면 먼저 나온 규칙을 사용합니다.
+ */
+export function conjugate(stem: ConjugationStem): ConjugatedForm[] {
+  const forms = new Map<string, EndingMorpheme[]>();
+  for (const rule of ENDING_RULES) {
+    const surface = rule.build(stem);
+    if (surface && !forms.has(surface)) {
+      forms.set(surface, rule.endings);
+    }
+  }
+  return [...forms].map(([surface, endings]) => ({ surface, endings }));
+}
@@ -0,0 +1,113 @@
+// 조사와 어미에 붙이는 문법 태그 (값은 앱에 표시할 한국어 용어)
+export const GRAMMAR_TAGS = {
+  // 조사
+  subject: "주격 조사",
+  topic: "보조사 (주제)",
+  object: "목적격 조사",
+  possessive: "관형격 조사",
+  locative: "부사격 조사 (장소·시간)",
+  dative: "부사격 조사 (대상)",
+  source: "보조사 (시작점)",
+  instrumental: "부사격 조사 (방향·수단)",
+  comitative: "접속 조사 (함께)",
+  additive: "보조사 (역시)",
+  only: "보조사 (한정)",
+  until: "보조사 (도달점)",
+  similarity: "부사격 조사 (비유)",
+  comparison: "부사격 조사 (비교)",
+  vocative: "호격 조사",
+  copula: "서술격 조사",
+  plural: "복수 접미사",
+  // 어미
+  polite: "해요체 종결 어미",
+  intimate: "해체 종결 어미 (반말)",
+  formal: "하십시오체 종결 어미",
+  plain: "해라체 종결 어미",
+  question: "의문형 어미",
+  exclamation: "감탄형 어미",
+  propositive: "청유형 어미",
+  intention: "의지·약속 어미",
+  past: "과거 선어말 어미",
+  future: "추측·의지 선어말 어미",
+  honorific: "주체 높임 선어말 어미",
+  connective: "연결 어미",
+  contrast: "연결 어미 (대조)",
+  concession: "연결 어미 (양보)",
+  condition: "연결 어미 (조건)",
+  reason: "연결 어미 (이유)",
+  modifier: "관형사형 어미",
+  nominalizer: "명사형 어미",
+  adverbial: "부사형 어미",
+} as const;
+export type GrammarTag = keyof typeof GRAMMAR_TAGS;
+
+export interface ParticleRule {
+  form: string;
+  tag: GrammarTag;
+  // 앞 음절의 받침 조건 (이/가, 을/를처럼 받침에 따라 형태가 갈리는 조사)
+  after?: "consonant" | "vowel";
+}
+
+export const PARTICLES: ParticleRule[] = [
+  { form: "이", tag: "subject", after: "consonant" },
+  { form: "가", tag: "subject", after: "vowel" },
+  { form: "께서", tag: "subject" },
+  { form: "은", tag: "topic", after: "consonant" },
+  { form: "는", tag: "topic", after: "vowel" },
+  { form: "을", tag: "object", after: "consonant" },
+  { form: "를", tag: "object", after: "vowel" },
+  { form: "의", tag: "possessive" },
+  { form: "에", tag: "locative" },
+  { form: "에서", tag: "locative" },
+  { form: "에게", tag: "dative" },
+  { form: "한테", tag: "dative" },
+  { form: "께", tag: "dative" },
+  { form: "부터", tag: "source" },
+  { form: "으로", tag: "instrumental", after: "consonant" },
+  { form: "로", tag: "instrumental", after: "vowel" },
+  { form: "와", tag: "comitative", after: "vowel" },
+  { form: "과", tag: "comitative", after: "consonant" },
+  { form: "하고", tag: "comitative" },
+  { form: "랑", tag: "comitative", after: "vowel" },
+  { form: "이랑", tag: "comitative", after: "consonant" },
+  { form: "도", tag: "additive" },
+  { form: "마저", tag: "additive" },
+  { form: "조차", tag: "additive" },
+  { form: "만", tag: "only" },
+  { form: "뿐", tag: "only" },
+  { form: "까지", tag: "until" },
+  { form: "처럼", tag: "similarity" },
+  { form: "같이", tag: "similarity" },
+  { form: "보다", tag: "comparison" },
+  { form: "여", tag: "vocative", after: "vowel" },
+  { form: "이여", tag: "vocative", after: "consonant" },
+  { form: "야", tag: "copula", after: "vowel" },
+  { form: "이야", tag: "copula", after: "consonant" },
+  { form: "예요", tag: "copula", after: "vowel" },
+  { form: "이에요", tag: "copula", after: "consonant" },
+  { form: "이다", tag: "copula", after: "consonant" },
+  { form: "였어", tag: "copula", after: "vowel" },
+  { form: "이었어", tag: "copula", after: "consonant" },
+  { form: "들", tag: "plural" },
+];
+
+// 받침 ㄴ/ㄹ로 줄어든 조사 (난 = 나 + 는, 널 = 너 + 를)
+export const CONTRACTED_PARTICLES: Record<string, ParticleRule> = {
+  ㄴ: { form: "는", tag: "topic" },
+  ㄹ: { form: "를", tag: "object" },
+};
+
+// 형태가 바뀌는 대명사 축약형: [표제어, 조사]
+export const PRONOUN_CONTRACTIONS: Record<string, [string, ParticleRule]> = {
+  내가: ["나", { form: "가", tag: "subject" }],
+  네가: ["너", { form: "가", tag: "subject" }],
+  제가: ["저", { form: "가", tag: "subject" }],
+  내게: ["나", { form: "에게", tag: "dative" }],
+  네게: ["너", { form: "에게", tag: "dative" }],
+  이게: ["이것", { form: "이", tag: "subject" }],
+  그게: ["그것", { form: "이", tag: "subject" }],
+  이건: ["이것", { form: "은", tag: "topic" }],
+  그건: ["그것", { form: "은", tag: "topic" }],
+  이걸: ["이것", { form: "을", tag: "object" }],
+  그걸: ["그것", { form: "을", tag: "object" }],
+};
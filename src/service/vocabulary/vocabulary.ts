@@ -0,0 +1,330 @@
+import lexiconData from "./data/ko-lexicon.json";
+import {
+  JONG,
+  decomposeHangul,
+  hasHangulSyllable,
+  isAlphanumericOrHangul,
+} from "../processor/hangul";
+import { conjugate, EndingMorpheme, IrregularType } from "./conjugation";
+import {
+  GRAMMAR_TAGS,
+  GrammarTag,
+  ParticleRule,
+  PARTICLES,
+  CONTRACTED_PARTICLES,
+  PRONOUN_CONTRACTIONS,
+} from "./grammar";
+
+export const VOCABULARY_POS = [
+  "noun",
+  "pronoun",
+  "verb",
+  "adjective",
+  "adverb",
+  "determiner",
+  "interjection",
+  "particle",
+  "ending",
+  "foreign",
+  "unknown",
+] as const;
+export type VocabularyPos = (typeof VOCABULARY_POS)[number];
+
+interface LexiconEntry {
+  lemma: string;
+  pos: VocabularyPos;
+  irregular?: IrregularType;
+  glosses: Record<string, string>;
+}
+
+export interface VocabularyMorpheme {
+  form: string; // 용언은 기본형, 조사·어미는 대표 형태 (예: "-아/어요")
+  pos: VocabularyPos;
+  tag?: GrammarTag;
+  label?: string;
+}
+
+export interface VocabularyWord {
+  surface: string; // 가사에 나온 어절 (문장 부호 제외)
+  charIndex: number; // 소절 원문 내 시작 위치
+  lemma: string | null; // 사전형 (사전에 없으면 null)
+  pos: VocabularyPos;
+  glosses: Record<string, string>; // 대상 언어 코드별 뜻
+  morphemes: VocabularyMorpheme[];
+}
+
+interface Analysis {
+  entry: LexiconEntry | null;
+  morphemes: VocabularyMorpheme[];
+}
+
+const LEADING_FOREIGN_REGEX = /^[0-9A-Za-z'’]+/;
+// 조사는 최대 두 개까지 겹쳐 붙는 것으로 봄 (너에게는 = 너 + 에게 + 는)
+const MAX_PARTICLES = 2;
+
+class VocabularyService {
+  private entries = new Map<string, LexiconEntry>();
+  private conjugations = new Map<
+    string,
+    { entry: LexiconEntry; endings: EndingMorpheme[] }
+  >();
+  private particles = [...PARTICLES].sort(
+    (a, b) => b.form.length - a.form.length
+  );
+
+  constructor() {
+    // 같은 표기가 여러 번 나오면 사전에 먼저 나온 항목을 사용
+    for (const entry of lexiconData.entries as LexiconEntry[]) {
+      if (entry.pos !== "verb" && entry.pos !== "adjective") {
+        if (!this.entries.has(entry.lemma)) {
+          this.entries.set(entry.lemma, entry);
+        }
+        continue;
+      }
+
+      const stem = entry.lemma.slice(0, -1);
+      const forms = conjugate({
+        stem,
+        pos: entry.pos,
+        irregular: entry.irregular,
+      });
+      for (const { surface, endings } of forms) {
+        if (!this.conjugations.has(surface)) {
+          this.conjugations.set(surface, { entry, endings });
+        }
+      }
+    }
+    console.log(
+      `[Vocabulary] Loaded ${lexiconData.entries.length} lexicon entries (${this.conjugations.size} conjugated forms)`
+    );
+  }
+
+  /**
+   * 가사 한 소절을 어절 단위로 나누고, 각 어절을 사전형 + 조사/어미로 분석합니다.
+   * 번들된 사전만 사용하므로 네트워크 없이 동작하며, 사전에 없는 어절은 pos "unknown"으로 남깁니다.
+   */
+  public analyze(
+    text: string,
+    targetLangs: readonly string[]
+  ): VocabularyWord[] {
+    const words: VocabularyWord[] = [];
+    const tokenRegex = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(text)) !== null) {
+      const token = match[0];
+      const surface = this.trimPunctuation(token);
+      if (!surface) continue;
+
+      const { entry, morphemes } = this.analyzeWord(surface);
+      words.push({
+        surface,
+        charIndex: match.index + token.indexOf(surface),
+        lemma: entry?.lemma ?? null,
+        pos: entry?.pos ?? morphemes[0].pos,
+        glosses: entry ? this.pickGlosses(entry, targetLangs) : {},
+        morphemes,
+      });
+    }
+    return words;
+  }
+
+  private analyzeWord(surface: string): Analysis {
+    if (!hasHangulSyllable(surface)) {
+      return { entry: null, morphemes: [{ form: surface, pos: "foreign" }] };
+    }
+
+    // 영어 단어에 조사가 붙은 경우 (baby야, you를)
+    const foreign = surface.match(LEADING_FOREIGN_REGEX)?.[0];
+    if (foreign) {
+      const particles = this.matchParticles(surface.slice(foreign.length));
+      if (particles) {
+        return {
+          entry: null,
+          morphemes: [
+            { form: foreign, pos: "foreign" },
+            ...particles.map((particle) =>
+              this.toMorpheme(particle, "particle")
+            ),
+          ],
+        };
+      }
+    }
+
+    return (
+      this.lookup(surface) ??
+      this.stripParticles(surface, MAX_PARTICLES) ?? {
+        entry: null,
+        morphemes: [{ form: surface, pos: "unknown" }],
+      }
+    );
+  }
+
+  // 가사 어절 앞뒤의 문장 부호와 괄호를 뗌
+  private trimPunctuation(token: string): string {
+    const chars = Array.from(token);
+    const start = chars.findIndex(isAlphanumericOrHangul);
+    if (start === -1) return "";
+    let end = chars.length;
+    while (!isAlphanumericOrHangul(chars[end - 1])) end--;
+    return chars.slice(start, end).join("");
+  }
+
+  // 사전 표제어 또는 활용형과 정확히 일치하는 경우
+  private lookup(surface: string): Analysis | null {
+    const entry = this.entries.get(surface);
+    if (entry) {
+      return { entry, morphemes: [{ form: entry.lemma, pos: entry.pos }] };
+    }
+
+    // 가사에서는 "난, 널"이 용언 활용형(날다 → 난)보다 대명사 축약일 가능성이 높으므로 축약을 먼저 확인
+    const contracted = this.expandContraction(surface);
+    if (contracted) {
+      return contracted;
+    }
+
+    // "나는, 너를"처럼 대명사 + 조사로 읽히면 활용형(날다 → 나는)보다 우선
+    // 일반 명사는 "사랑하고"(사랑하다)처럼 활용형이 맞는 경우가 많으므로 활용형을 먼저 확인
+    const pronoun = this.stripParticles(surface, MAX_PARTICLES);
+    if (pronoun?.entry?.pos === "pronoun") {
+      return pronoun;
+    }
+
+    const conjugated = this.conjugations.get(surface);
+    if (conjugated) {
+      return {
+        entry: conjugated.entry,
+        morphemes: [
+          { form: conjugated.entry.lemma, pos: conjugated.entry.pos },
+          ...conjugated.endings.map((ending) =>
+            this.toMorpheme(ending, "ending")
+          ),
+        ],
+      };
+    }
+
+    const contraction = PRONOUN_CONTRACTIONS[surface];
+    if (contraction) {
+      const [lemma, particle] = contraction;
+      return this.withParticles(this.entries.get(lemma)!, [particle]);
+    }
+    return null;
+  }
+
+  // 체언 + 조사 (사랑을, 너에게는). 조사를 떼고 남은 부분이 사전의 체언이어야 하며, 긴 체언을 우선함
+  private stripParticles(surface: string, depth: number): Analysis | null {
+    for (let split = surface.length - 1; split > 0; split--) {
+      const head = surface.slice(0, split);
+      const entry = this.entries.get(head);
+      if (!entry || !this.isNominal(entry)) continue;
+
+      const particles = this.matchParticles(surface.slice(split), head, depth);
+      if (particles) {
+        return this.withParticles(entry, particles);
+      }
+    }
+    return null;
+  }
+
+  // 받침으로 줄어든 조사 (난 = 나 + 는, 우릴 = 우리 + 를)
+  private expandContraction(surface: string): Analysis | null {
+    const last = decomposeHangul(surface.slice(-1));
+    const jamo =
+      last?.jong === JONG.NIEUN
+        ? "ㄴ"
+        : last?.jong === JONG.RIEUL
+          ? "ㄹ"
+          : null;
+    if (!last || !jamo) {
+      return null;
+    }
+
+    const head =
+      surface.slice(0, -1) +
+      String.fromCharCode(surface.charCodeAt(surface.length - 1) - last.jong);
+    const entry = this.entries.get(head);
+    if (!entry || !this.isNominal(entry)) {
+      return null;
+    }
+    return this.withParticles(entry, [CONTRACTED_PARTICLES[jamo]]);
+  }
+
+  /**
+   * rest 전체가 조사(최대 depth개)로만 이루어져 있으면 앞에서부터 순서대로 반환합니다.
+   * 이/가, 을/를처럼 받침에 따라 갈리는 조사는 바로 앞 음절의 받침을 확인합니다.
+   */
+  private matchParticles(
+    rest: string,
+    prev?: string,
+    depth: number = MAX_PARTICLES
+  ): ParticleRule[] | null {
+    if (!rest) return [];
+    if (depth === 0) return null;
+
+    for (const particle of this.particles) {
+      if (!rest.startsWith(particle.form)) continue;
+      if (prev && !this.fitsBatchim(prev, particle)) continue;
+
+      const remaining = this.matchParticles(
+        rest.slice(particle.form.length),
+        particle.form,
+        depth - 1
+      );
+      if (remaining) {
+        return [particle, ...remaining];
+      }
+    }
+    return null;
+  }
+
+  private fitsBatchim(prev: string, particle: ParticleRule): boolean {
+    if (!particle.after) return true;
+    const last = decomposeHangul(prev.slice(-1));
+    if (!last) return true;
+    const hasBatchim = last.jong !== JONG.NONE;
+    // ㄹ 받침 뒤에는 "으로" 대신 "로" (길로, 하늘로)
+    if (particle.form === "로" && last.jong === JONG.RIEUL) return true;
+    if (particle.form === "으로" && last.jong === JONG.RIEUL) return false;
+    return particle.after === "consonant" ? hasBatchim : !hasBatchim;
+  }
+
+  private withParticles(
+    entry: LexiconEntry,
+    particles: ParticleRule[]
+  ): Analysis {
+    return {
+      entry,
+      morphemes: [
+        { form: entry.lemma, pos: entry.pos },
+        ...particles.map((particle) => this.toMorpheme(particle, "particle")),
+      ],
+    };
+  }
+
+  private toMorpheme(
+    { form, tag }: { form: string; tag: GrammarTag },
+    pos: "particle" | "ending"
+  ): VocabularyMorpheme {
+    return { form, pos, tag, label: GRAMMAR_TAGS[tag] };
+  }
+
+  private isNominal(entry: LexiconEntry): boolean {
+    return entry.pos === "noun" || entry.pos === "pronoun";
+  }
+
+  // 사전의 뜻은 지역 구분 없는 언어 코드로 저장 ("en-US" → "en", "zh-HANT" → "zh")
+  private pickGlosses(
+    entry: LexiconEntry,
+    targetLangs: readonly string[]
+  ): Record<string, string> {
+    const glosses: Record<string, string> = {};
+    for (const lang of targetLangs) {
+      const gloss = entry.glosses[lang.split("-")[0].toLowerCase()];
+      if (gloss) {
+        glosses[lang] = gloss;
+      }
+    }
+    return glosses;
+  }
+}
+
+export const vocabularyService = new VocabularyService();
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  lrcLyricsSource,
+  toMilliseconds,
+} from "../src/service/lyrics/lrc-source";
+
+test("toMilliseconds: 소수부를 자릿수에 맞춰 해석", () => {
+  assert.equal(toMilliseconds("01", "02"), 62000);
+  assert.equal(toMilliseconds("00", "01", "5"), 1500);
+  assert.equal(toMilliseconds("00", "01", "12"), 1120);
+  assert.equal(toMilliseconds("00", "01", "123"), 1123);
+});
+
+test("parse: 메타데이터와 타임스탬프 없는 라인은 건너뜀", () => {
+  const lines = lrcLyricsSource.parse(
+    [
+      "[ar:가수]",
+      "[ti:제목]",
+      "",
+      "설명",
+      "[00:01.50]첫 줄",
+      "[00:03:20] 둘째 줄",
+    ].join("\n")
+  );
+
+  assert.deepEqual(lines, [
+    { startTimeMs: "1500", words: "첫 줄", wordTimings: undefined },
+    { startTimeMs: "3200", words: "둘째 줄", wordTimings: undefined },
+  ]);
+});
+
+test("parse: 한 줄의 여러 타임스탬프는 각각의 라인으로 나눠 시간순 정렬", () => {
+  const lines = lrcLyricsSource.parse(
+    ["[00:12.00][00:45.00]후렴", "[00:20.00]벌스"].join("\n")
+  );
+
+  assert.deepEqual(
+    lines.map((line) => [line.startTimeMs, line.words]),
+    [
+      ["12000", "후렴"],
+      ["20000", "벌스"],
+      ["45000", "후렴"],
+    ]
+  );
+});
+
+test("parse: 가사 중간의 대괄호는 타임스탬프로 보지 않음", () => {
+  const lines = lrcLyricsSource.parse("[00:01.00]사랑 [00:02.00] 해");
+
+  assert.equal(lines.length, 1);
+  assert.equal(lines[0].words, "사랑 [00:02.00] 해");
+});
+
+test("parse: offset만큼 라인과 단어 시각을 앞당기고 0 미만은 0으로", () => {
+  const lines = lrcLyricsSource.parse(
+    [
+      "[offset:+500]",
+      "[00:00.20]<00:00.20>처음",
+      "[00:02.00]<00:02.00>다음",
+    ].join("\n")
+  );
+
+  assert.deepEqual(lines, [
+    {
+      startTimeMs: "0",
+      words: "처음",
+      wordTimings: [{ startTimeMs: 0, word: "처음" }],
+    },
+    {
+      startTimeMs: "1500",
+      words: "다음",
+      wordTimings: [{ startTimeMs: 1500, word: "다음" }],
+    },
+  ]);
+});
+
+test("parse: enhanced LRC 단어 태그를 단어 타이밍으로 읽고 종료 마커는 무시", () => {
+  const lines = lrcLyricsSource.parse(
+    "[00:10.00]<00:10.00>보고 <00:10.50>싶어 <00:11.25>"
+  );
+
+  assert.deepEqual(lines, [
+    {
+      startTimeMs: "10000",
+      words: "보고 싶어",
+      wordTimings: [
+        { startTimeMs: 10000, word: "보고" },
+        { startTimeMs: 10500, word: "싶어" },
+      ],
+    },
+  ]);
+});
+
+test("parse: 반복 라인의 단어 타이밍은 라인마다 별도 객체", () => {
+  const lines = lrcLyricsSource.parse(
+    "[offset:100]\n[00:01.00][00:05.00]<00:01.00>후렴"
+  );
+
+  assert.deepEqual(
+    lines.map((line) => line.wordTimings),
+    [[{ startTimeMs: 900, word: "후렴" }], [{ startTimeMs: 900, word: "후렴" }]]
+  );
+  assert.notEqual(lines[0].wordTimings![0], lines[1].wordTimings![0]);
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ALIGNER_NORMALIZATION_RULES,
+  TTS_NORMALIZATION_RULES,
+  normalizeService,
+} from "../src/service/processor/normalize";
+
+test("unicode-nfc: 분해된 자모를 합치고 음절의 원문 위치는 첫 자모", () => {
+  const result = normalizeService.normalize("\u1100\u1161나", ["unicode-nfc"]);
+
+  assert.equal(result.text, "가나");
+  assert.deepEqual(result.offsets, [0, 2]);
+});
+
+test("기본 규칙: 제로폭 문자와 이모지를 빼도 남은 문자의 원문 위치를 유지", () => {
+  const result = normalizeService.normalize("사\u200b랑😀해");
+
+  assert.equal(result.text, "사랑해");
+  assert.deepEqual(result.offsets, [0, 2, 5]);
+});
+
+test("full-width: 전각 문자와 CJK 문장 부호를 반각으로 바꾸고 늘어난 문자는 같은 위치", () => {
+  const result = normalizeService.normalize("ＡＢ。…", ["full-width"]);
+
+  assert.equal(result.text, "AB....");
+  assert.deepEqual(result.offsets, [0, 1, 2, 3, 3, 3]);
+});
+
+test("collapse-whitespace: 연속 공백은 첫 공백의 위치를 쓰고 양 끝 공백은 제거", () => {
+  const result = normalizeService.normalize("  가   나  ", [
+    "collapse-whitespace",
+  ]);
+
+  assert.equal(result.text, "가 나");
+  assert.deepEqual(result.offsets, [2, 3, 6]);
+});
+
+test("정렬 입력 규칙: 음절마다 띄우고 넣은 공백은 뒤 문자의 위치", () => {
+  const result = normalizeService.normalize(
+    "(불장난) eh",
+    ALIGNER_NORMALIZATION_RULES
+  );
+
+  assert.equal(result.text, "( 불 장 난 ) eh");
+  assert.deepEqual(result.offsets, [0, 1, 1, 2, 2, 3, 3, 4, 4, 6, 6, 7]);
+});
+
+test("TTS 입력 규칙: 한글 음절과 공백만 남김", () => {
+  const result = normalizeService.normalize(
+    "love 사랑 ♪ 해!",
+    TTS_NORMALIZATION_RULES
+  );
+
+  assert.equal(result.text, "사랑 해");
+  assert.deepEqual(result.offsets, [5, 6, 7, 10]);
+});
+
+test("offsets는 UTF-16 코드 유닛마다 하나씩", () => {
+  const result = normalizeService.normalize("𝄞가");
+
+  assert.equal(result.text, "𝄞가");
+  assert.deepEqual(result.offsets, [0, 0, 2]);
+});
+
+test("toOriginalIndex: 범위를 벗어난 위치는 원문의 처음과 끝으로 대응", () => {
+  const result = normalizeService.normalize("  가나");
+
+  assert.equal(normalizeService.toOriginalIndex(result, 1), 3);
+  assert.equal(normalizeService.toOriginalIndex(result, -1), 2);
+  assert.equal(normalizeService.toOriginalIndex(result, 2), 4);
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ROMANIZATION_SYSTEMS,
+  romanizeService,
+} from "../src/service/processor/romanize";
+
+const convertAll = (text: string) =>
+  romanizeService.convertAll(text, ROMANIZATION_SYSTEMS);
+
+test("rr-spelling은 표기대로, rr-pronounced는 표준 발음대로 옮김", () => {
+  assert.deepEqual(convertAll("한국말"), {
+    "rr-spelling": "hangugmal",
+    "rr-pronounced": "hangungmal",
+    "mccune-reischauer": "han'gungmal",
+    yale: "hankwukmal",
+  });
+  assert.equal(romanizeService.convert("같이", "rr-spelling"), "gati");
+  assert.equal(romanizeService.convert("같이", "rr-pronounced"), "gachi");
+});
+
+test("rr-pronounced는 된소리되기를 표기하지 않음", () => {
+  assert.equal(romanizeService.pronounce("학교"), "학교");
+  assert.equal(romanizeService.convert("학교", "rr-pronounced"), "hakgyo");
+});
+
+test("mccune-reischauer: 유성음화, 유기음 표기, shi, ㄹㄹ", () => {
+  assert.equal(romanizeService.convert("부산", "mccune-reischauer"), "pusan");
+  assert.equal(
+    romanizeService.convert("불고기", "mccune-reischauer"),
+    "pulgogi"
+  );
+  assert.equal(romanizeService.convert("같이", "mccune-reischauer"), "kach'i");
+  assert.equal(romanizeService.convert("신라", "mccune-reischauer"), "shilla");
+  assert.equal(romanizeService.convert("먹는", "mccune-reischauer"), "mŏngnŭn");
+});
+
+test("mccune-reischauer: ㄴ 받침 + ㄱ 초성은 n'g로 구분", () => {
+  assert.equal(romanizeService.convert("산길", "mccune-reischauer"), "san'gil");
+  assert.equal(romanizeService.convert("연기", "mccune-reischauer"), "yŏn'gi");
+});
+
+test("yale: 표기대로 옮기고 양순음 뒤의 ㅜ는 u", () => {
+  assert.equal(romanizeService.convert("같이", "yale"), "kathi");
+  assert.equal(romanizeService.convert("불고기", "yale"), "pulkoki");
+  assert.equal(romanizeService.convert("먹는", "yale"), "meknun");
+});
+
+test("한글이 아닌 문자는 그대로 두고 빈 문자열은 빈 문자열", () => {
+  assert.deepEqual(convertAll("hello 안녕!"), {
+    "rr-spelling": "hello annyeong!",
+    "rr-pronounced": "hello annyeong!",
+    "mccune-reischauer": "hello annyŏng!",
+    yale: "hello annyeng!",
+  });
+  assert.equal(romanizeService.convert("", "yale"), "");
+});
+
+test("convertAll: 요청한 표기법만, 넘긴 발음을 발음 기준 표기법에 사용", () => {
+  // 소절 "같이"의 둘째 음절을 문맥 발음("치")으로 표기
+  assert.deepEqual(
+    romanizeService.convertAll(
+      "이",
+      ["rr-spelling", "rr-pronounced", "mccune-reischauer"],
+      "치"
+    ),
+    {
+      "rr-spelling": "i",
+      "rr-pronounced": "chi",
+      "mccune-reischauer": "ch'i",
+    }
+  );
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { textLyricsSource } from "../src/service/lyrics/text-source";
+
+test("parse: 타임스탬프가 없으면 모든 라인의 시작 시각은 0", () => {
+  const lines = textLyricsSource.parse("첫 줄\r\n\n  둘째 줄  \n");
+
+  assert.deepEqual(lines, [
+    { startTimeMs: "0", words: "첫 줄" },
+    { startTimeMs: "0", words: "둘째 줄" },
+  ]);
+});
+
+test("parse: 대괄호 유무와 관계없이 앞의 타임스탬프를 읽음", () => {
+  const lines = textLyricsSource.parse(
+    ["[01:02.50] 하나", "01:03.5 둘", "01:04 셋"].join("\n")
+  );
+
+  assert.deepEqual(lines, [
+    { startTimeMs: "62500", words: "하나" },
+    { startTimeMs: "63500", words: "둘" },
+    { startTimeMs: "64000", words: "셋" },
+  ]);
+});
+
+test("parse: 타임스탬프가 없는 라인은 직전 라인의 시작 시각을 이어받음", () => {
+  const lines = textLyricsSource.parse(
+    ["[00:10.00] 하나", "둘", "[00:20.00] 셋", "넷"].join("\n")
+  );
+
+  assert.deepEqual(
+    lines.map((line) => line.startTimeMs),
+    ["10000", "10000", "20000", "20000"]
+  );
+});
+
+test("parse: 공백 없이 붙은 숫자는 타임스탬프로 보지 않음", () => {
+  const lines = textLyricsSource.parse("12:30분에 만나");
+
+  assert.deepEqual(lines, [{ startTimeMs: "0", words: "12:30분에 만나" }]);
+});
@@ -0,0 +1,158 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  TimingExportOptions,
+  timingExportService,
+} from "../src/service/timing/timing-export";
+import { LyricWithTimings, SyllableTiming } from "../src/service/timing/types";
+
+function syllable(
+  text: string,
+  startSeconds: number,
+  endSeconds: number,
+  charIndex: number
+): SyllableTiming {
+  return {
+    text,
+    startSeconds,
+    endSeconds,
+    durationSeconds: endSeconds - startSeconds,
+    source: "stable-whisper",
+    charIndex,
+  };
+}
+
+// 0번 라인은 원문 띄어쓰기가 있는 음절, 1번은 타이밍 없음, 2번은 원문에서 찾지 못한 음절
+const LINES: LyricWithTimings[] = [
+  {
+    originalText: "사랑 해",
+    refinedText: "사 랑 해",
+    timings: [
+      syllable("사", 0, 0.5, 0),
+      syllable("랑", 0.5, 1.0, 1),
+      syllable("해", 1.2, 1.8, 3),
+    ],
+  },
+  { originalText: "♪", refinedText: "", timings: [] },
+  {
+    originalText: "a<b",
+    refinedText: "a<b",
+    timings: [syllable("a<b", 5.0, 5.5, -1)],
+  },
+];
+
+const LINE_LEVEL: TimingExportOptions = { level: "line", tracks: {} };
+const SYLLABLE_LEVEL: TimingExportOptions = { level: "syllable", tracks: {} };
+
+test("lrc: 타이밍이 있는 라인만 시작 시각과 함께 출력", () => {
+  const result = timingExportService.export(LINES, "lrc", LINE_LEVEL);
+
+  assert.equal(result.fileExtension, "lrc");
+  assert.equal(result.body, "[00:00.00]사랑 해\n[00:05.00]a<b");
+});
+
+test("elrc: charIndex 위치에 단어 태그를 넣어 원문 띄어쓰기를 유지", () => {
+  const result = timingExportService.export(LINES, "elrc", LINE_LEVEL);
+
+  assert.equal(
+    result.body,
+    [
+      // 라인 끝은 마지막 음절 끝 + 1초 (다음 라인 시작을 넘지 않음)
+      "[00:00.00]<00:00.00>사<00:00.50>랑 <00:01.20>해 <00:02.80>",
+      // 원문에서 찾지 못한 음절은 음절 텍스트를 이어 붙임
+      "[00:05.00]<00:05.00>a<b <00:06.50>",
+    ].join("\n")
+  );
+});
+
+test("srt: line 레벨은 로마자와 번역 트랙을 같은 cue에 추가", () => {
+  const result = timingExportService.export(LINES, "srt", {
+    level: "line",
+    tracks: { romanized: ["saranghae", "", "a"], translated: ["I love you"] },
+  });
+
+  assert.equal(
+    result.body,
+    [
+      "1\n00:00:00,000 --> 00:00:02,800\n사랑 해\nsaranghae\nI love you",
+      "2\n00:00:05,000 --> 00:00:06,500\na<b\na",
+    ].join("\n\n")
+  );
+});
+
+test("srt: syllable 레벨은 음절마다 cue", () => {
+  const result = timingExportService.export(LINES, "srt", SYLLABLE_LEVEL);
+
+  assert.equal(
+    result.body,
+    [
+      "1\n00:00:00,000 --> 00:00:00,500\n사",
+      "2\n00:00:00,500 --> 00:00:01,000\n랑",
+      "3\n00:00:01,200 --> 00:00:01,800\n해",
+      "4\n00:00:05,000 --> 00:00:05,500\na<b",
+    ].join("\n\n")
+  );
+});
+
+test("vtt: syllable 레벨은 cue 시작보다 늦은 음절에만 타임스탬프를 넣고 XML을 이스케이프", () => {
+  const result = timingExportService.export(LINES, "vtt", SYLLABLE_LEVEL);
+
+  assert.equal(
+    result.body,
+    [
+      "WEBVTT",
+      "00:00:00.000 --> 00:00:02.800\n사<00:00:00.500>랑 <00:00:01.200>해",
+      "00:00:05.000 --> 00:00:06.500\na&lt;b",
+    ].join("\n\n") + "\n"
+  );
+});
+
+test("ttml: 음절 span은 <p> 시작 기준 상대 시간이고 트랙마다 div를 추가", () => {
+  const result = timingExportService.export(LINES, "ttml", {
+    level: "syllable",
+    tracks: {
+      romanized: ["saranghae", "", "a"],
+      translated: ["I love you", "", "a & b"],
+      translatedLang: "en",
+    },
+  });
+
+  assert.match(
+    result.body,
+    /<p begin="00:00:00.000" end="00:00:02.800"><span begin="00:00:00.000" end="00:00:00.500">사<\/span><span begin="00:00:00.500" end="00:00:01.000">랑<\/span><span begin="00:00:01.200" end="00:00:01.800">해<\/span><\/p>/
+  );
+  assert.match(
+    result.body,
+    /<p begin="00:00:05.000" end="00:00:06.500"><span begin="00:00:00.000" end="00:00:00.500">a&lt;b<\/span><\/p>/
+  );
+  assert.match(
+    result.body,
+    /<div xml:lang="ko-Latn">\n {6}<p begin="00:00:00.000" end="00:00:02.800">saranghae<\/p>/
+  );
+  assert.match(
+    result.body,
+    /<div xml:lang="en">[\s\S]*<p begin="00:00:05.000" end="00:00:06.500">a &amp; b<\/p>/
+  );
+});
+
+test("json: 타이밍이 없는 라인도 인덱스를 유지하고 시간은 null", () => {
+  const result = timingExportService.export(LINES, "json", {
+    level: "line",
+    tracks: { translated: ["I love you"] },
+  });
+  const body = JSON.parse(result.body);
+
+  assert.equal(body.length, 3);
+  assert.deepEqual(
+    body.map((line: { startMs: number | null; endMs: number | null }) => [
+      line.startMs,
+      line.endMs,
+    ]),
+    [
+      [0, 2800],
+      [null, null],
+      [5000, 6500],
+    ]
+  );
+  assert.equal(body[0].translated, "I love you");
+});
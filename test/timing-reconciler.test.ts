@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { timingReconcilerService } from "../src/service/timing/timing-reconciler";
+import { AlignmentLine } from "../src/service/timing/aligner/types";
+import { TimedText } from "../src/service/timing/timing-schema";
+
+function line(text: string, startTimeMs: number | null): AlignmentLine {
+  return {
+    originalText: text.replace(/ /g, ""),
+    text,
+    startTimeMs,
+  };
+}
+
+function word(text: string, startSeconds: number): TimedText {
+  return { text, startSeconds, endSeconds: startSeconds + 0.4 };
+}
+
+const wordTexts = (words: TimedText[]) => words.map((w) => w.text);
+
+test("assignWords: 구분자 없이 가사 텍스트로 단어를 라인에 배정", () => {
+  const lines = [line("나 는 가", 0), line("너 를 봐", 3000)];
+  const result = timingReconcilerService.assignWords(
+    [word("나는", 0.1), word("가", 0.6), word("너를", 3.1), word("봐", 3.6)],
+    lines,
+    lines.map((l) => l.text)
+  );
+
+  assert.deepEqual(
+    result.map((r) => wordTexts(r.words)),
+    [
+      ["나는", "가"],
+      ["너를", "봐"],
+    ]
+  );
+  assert.deepEqual(
+    result.map((r) => r.coverage),
+    [1, 1]
+  );
+});
+
+test("assignWords: 같은 가사가 반복되면 Spotify 구간으로 라인을 구분", () => {
+  const lines = [
+    line("사 랑 해", 0),
+    line("보 고 싶 어", 2000),
+    line("사 랑 해", 10000),
+  ];
+  const result = timingReconcilerService.assignWords(
+    [word("보고", 2.1), word("싶어", 2.6), word("사랑해", 10.2)],
+    lines,
+    lines.map((l) => l.text)
+  );
+
+  assert.deepEqual(
+    result.map((r) => wordTexts(r.words)),
+    [[], ["보고", "싶어"], ["사랑해"]]
+  );
+  assert.equal(result[0].coverage, 0);
+  assert.equal(result[2].coverage, 1);
+});
+
+test("assignWords: 가사와 짝지어지지 않은 단어는 버리고 기호는 앞 단어의 라인에 둠", () => {
+  const lines = [line("하 나", 0), line("둘", 2000)];
+  const result = timingReconcilerService.assignWords(
+    [word("하나", 0.1), word("♪", 0.6), word("xyz", 1.0), word("둘", 2.1)],
+    lines,
+    lines.map((l) => l.text)
+  );
+
+  assert.deepEqual(
+    result.map((r) => wordTexts(r.words)),
+    [["하나", "♪"], ["둘"]]
+  );
+});
+
+test("assignWords: 일부만 정렬된 라인의 커버리지", () => {
+  const lines = [line("가 나 다 라", 0)];
+  const result = timingReconcilerService.assignWords(
+    [word("가나", 0.1)],
+    lines,
+    lines.map((l) => l.text)
+  );
+
+  assert.deepEqual(wordTexts(result[0].words), ["가나"]);
+  assert.equal(result[0].coverage, 0.5);
+});
+
+test("assignWords: 비교할 문자가 없는 라인은 커버리지 1", () => {
+  const lines = [line("♪", 0)];
+  const result = timingReconcilerService.assignWords([], lines, ["♪"]);
+
+  assert.deepEqual(result, [{ words: [], coverage: 1 }]);
+});
+
+test("fillUnaligned: 정렬에 실패한 라인만 Spotify 구간 안에서 균등 배치", async () => {
+  const lines = [line("하 나", 0), line("둘 셋", 2000), line("넷", null)];
+  const reconciled = timingReconcilerService.assignWords(
+    [word("하나", 0.1)],
+    lines,
+    lines.map((l) => l.text)
+  );
+  const aligned = {
+    originalText: "하나",
+    refinedText: "하 나",
+    timings: [],
+  };
+  const results = [
+    aligned,
+    { originalText: "둘셋", refinedText: "", timings: [] },
+    { originalText: "넷", refinedText: "", timings: [] },
+  ];
+
+  const filled = await timingReconcilerService.fillUnaligned(
+    results,
+    reconciled,
+    lines
+  );
+
+  assert.equal(filled[0], aligned);
+  assert.deepEqual(
+    filled[1].timings.map((t) => [t.text, t.startSeconds, t.endSeconds]),
+    [
+      ["둘", 2, 4],
+      ["셋", 4, 6],
+    ]
+  );
+  // 시작 시간을 모르는 라인은 그대로 둠
+  assert.equal(filled[2], results[2]);
+});
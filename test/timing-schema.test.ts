@@ -0,0 +1,206 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { timingSchemaService } from "../src/service/timing/timing-schema";
+import {
+  LyricWithTimingsV1,
+  StoredLineTimings,
+  SyllableTiming,
+} from "../src/service/timing/types";
+
+// v1은 음절 시작 시간만 있음
+const V1_LINES: LyricWithTimingsV1[] = [
+  {
+    originalText: "사랑해",
+    refinedText: "사 랑 해",
+    timings: [
+      { markName: "사", timeSeconds: 1.0 },
+      { markName: "랑", timeSeconds: 1.3 },
+      { markName: "해", timeSeconds: 1.6 },
+    ],
+  },
+  { originalText: "♪", refinedText: "", timings: [] },
+  {
+    originalText: "너",
+    refinedText: "너",
+    timings: [{ markName: "너", timeSeconds: 1.8 }],
+  },
+];
+
+const V2_SYLLABLE: SyllableTiming = {
+  text: "가",
+  startSeconds: 0.1,
+  endSeconds: 0.4,
+  durationSeconds: 0.3,
+  source: "stable-whisper",
+  charIndex: 0,
+};
+
+const spans = (syllables: SyllableTiming[]) =>
+  syllables.map((s) => [s.text, s.startSeconds, s.endSeconds, s.charIndex]);
+
+test("buildSyllables: 끝 시간이 없으면 다음 음절 시작, 마지막 음절은 평균 길이", () => {
+  const syllables = timingSchemaService.buildSyllables(
+    [
+      { text: "사", startSeconds: 1.0 },
+      { text: "랑", startSeconds: 1.2, endSeconds: 1.4 },
+      { text: "해", startSeconds: 1.6 },
+    ],
+    "uniform",
+    { originalText: "사랑 해" }
+  );
+
+  // 알려진 길이 0.2, 0.2의 평균만큼 마지막 음절 유지
+  assert.deepEqual(spans(syllables), [
+    ["사", 1.0, 1.2, 0],
+    ["랑", 1.2, 1.4, 1],
+    ["해", 1.6, 1.8, 3],
+  ]);
+  assert.deepEqual(
+    syllables.map((s) => [s.durationSeconds, s.source]),
+    [
+      [0.2, "uniform"],
+      [0.2, "uniform"],
+      [0.2, "uniform"],
+    ]
+  );
+});
+
+test("buildSyllables: 마지막 음절은 maxEndSeconds를 넘지 않고 길이를 모르면 기본값", () => {
+  const capped = timingSchemaService.buildSyllables(
+    [{ text: "가", startSeconds: 2.0 }],
+    "uniform",
+    { maxEndSeconds: 2.1 }
+  );
+  assert.deepEqual(spans(capped), [["가", 2.0, 2.1, -1]]);
+
+  const uncapped = timingSchemaService.buildSyllables(
+    [{ text: "가", startSeconds: 2.0 }],
+    "uniform"
+  );
+  assert.deepEqual(spans(uncapped), [["가", 2.0, 2.5, -1]]);
+});
+
+test("locate: 앞에서부터 순서대로 찾고 없으면 -1", () => {
+  assert.deepEqual(
+    timingSchemaService.locate("사랑 사랑", ["사", "랑", "사", "해", "랑"]),
+    [0, 1, 3, -1, 4]
+  );
+});
+
+test("upgradeSongTimings: v1 라인 배열은 legacy 출처의 v2로 변환하고 품질을 계산", () => {
+  const result = timingSchemaService.upgradeSongTimings(
+    JSON.stringify(V1_LINES)
+  );
+
+  assert.ok(result);
+  assert.equal(result.upgraded, true);
+  assert.equal(result.timings.version, 2);
+  assert.equal(result.timings.aligner, null);
+  // 마지막 음절은 다음 타이밍 있는 라인의 시작(1.8)에서 끊음
+  assert.deepEqual(spans(result.timings.lines[0].timings), [
+    ["사", 1.0, 1.3, 0],
+    ["랑", 1.3, 1.6, 1],
+    ["해", 1.6, 1.8, 2],
+  ]);
+  assert.deepEqual(result.timings.lines[1].timings, []);
+  assert.deepEqual(spans(result.timings.lines[2].timings), [
+    ["너", 1.8, 2.3, 0],
+  ]);
+  assert.ok(
+    result.timings.lines.every((line) =>
+      line.timings.every((s) => s.source === "legacy")
+    )
+  );
+  assert.equal(result.timings.quality?.score, 1);
+});
+
+test("upgradeSongTimings: 버전 없는 객체는 엔진 정보를 출처로 사용", () => {
+  const aligner = { engine: "stable-whisper" as const, params: {} };
+  const result = timingSchemaService.upgradeSongTimings({
+    aligner,
+    generatedAt: "2024-01-01T00:00:00.000Z",
+    lines: V1_LINES.slice(0, 1),
+  });
+
+  assert.ok(result);
+  assert.equal(result.upgraded, true);
+  assert.deepEqual(result.timings.aligner, aligner);
+  assert.equal(result.timings.generatedAt, "2024-01-01T00:00:00.000Z");
+  // 다음 라인이 없으면 마지막 음절은 평균 길이(0.3)
+  assert.deepEqual(spans(result.timings.lines[0].timings), [
+    ["사", 1.0, 1.3, 0],
+    ["랑", 1.3, 1.6, 1],
+    ["해", 1.6, 1.9, 2],
+  ]);
+  assert.equal(result.timings.lines[0].timings[0].source, "stable-whisper");
+});
+
+test("upgradeSongTimings: v2는 그대로, 비어 있거나 깨진 JSON은 null", () => {
+  const v2 = {
+    version: 2,
+    aligner: null,
+    generatedAt: "2024-01-01T00:00:00.000Z",
+    lines: [],
+  };
+  assert.deepEqual(timingSchemaService.upgradeSongTimings(v2), {
+    timings: v2,
+    upgraded: false,
+  });
+
+  assert.equal(timingSchemaService.upgradeSongTimings(null), null);
+  assert.equal(timingSchemaService.upgradeSongTimings(""), null);
+  assert.equal(timingSchemaService.upgradeSongTimings("[{"), null);
+});
+
+test("upgradeLineTimings: v2는 그대로, 타이밍이 아닌 값은 null, v1 배열은 변환", () => {
+  const v2: StoredLineTimings = { version: 2, syllables: [V2_SYLLABLE] };
+  assert.deepEqual(
+    timingSchemaService.upgradeLineTimings(v2, "가", "google-tts"),
+    { timings: v2, upgraded: false }
+  );
+
+  assert.equal(
+    timingSchemaService.upgradeLineTimings(
+      { error: "TTS 실패" },
+      "가",
+      "google-tts"
+    ),
+    null
+  );
+
+  const result = timingSchemaService.upgradeLineTimings(
+    '[{"markName":"가","timeSeconds":0.1}]',
+    "가",
+    "google-tts"
+  );
+  assert.ok(result);
+  assert.equal(result.upgraded, true);
+  assert.deepEqual(result.timings, {
+    version: 2,
+    syllables: [
+      {
+        text: "가",
+        startSeconds: 0.1,
+        endSeconds: 0.6,
+        durationSeconds: 0.5,
+        source: "google-tts",
+        charIndex: 0,
+      },
+    ],
+  });
+});
+
+test("upgradeSyllables: v2 배열은 그대로, 손상된 항목이 있으면 빈 배열", () => {
+  assert.deepEqual(
+    timingSchemaService.upgradeSyllables([V2_SYLLABLE], "google-tts"),
+    { timings: [V2_SYLLABLE], upgraded: false }
+  );
+  assert.deepEqual(
+    timingSchemaService.upgradeSyllables("[1, null]", "google-tts"),
+    { timings: [], upgraded: false }
+  );
+  assert.deepEqual(timingSchemaService.upgradeSyllables([], "google-tts"), {
+    timings: [],
+    upgraded: false,
+  });
+});
@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ExpectedTimingLine,
+  timingValidatorService,
+} from "../src/service/timing/timing-validator";
+import {
+  LyricWithTimings,
+  SyllableTiming,
+  TimingSource,
+} from "../src/service/timing/types";
+
+// [텍스트, 시작, 끝] 목록으로 라인을 만듦
+function line(
+  originalText: string,
+  syllables: [string, number, number][],
+  source: TimingSource = "stable-whisper"
+): LyricWithTimings {
+  return {
+    originalText,
+    refinedText: syllables.map(([text]) => text).join(" "),
+    timings: syllables.map(
+      ([text, startSeconds, endSeconds]): SyllableTiming => ({
+        text,
+        startSeconds,
+        endSeconds,
+        durationSeconds: endSeconds - startSeconds,
+        source,
+        charIndex: -1,
+      })
+    ),
+  };
+}
+
+function expected(
+  originalText: string,
+  anchorMs: number | null = null
+): ExpectedTimingLine {
+  return { originalText, anchorMs };
+}
+
+const issueTypes = (issues: { type: string }[]) =>
+  issues.map((issue) => issue.type);
+
+const SARANGHAE: [string, number, number][] = [
+  ["사", 1.0, 1.3],
+  ["랑", 1.3, 1.6],
+  ["해", 1.6, 1.9],
+];
+
+test("validate: 정상 정렬은 점수 1이고 문제가 없음", () => {
+  const quality = timingValidatorService.validate(
+    [line("사랑해", SARANGHAE)],
+    [expected("사랑해", 1000)]
+  );
+
+  assert.equal(quality.score, 1);
+  assert.deepEqual(quality.lines, [
+    { lineIndex: 0, score: 1, coverage: 1, issues: [] },
+  ]);
+  assert.deepEqual(quality.issues, []);
+});
+
+test("validate: 빠진 음절은 커버리지만큼 점수를 깎음", () => {
+  const quality = timingValidatorService.validate(
+    [
+      line("사랑해", [
+        ["사", 1.0, 1.3],
+        ["해", 1.6, 1.9],
+      ]),
+    ],
+    [expected("사랑해")]
+  );
+
+  assert.equal(quality.lines[0].coverage, 0.667);
+  assert.equal(quality.lines[0].score, 0.667);
+  assert.deepEqual(issueTypes(quality.lines[0].issues), ["missing-syllables"]);
+});
+
+test("validate: 타이밍이 없는 라인은 한글이 있으면 0, 없으면 1", () => {
+  const quality = timingValidatorService.validate(
+    [line("사랑해", []), line("♪", [])],
+    [expected("사랑해"), expected("♪")]
+  );
+
+  assert.deepEqual(
+    quality.lines.map((l) => [l.score, issueTypes(l.issues)]),
+    [
+      [0, ["empty"]],
+      [1, []],
+    ]
+  );
+});
+
+test("validate: 순서가 뒤바뀐 음절과 이전 라인보다 먼저 시작하는 라인", () => {
+  const quality = timingValidatorService.validate(
+    [
+      line("사랑해", [
+        ["사", 1.0, 1.1],
+        ["랑", 0.8, 0.9],
+        ["해", 1.2, 1.3],
+      ]),
+      line("너", [["너", 1.1, 1.4]]),
+    ],
+    [expected("사랑해"), expected("너")]
+  );
+
+  assert.equal(quality.lines[0].score, 0.667);
+  assert.deepEqual(issueTypes(quality.lines[0].issues), ["non-monotonic"]);
+  assert.equal(quality.lines[1].score, 0);
+  assert.deepEqual(issueTypes(quality.lines[1].issues), ["non-monotonic"]);
+});
+
+test("validate: 너무 짧은 음절과 음절 사이의 긴 간격", () => {
+  const quality = timingValidatorService.validate(
+    [
+      line("사랑해", [
+        ["사", 0, 0.01],
+        ["랑", 0.5, 0.8],
+        ["해", 6.0, 6.3],
+      ]),
+    ],
+    [expected("사랑해")]
+  );
+
+  assert.equal(quality.lines[0].score, 0.333);
+  assert.deepEqual(issueTypes(quality.lines[0].issues), [
+    "short-duration",
+    "long-gap",
+  ]);
+});
+
+test("validate: Spotify 시작 시간과의 차이는 허용 범위를 넘은 만큼 깎음", () => {
+  const quality = timingValidatorService.validate(
+    [line("사랑해", SARANGHAE)],
+    [expected("사랑해", 3000)]
+  );
+
+  // 2000ms 차이 = 허용 범위(1000ms) + 1000ms / 4000ms
+  assert.equal(quality.lines[0].score, 0.75);
+  assert.deepEqual(issueTypes(quality.lines[0].issues), ["anchor-mismatch"]);
+});
+
+test("validate: 추정한 출처(uniform)는 음절 수 기준 상한으로 제한", () => {
+  const uniform = timingValidatorService.validate(
+    [line("사랑해", SARANGHAE, "uniform")],
+    [expected("사랑해", 1000)]
+  );
+  assert.equal(uniform.score, 0.5);
+  assert.deepEqual(issueTypes(uniform.lines[0].issues), ["estimated"]);
+
+  const mixed = line("사랑해", SARANGHAE);
+  mixed.timings[0].source = "uniform";
+  mixed.timings[1].source = "uniform";
+  assert.equal(
+    timingValidatorService.validate([mixed], [expected("사랑해", 1000)]).score,
+    0.667
+  );
+});
+
+test("validate: 노래 점수는 한글 음절 수로 가중 평균하고 라인 수 차이를 알림", () => {
+  const quality = timingValidatorService.validate(
+    [line("사랑해", SARANGHAE)],
+    [expected("사랑해"), expected("너")]
+  );
+
+  assert.equal(quality.score, 0.75);
+  assert.deepEqual(issueTypes(quality.issues), ["line-count-mismatch"]);
+  assert.deepEqual(issueTypes(quality.lines[1].issues), ["empty"]);
+});
+
+test("checkEditedLines: 수정한 라인의 범위와 앞뒤 라인 순서만 검사", () => {
+  const lines = [
+    line("하나", [
+      ["하", 2.0, 2.1],
+      ["나", 1.0, 1.1], // 수정하지 않은 라인의 문제는 무시
+    ]),
+    line("둘", [["둘", 0.5, 0.4]]),
+    line("셋", [["셋", 3.0, 3.2]]),
+  ];
+
+  assert.deepEqual(
+    timingValidatorService
+      .checkEditedLines(lines, [1, 1])
+      .map((issue) => [issue.type, issue.lineIndex]),
+    [
+      ["invalid-range", 1],
+      ["non-monotonic", 1],
+    ]
+  );
+  assert.deepEqual(timingValidatorService.checkEditedLines(lines, [2]), []);
+});